@@ -0,0 +1,279 @@
+/**
+ * AI Coach Actions API Route
+ *
+ * POST: Confirm or dismiss a change the coach proposed in chat
+ * - { messageId, index, confirm: true }   apply it
+ * - { messageId, index, confirm: false }  dismiss it
+ *
+ * HOW IT WORKS:
+ * 1. Loads the proposal from the coach message (it must still be pending)
+ * 2. Claims it - a conditional update that only succeeds while it's pending,
+ *    so a double submit can't apply it twice
+ * 3. Re-validates it (a swapped-in exercise must suit the plan's equipment
+ *    profile and the user's limitations), then writes to planned_workouts or food_logs
+ *    (handing the claim back if that fails)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseCoachAction, type CoachAction, type CoachActionStatus, type CoachProposal } from '@/lib/coachTools'
+import {
+  findEquipmentProfile,
+  getEquipmentProfiles,
+  getExerciseEquipment,
+  isEquipmentAvailable,
+} from '@/lib/equipment'
+import { calculateSimilarity, type Exercise as DBExercise } from '@/lib/fuzzyMatch'
+import { findContraindication, getActiveLimitations, getBodyAreaLabel } from '@/lib/limitations'
+import { movePlannedWorkout } from '@/lib/plannedWorkouts'
+import { retargetPrescription, type Prescription } from '@/lib/progression'
+import { getTodayKey } from '@/lib/schedule'
+import { getRequestTimeZone } from '@/lib/timezone'
+
+// How closely the coach's exercise name must match one in the plan
+const EXERCISE_MATCH_THRESHOLD = 70
+
+type PlanExercise = { name: string; sets: number; reps: string; prescription?: Prescription; [key: string]: unknown }
+
+// Null on success, otherwise a message to show the user
+type ActionResult = string | null
+
+/**
+ * Move a proposal between statuses, only if it's still in `from`.
+ * Returns the message's updated actions, or null if someone got there first.
+ */
+async function setProposalStatus(
+  supabase: SupabaseClient,
+  messageId: string,
+  index: number,
+  from: CoachActionStatus,
+  to: CoachActionStatus
+): Promise<CoachProposal[] | null> {
+  const { data, error } = await supabase.rpc('set_coach_action_status', {
+    p_message_id: messageId,
+    p_index: index,
+    p_from: from,
+    p_to: to,
+  })
+
+  if (error) throw error
+  return data
+}
+
+async function findPlan(supabase: SupabaseClient, userId: string, date: string) {
+  const { data } = await supabase
+    .from('planned_workouts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle()
+
+  return data
+}
+
+function findExerciseIndex(exercises: PlanExercise[], name: string): number {
+  let bestIndex = -1
+  let bestSimilarity = 0
+
+  exercises.forEach((exercise, index) => {
+    const similarity = calculateSimilarity(name, exercise.name)
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity
+      bestIndex = index
+    }
+  })
+
+  return bestSimilarity >= EXERCISE_MATCH_THRESHOLD ? bestIndex : -1
+}
+
+async function applyAction(
+  supabase: SupabaseClient,
+  userId: string,
+  action: CoachAction,
+  todayKey: string
+): Promise<ActionResult> {
+  switch (action.type) {
+    case 'swap_exercise':
+    case 'adjust_sets_reps': {
+      const plan = await findPlan(supabase, userId, action.date)
+      if (!plan) return `No workout is planned for ${action.date}`
+      if (plan.status === 'completed') return 'That workout is already completed'
+
+      const exercises: PlanExercise[] = plan.exercises || []
+      const index = findExerciseIndex(exercises, action.type === 'swap_exercise' ? action.from : action.exercise)
+      if (index === -1) return 'That exercise isn\'t in the plan anymore'
+
+      if (action.type === 'swap_exercise') {
+        // Injuries or equipment may have changed since the coach suggested this
+        const { data: profile } = await supabase
+          .from('profiles')
+          .select('limitations, equipment_profiles')
+          .eq('id', userId)
+          .single()
+
+        const { data: dbExercises } = await supabase
+          .from('exercises')
+          .select('id, name, muscle_group, equipment')
+        const exerciseList: DBExercise[] = dbExercises || []
+
+        // Only the equipment of the profile the workout was generated for
+        const equipmentProfile = findEquipmentProfile(getEquipmentProfiles(profile?.equipment_profiles), plan.equipment_profile)
+        if (equipmentProfile && !isEquipmentAvailable(getExerciseEquipment(action.to, exerciseList), equipmentProfile.equipment)) {
+          return `${action.to} needs equipment that isn't in your ${equipmentProfile.name} profile`
+        }
+
+        const limitations = getActiveLimitations(profile?.limitations, todayKey)
+        const limitation = findContraindication(action.to, limitations, exerciseList)
+        if (limitation) {
+          return `${action.to} isn't safe with your ${getBodyAreaLabel(limitation.body_area).toLowerCase()} limitation`
+        }
+
+        // Keep the sets, reps and rest; the prescription and exercise_id were for the old exercise
+        const { sets, reps, rest_seconds, superset } = exercises[index]
+        exercises[index] = {
+          name: action.to,
+          sets,
+          reps,
+          rest_seconds,
+          ...(superset ? { superset } : {}),
+          notes: 'Swapped by your coach',
+        }
+      } else {
+        // The target load still applies; target reps follow the new range
+        const { prescription } = exercises[index]
+        exercises[index] = {
+          ...exercises[index],
+          ...(action.sets ? { sets: action.sets } : {}),
+          ...(action.reps ? { reps: action.reps } : {}),
+          ...(action.reps && prescription ? { prescription: retargetPrescription(prescription, action.reps) } : {}),
+        }
+      }
+
+      const { error } = await supabase
+        .from('planned_workouts')
+        .update({ exercises })
+        .eq('id', plan.id)
+
+      if (error) throw error
+      return null
+    }
+
+    case 'reschedule_day': {
+      const plan = await findPlan(supabase, userId, action.from_date)
+      if (!plan) return `No workout is planned for ${action.from_date}`
+
+      const moved = await movePlannedWorkout(supabase, userId, plan, action.to_date, todayKey)
+      return moved.error
+    }
+
+    case 'skip_workout': {
+      const plan = await findPlan(supabase, userId, action.date)
+      if (!plan) return `No workout is planned for ${action.date}`
+      if (plan.status === 'completed') return 'That workout is already completed'
+
+      const { error } = await supabase
+        .from('planned_workouts')
+        .update({ status: 'skipped', completed_at: null })
+        .eq('id', plan.id)
+
+      if (error) throw error
+      return null
+    }
+
+    case 'log_food': {
+      const { error } = await supabase
+        .from('food_logs')
+        .insert({
+          user_id: userId,
+          name: action.name,
+          meal_type: action.meal_type,
+          calories: action.calories,
+          protein_g: action.protein_g,
+          carbs_g: action.carbs_g,
+          fat_g: action.fat_g,
+          logged_at: new Date().toISOString(),
+        })
+
+      if (error) throw error
+      return null
+    }
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { messageId, index, confirm } = await request.json()
+    if (!messageId || typeof index !== 'number') {
+      return NextResponse.json({ error: 'messageId and index are required' }, { status: 400 })
+    }
+
+    const { data: message, error: messageError } = await supabase
+      .from('coach_messages')
+      .select('id, actions')
+      .eq('id', messageId)
+      .eq('user_id', user.id)
+      .eq('role', 'assistant')
+      .single()
+
+    if (messageError || !message) {
+      return NextResponse.json({ error: 'Message not found' }, { status: 404 })
+    }
+
+    const proposals: CoachProposal[] = message.actions || []
+    const proposal = proposals[index]
+    if (!proposal) {
+      return NextResponse.json({ error: 'Action not found' }, { status: 404 })
+    }
+    if (proposal.status !== 'pending') {
+      return NextResponse.json({ error: `This action was already ${proposal.status}` }, { status: 409 })
+    }
+
+    const alreadyHandled = () =>
+      NextResponse.json({ error: 'This action was already handled' }, { status: 409 })
+
+    if (!confirm) {
+      const updated = await setProposalStatus(supabase, message.id, index, 'pending', 'dismissed')
+      return updated ? NextResponse.json({ actions: updated }) : alreadyHandled()
+    }
+
+    const todayKey = getTodayKey(await getRequestTimeZone())
+    const { value: action } = parseCoachAction(proposal.action, todayKey)
+    if (!action) {
+      return NextResponse.json({ error: 'This action is no longer valid' }, { status: 400 })
+    }
+
+    // Claim it before touching anything
+    const updated = await setProposalStatus(supabase, message.id, index, 'pending', 'applied')
+    if (!updated) return alreadyHandled()
+
+    let failure: ActionResult
+    try {
+      failure = await applyAction(supabase, user.id, action, todayKey)
+    } catch (error) {
+      await setProposalStatus(supabase, message.id, index, 'applied', 'pending')
+      throw error
+    }
+
+    if (failure) {
+      await setProposalStatus(supabase, message.id, index, 'applied', 'pending')
+      return NextResponse.json({ error: failure }, { status: 400 })
+    }
+
+    return NextResponse.json({ actions: updated })
+  } catch (error) {
+    console.error('Coach action error:', error)
+    return NextResponse.json(
+      { error: 'Failed to apply action' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * AI Coach Chat API Route
+ *
+ * A persistent conversation with the coach, stored per user in coach_messages.
+ *
+ * GET: The most recent messages, oldest first
+ * POST: Send a message - the reply is streamed back as plain text
+ * DELETE: Clear the conversation
+ *
+ * HOW IT WORKS:
+ * 1. Saves the user's message
+ * 2. Sends the recent conversation plus the same user context as /api/ai/coach
+ *    (profile, weekly activity and volume, injuries, nutrition), so follow-ups
+ *    like "why so little leg volume this week?" are answered from real data
+ * 3. Streams the reply and saves it once complete
+ *
+ * The coach can also propose changes (swap an exercise, adjust sets/reps,
+ * reschedule, log food, skip a workout). Proposals are saved on the reply as
+ * pending and only applied once the user confirms - see lib/coachTools and
+ * /api/ai/coach/actions.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAIProvider, type ChatMessage } from '@/lib/ai'
+import { checkAIQuota, quotaExceededResponse, trackAIUsage } from '@/lib/ai/usage'
+import { buildCoachContext } from '@/lib/coachContext'
+import { formatToolsForPrompt, splitCoachReply, type CoachProposal } from '@/lib/coachTools'
+import { addDays, getTodayKey } from '@/lib/schedule'
+import { getRequestTimeZone } from '@/lib/timezone'
+
+// Messages returned to the UI
+const HISTORY_LIMIT = 50
+// Messages sent to the model - older turns drop out of its memory
+const CONTEXT_LIMIT = 20
+const MAX_MESSAGE_LENGTH = 2000
+// Days of upcoming plans the coach can see (and propose changes to)
+const PLAN_DAYS_AHEAD = 7
+
+type PlanSummary = {
+  date: string
+  status: string
+  exercises: Array<{ name: string; sets: number; reps: string }> | null
+  // Supabase returns the embedded split as an object or a single-item array
+  split: { name: string } | Array<{ name: string }> | null
+}
+
+function formatUpcomingPlans(plans: PlanSummary[], todayKey: string): string {
+  if (plans.length === 0) return 'No workouts planned.'
+
+  return plans.map(plan => {
+    const day = plan.date === todayKey ? `${plan.date} (today)` : plan.date
+    const split = Array.isArray(plan.split) ? plan.split[0] : plan.split
+    const exercises = (plan.exercises || [])
+      .map(exercise => `${exercise.name} ${exercise.sets}x${exercise.reps}`)
+      .join(', ')
+    return `- ${day}: ${split?.name || 'Workout'} [${plan.status}]${exercises ? ` - ${exercises}` : ''}`
+  }).join('\n')
+}
+
+export async function GET() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: messages, error } = await supabase
+      .from('coach_messages')
+      .select('id, role, content, actions, created_at')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(HISTORY_LIMIT)
+
+    if (error) throw error
+
+    return NextResponse.json({ messages: (messages || []).reverse() })
+  } catch (error) {
+    console.error('Coach chat error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load conversation' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    // Check for a configured AI provider
+    const provider = getAIProvider()
+    if (!provider) {
+      return NextResponse.json(
+        { error: 'AI provider not configured' },
+        { status: 500 }
+      )
+    }
+
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { message } = await request.json()
+    const content = typeof message === 'string' ? message.trim() : ''
+    if (!content) {
+      return NextResponse.json({ error: 'message is required' }, { status: 400 })
+    }
+    if (content.length > MAX_MESSAGE_LENGTH) {
+      return NextResponse.json(
+        { error: `Messages are limited to ${MAX_MESSAGE_LENGTH} characters` },
+        { status: 400 }
+      )
+    }
+
+    // Per-user budget, checked before any model call
+    const quota = await checkAIQuota(supabase, user.id, 'coach_chat')
+    if (!quota.allowed) return quotaExceededResponse(quota)
+    const ai = trackAIUsage(provider, user.id, 'coach_chat')
+
+    const { error: saveError } = await supabase
+      .from('coach_messages')
+      .insert({ user_id: user.id, role: 'user', content })
+
+    if (saveError) throw saveError
+
+    // Recent conversation, including the message just saved
+    const { data: recent } = await supabase
+      .from('coach_messages')
+      .select('role, content')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(CONTEXT_LIMIT)
+
+    const conversation: ChatMessage[] = (recent || []).reverse()
+
+    // Profile, weekly activity, injuries and nutrition
+    const timeZone = await getRequestTimeZone()
+    const { context } = await buildCoachContext(supabase, user.id, timeZone)
+
+    // Upcoming plans, so the coach knows what it can change
+    const todayKey = getTodayKey(timeZone)
+    const { data: plans } = await supabase
+      .from('planned_workouts')
+      .select('date, status, exercises, split:workout_splits(name)')
+      .eq('user_id', user.id)
+      .gte('date', todayKey)
+      .lte('date', addDays(todayKey, PLAN_DAYS_AHEAD))
+      .order('date', { ascending: true })
+
+    const system = `You are Filo, an encouraging and knowledgeable AI fitness coach chatting with your client.
+Answer their questions using the data below - quote their actual numbers when relevant.
+Keep replies concise (a short paragraph or a few bullet points). Use **bold** for key points.
+If the data doesn't answer a question, say so rather than guessing.
+
+${context}
+UPCOMING PLAN:
+${formatUpcomingPlans(plans || [], todayKey)}
+
+${formatToolsForPrompt(todayKey)}`
+
+    // Wait for the first chunk so provider errors (rate limits, bad keys)
+    // still come back as a JSON error instead of a broken stream
+    const chunks = ai.streamChat(conversation, { system, signal: request.signal })[Symbol.asyncIterator]()
+    const first = await chunks.next()
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        let reply = ''
+
+        try {
+          let next = first
+          while (!next.done) {
+            reply += next.value
+            controller.enqueue(encoder.encode(next.value))
+            next = await chunks.next()
+          }
+
+          // Proposed actions are stored apart from the text, pending confirmation
+          const { text, actions } = splitCoachReply(reply, todayKey)
+          if (text || actions.length > 0) {
+            const proposals: CoachProposal[] = actions.map(action => ({ action, status: 'pending' }))
+            const { error } = await supabase
+              .from('coach_messages')
+              .insert({ user_id: user.id, role: 'assistant', content: text, actions: proposals })
+
+            if (error) console.error('Error saving coach reply:', error)
+          }
+        } catch (error) {
+          // The client left - nothing to tell it, and the partial reply isn't saved
+          if (request.signal.aborted) return
+
+          console.error('Coach chat stream error:', error)
+          controller.enqueue(encoder.encode(`${reply ? '\n\n' : ''}Sorry, I couldn't finish that reply. Please try again.`))
+        } finally {
+          if (!request.signal.aborted) controller.close()
+        }
+      },
+    })
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+        'Cache-Control': 'no-cache',
+      },
+    })
+  } catch (error) {
+    console.error('Coach chat error:', error)
+
+    // Check for rate limit error
+    const errorMessage = error instanceof Error ? error.message : ''
+    if (errorMessage.includes('429') || errorMessage.includes('Too Many Requests')) {
+      return NextResponse.json(
+        { error: 'Rate limit reached. Please wait a minute and try again.' },
+        { status: 429 }
+      )
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to send message' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function DELETE() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { error } = await supabase
+      .from('coach_messages')
+      .delete()
+      .eq('user_id', user.id)
+
+    if (error) throw error
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Coach chat error:', error)
+    return NextResponse.json(
+      { error: 'Failed to clear conversation' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,27 +1,49 @@
 /**
  * AI Coach API Route
  * 
- * Generates personalized fitness insights and daily plans using Google Gemini.
+ * Generates personalized fitness insights and daily plans with the configured AI provider.
  * 
  * HOW IT WORKS:
- * 1. Fetches user's profile, recent workouts, and nutrition data
- * 2. Sends this context to Gemini with a fitness coach persona
+ * 1. Builds the user context (profile, injuries, recent workouts, nutrition) - see lib/coachContext
+ * 2. Sends this context to the AI provider with a fitness coach persona
  * 3. Returns personalized insights and recommendations
+ *
+ * With body { stream: true } the text is sent as server-sent events:
+ * 'chunk' events as it's generated, then 'done' (full message + stats)
+ * or 'error'. Generation stops if the client disconnects.
+ *
+ * CACHING:
+ * Responses are cached per user, keyed on the prompt and a fingerprint
+ * of the underlying data (see lib/ai/cache). Asking again before any new
+ * workout or food log is written returns the cached answer with
+ * cached: true - no model call, no quota used. { refresh: true } skips it.
  */
 
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-
-// Initialize Gemini client
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GEMINI_API_KEY || '')
+import { getAIProvider } from '@/lib/ai'
+import { createEventStream } from '@/lib/ai/stream'
+import { checkAIQuota, quotaExceededResponse, trackAIUsage } from '@/lib/ai/usage'
+import { cacheResponse, getCachedResponse, hashCacheKey } from '@/lib/ai/cache'
+import { buildCoachContext } from '@/lib/coachContext'
+import { getRequestTimeZone } from '@/lib/timezone'
+
+// Rate limits get their own message so the user knows to wait
+function describeCoachError(error: unknown): { error: string; status: number } {
+  const errorMessage = error instanceof Error ? error.message : ''
+  if (errorMessage.includes('429') || errorMessage.includes('Too Many Requests')) {
+    return { error: 'Rate limit reached. Please wait a minute and try again.', status: 429 }
+  }
+  return { error: 'Failed to generate insight', status: 500 }
+}
 
 export async function POST(request: Request) {
   try {
-    // Check for API key
-    if (!process.env.GOOGLE_GEMINI_API_KEY) {
+    // Check for a configured AI provider
+    const provider = getAIProvider()
+    if (!provider) {
       return NextResponse.json(
-        { error: 'Gemini API key not configured' },
+        { error: 'AI provider not configured' },
         { status: 500 }
       )
     }
@@ -35,109 +57,13 @@ export async function POST(request: Request) {
     }
 
     // Get request body
-    const { type = 'insight' } = await request.json()
-
-    // Fetch user's profile
-    const { data: profile } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', user.id)
-      .single()
-
-    // Get date ranges
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-    const weekAgo = new Date(today)
-    weekAgo.setDate(weekAgo.getDate() - 7)
-
-    // Fetch recent workouts (last 7 days)
-    const { data: recentWorkouts } = await supabase
-      .from('workout_sessions')
-      .select(`
-        id,
-        name,
-        started_at,
-        workout_sets (
-          reps,
-          weight_kg,
-          exercise:exercises (
-            name,
-            muscle_group
-          )
-        )
-      `)
-      .eq('user_id', user.id)
-      .gte('started_at', weekAgo.toISOString())
-      .order('started_at', { ascending: false })
-
-    // Fetch today's nutrition
-    const { data: todayNutrition } = await supabase
-      .from('food_logs')
-      .select('*')
-      .eq('user_id', user.id)
-      .gte('logged_at', today.toISOString())
-      .lt('logged_at', tomorrow.toISOString())
-
-    // Fetch recent nutrition (last 7 days)
-    const { data: recentNutrition } = await supabase
-      .from('food_logs')
-      .select('calories, protein_g, carbs_g, fat_g, logged_at')
-      .eq('user_id', user.id)
-      .gte('logged_at', weekAgo.toISOString())
-
-    // Calculate stats
-    const workoutsThisWeek = recentWorkouts?.length || 0
-    const totalVolumeThisWeek = recentWorkouts?.reduce((total, session) => {
-      const sessionVolume = session.workout_sets?.reduce((sum: number, set: { reps: number; weight_kg: number | null }) => {
-        return sum + (set.reps * (set.weight_kg || 0))
-      }, 0) || 0
-      return total + sessionVolume
-    }, 0) || 0
-
-    const todayCalories = todayNutrition?.reduce((sum, log) => sum + (log.calories || 0), 0) || 0
-    const todayProtein = todayNutrition?.reduce((sum, log) => sum + (log.protein_g || 0), 0) || 0
-
-    // Calculate weekly averages
-    const weeklyCalories = recentNutrition?.reduce((sum, log) => sum + (log.calories || 0), 0) || 0
-    const weeklyProtein = recentNutrition?.reduce((sum, log) => sum + (log.protein_g || 0), 0) || 0
-    const daysWithLogs = new Set(recentNutrition?.map(log => log.logged_at.split('T')[0])).size || 1
-    const avgDailyCalories = Math.round(weeklyCalories / daysWithLogs)
-    const avgDailyProtein = Math.round(weeklyProtein / daysWithLogs)
-
-    // Get muscle groups trained this week
-    const muscleGroupsTrained = new Set<string>()
-    recentWorkouts?.forEach(workout => {
-      workout.workout_sets?.forEach((set: { exercise: { muscle_group: string } | null }) => {
-        if (set.exercise?.muscle_group) {
-          muscleGroupsTrained.add(set.exercise.muscle_group)
-        }
-      })
-    })
+    const { type = 'insight', stream = false, refresh = false } = await request.json()
+    if (type !== 'insight' && type !== 'daily_plan') {
+      return NextResponse.json({ error: 'Invalid type' }, { status: 400 })
+    }
 
-    // Build context for AI
-    const userContext = `
-USER PROFILE:
-- Name: ${profile?.display_name || 'User'}
-- Goal: ${profile?.fitness_goal?.replace('_', ' ') || 'Not set'}
-- Activity Level: ${profile?.activity_level?.replace('_', ' ') || 'Not set'}
-- Height: ${profile?.height_cm ? `${profile.height_cm} cm` : 'Not set'}
-- Weight: ${profile?.weight_kg ? `${profile.weight_kg} kg` : 'Not set'}
-
-THIS WEEK'S ACTIVITY:
-- Workouts completed: ${workoutsThisWeek}
-- Total volume lifted: ${Math.round(totalVolumeThisWeek)} kg
-- Muscle groups trained: ${muscleGroupsTrained.size > 0 ? Array.from(muscleGroupsTrained).join(', ') : 'None yet'}
-
-TODAY'S NUTRITION:
-- Calories: ${todayCalories}
-- Protein: ${Math.round(todayProtein)}g
-
-WEEKLY NUTRITION AVERAGES:
-- Avg daily calories: ${avgDailyCalories}
-- Avg daily protein: ${avgDailyProtein}g
-`
+    // Profile, weekly activity, injuries and nutrition
+    const { context: userContext, stats, fingerprint } = await buildCoachContext(supabase, user.id, await getRequestTimeZone())
 
     // Different prompts based on request type
     let prompt = ''
@@ -155,7 +81,7 @@ Give a quick personalized insight or tip:`
 
 **Workout:** [brief workout suggestion or rest day recommendation]
 
-**Nutrition Target:** [specific calorie/protein goal]
+**Nutrition Target:** [calorie/protein goal based on their daily targets]
 
 **Tip:** [one actionable tip]
 
@@ -166,39 +92,56 @@ ${userContext}
 Create today's personalized plan:`
     }
 
-    // Call Gemini 2.5 Flash (latest stable, high quotas)
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' })
-    
-    const result = await model.generateContent(prompt)
-    const response = result.response.text()
+    // Same prompt, model and data as last time - reuse the answer
+    const cacheKey = hashCacheKey([prompt, provider.name, provider.model, fingerprint])
+    const cached = refresh ? null : await getCachedResponse<string>(supabase, user.id, type, cacheKey)
+
+    if (cached) {
+      if (stream) {
+        return createEventStream(async (send) => {
+          send('chunk', { text: cached })
+          send('done', { message: cached, stats, cached: true })
+        }, request.signal)
+      }
+      return NextResponse.json({ message: cached, stats, cached: true })
+    }
+
+    // Per-user budget, checked before any model call
+    const quota = await checkAIQuota(supabase, user.id, 'coach')
+    if (!quota.allowed) return quotaExceededResponse(quota)
+    const ai = trackAIUsage(provider, user.id, 'coach')
+
+    if (stream) {
+      return createEventStream(async (send, signal) => {
+        let message = ''
+        try {
+          for await (const text of ai.streamText(prompt, { signal })) {
+            message += text
+            send('chunk', { text })
+          }
+          if (message) await cacheResponse(supabase, user.id, type, cacheKey, message)
+          send('done', { message, stats, cached: false })
+        } catch (error) {
+          if (signal.aborted) return
+          console.error('AI Coach error:', error)
+          send('error', describeCoachError(error))
+        }
+      }, request.signal)
+    }
+
+    const response = await ai.generateText(prompt)
+    if (response) await cacheResponse(supabase, user.id, type, cacheKey, response)
 
     return NextResponse.json({ 
       message: response,
-      stats: {
-        workoutsThisWeek,
-        totalVolumeThisWeek: Math.round(totalVolumeThisWeek),
-        todayCalories,
-        todayProtein: Math.round(todayProtein),
-        avgDailyCalories,
-        avgDailyProtein,
-      }
+      stats,
+      cached: false,
     })
 
   } catch (error) {
     console.error('AI Coach error:', error)
-    
-    // Check for rate limit error
-    const errorMessage = error instanceof Error ? error.message : ''
-    if (errorMessage.includes('429') || errorMessage.includes('Too Many Requests')) {
-      return NextResponse.json(
-        { error: 'Rate limit reached. Please wait a minute and try again.' },
-        { status: 429 }
-      )
-    }
-    
-    return NextResponse.json(
-      { error: 'Failed to generate insight' },
-      { status: 500 }
-    )
+
+    const { error: message, status } = describeCoachError(error)
+    return NextResponse.json({ error: message }, { status })
   }
 }
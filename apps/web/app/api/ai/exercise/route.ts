@@ -2,15 +2,30 @@
  * AI Exercise API
  * 
  * Endpoints for exercise-related AI features:
- * - Suggest alternative exercises
+ * - Suggest alternative exercises (limited to the day's equipment when given)
  * - Validate user-suggested replacements
+ *
+ * Both respect the user's active injuries/limitations.
  */
 
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { GoogleGenerativeAI } from '@google/generative-ai'
-
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GEMINI_API_KEY || '')
+import { getAIProvider } from '@/lib/ai'
+import { alternativesSchema, replacementValidationSchema } from '@/lib/ai/schemas'
+import { generateStructured } from '@/lib/ai/structured'
+import { recordAIOutcome, recordStructuredOutcome } from '@/lib/ai/metrics'
+import { checkAIQuota, quotaExceededResponse, trackAIUsage } from '@/lib/ai/usage'
+import { filterByEquipment, formatEquipment, type Equipment } from '@/lib/equipment'
+import type { Exercise as DBExercise } from '@/lib/fuzzyMatch'
+import {
+  filterContraindicated,
+  findContraindication,
+  formatLimitationsForPrompt,
+  getActiveLimitations,
+  getBodyAreaLabel,
+} from '@/lib/limitations'
+import { getTodayKey } from '@/lib/schedule'
+import { getRequestTimeZone } from '@/lib/timezone'
 
 export async function POST(request: Request) {
   try {
@@ -22,16 +37,63 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { action, exercise, muscleGroups, userSuggestion } = await request.json()
+    const { action, exercise, muscleGroups, userSuggestion, equipment } = await request.json()
+    const available: Equipment[] | null = Array.isArray(equipment) && equipment.length > 0 ? equipment : null
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('limitations')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const limitations = getActiveLimitations(profile?.limitations, getTodayKey(await getRequestTimeZone()))
+    const limitationsNote = limitations.length > 0
+      ? `\nThe user has these injuries/limitations - never suggest anything that loads them:\n${formatLimitationsForPrompt(limitations)}\n`
+      : ''
+
+    // Severe limitations rule out whole muscle groups, looked up by exercise
+    let exerciseList: DBExercise[] = []
+    if (limitations.some(limitation => limitation.severity === 'severe')) {
+      const { data: dbExercises } = await supabase
+        .from('exercises')
+        .select('id, name, muscle_group')
+      exerciseList = dbExercises || []
+    }
 
-    if (!process.env.GOOGLE_GEMINI_API_KEY) {
+    // Alternatives that need equipment we don't have today or aggravate an injury are dropped
+    const usable = <T extends { name: string }>(alternatives: T[]) =>
+      filterContraindicated(available ? filterByEquipment(alternatives, available) : alternatives, limitations, exerciseList).allowed
+
+    // A replacement that hits an injury is rejected without asking the AI
+    const conflict = action === 'validate_replacement' && userSuggestion
+      ? findContraindication(userSuggestion, limitations, exerciseList)
+      : null
+    if (conflict) {
+      return NextResponse.json({
+        isGood: false,
+        feedback: `${userSuggestion} isn't a good idea with your ${getBodyAreaLabel(conflict.body_area).toLowerCase()} injury.`,
+        suggestion: usable(getFallbackAlternatives(exercise.name))[0]?.name || null,
+      })
+    }
+
+    const provider = getAIProvider()
+    if (!provider) {
+      await recordAIOutcome(supabase, {
+        userId: user.id,
+        route: action === 'validate_replacement' ? 'validate_replacement' : 'alternatives',
+        provider: null,
+        outcome: 'fallback',
+      })
       return NextResponse.json({ 
         error: 'AI not configured',
-        alternatives: getFallbackAlternatives(exercise.name)
+        alternatives: usable(getFallbackAlternatives(exercise.name))
       }, { status: 200 })
     }
 
-    const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' })
+    // Per-user budget, checked before any model call
+    const quota = await checkAIQuota(supabase, user.id, 'exercise')
+    if (!quota.allowed) return quotaExceededResponse(quota)
+    const ai = trackAIUsage(provider, user.id, 'exercise')
 
     if (action === 'suggest_alternative') {
       // Suggest alternative exercises
@@ -40,8 +102,8 @@ export async function POST(request: Request) {
 Suggest 3 alternative exercises that:
 1. Target the same muscle groups
 2. Use different equipment (e.g., if original uses barbell, suggest dumbbell/cable/bodyweight options)
-3. Are suitable for a gym or home workout
-
+3. ${available ? `Can be done with ONLY this equipment: ${formatEquipment(available)}` : 'Are suitable for a gym or home workout'}
+${limitationsNote}
 Return ONLY a JSON array with 3 alternatives. Each should have:
 - name: exercise name
 - sets: number (keep similar to original: ${exercise.sets})
@@ -56,18 +118,20 @@ Example:
 
 Return ONLY the JSON array, no other text.`
 
-      const result = await model.generateContent(prompt)
-      const responseText = result.response.text()
-      
-      // Parse the JSON from the response
-      const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-      if (jsonMatch) {
-        const alternatives = JSON.parse(jsonMatch[0])
-        return NextResponse.json({ alternatives })
-      }
+      const suggested = await generateStructured(ai, prompt, alternativesSchema)
+      const alternatives = usable(suggested.value || [])
 
-      return NextResponse.json({ 
-        alternatives: getFallbackAlternatives(exercise.name)
+      // Everything filtered out for equipment/injuries counts as a fallback too
+      await recordStructuredOutcome(
+        supabase,
+        user.id,
+        'alternatives',
+        ai.name,
+        alternatives.length > 0 ? suggested : { ...suggested, outcome: 'fallback' }
+      )
+
+      return NextResponse.json({
+        alternatives: alternatives.length > 0 ? alternatives : usable(getFallbackAlternatives(exercise.name)),
       })
 
     } else if (action === 'validate_replacement') {
@@ -75,7 +139,7 @@ Return ONLY the JSON array, no other text.`
       const prompt = `You are a fitness coach. The user wants to replace "${exercise.name}" with "${userSuggestion}".
 
 Original exercise targets: ${muscleGroups?.join(', ') || 'unknown'}
-
+${limitationsNote}
 Evaluate this replacement and respond with ONLY a JSON object:
 {
   "isGood": boolean (true if it's a reasonable replacement),
@@ -85,14 +149,11 @@ Evaluate this replacement and respond with ONLY a JSON object:
 
 Be encouraging but honest. If the replacement hits similar muscles, approve it.`
 
-      const result = await model.generateContent(prompt)
-      const responseText = result.response.text()
-      
-      // Parse the JSON from the response
-      const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-      if (jsonMatch) {
-        const validation = JSON.parse(jsonMatch[0])
-        return NextResponse.json(validation)
+      const validation = await generateStructured(ai, prompt, replacementValidationSchema)
+      await recordStructuredOutcome(supabase, user.id, 'validate_replacement', ai.name, validation)
+
+      if (validation.value) {
+        return NextResponse.json(validation.value)
       }
 
       return NextResponse.json({ 
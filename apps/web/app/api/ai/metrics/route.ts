@@ -0,0 +1,42 @@
+/**
+ * AI Output Metrics API
+ *
+ * GET: Per-route counts of valid, repaired, retried and fallback AI
+ * responses for the current user, plus the fallback rate.
+ *
+ * Query: ?days=30 (how far back to look, 1-365)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAIOutcomeSummary } from '@/lib/ai/metrics'
+
+const DEFAULT_DAYS = 30
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const requestedDays = Number(new URL(request.url).searchParams.get('days'))
+    const days = Number.isFinite(requestedDays) && requestedDays > 0
+      ? Math.min(365, Math.round(requestedDays))
+      : DEFAULT_DAYS
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const summary = await getAIOutcomeSummary(supabase, user.id, since)
+
+    return NextResponse.json({ days, summary })
+  } catch (error) {
+    console.error('AI metrics error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load AI metrics' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,23 +2,96 @@
  * AI Workout Generator API
  * 
  * Generates today's workout based on:
- * - User's workout split template
+ * - User's workout split template (weekday-pinned splits first, then the rotation)
  * - Recent workout history
- * - Skipped/missed workouts that need rescheduling
+ * - Missed workouts, handled by the user's rescheduling policy
+ * - What was actually lifted last time (progressive overload)
+ * - Weekly hard sets per muscle group (under-trained groups get priority)
+ * - The equipment profile picked for the day (body: { equipmentProfile })
+ * - An optional time budget in minutes (body: { targetMinutes })
+ * - Active injuries/limitations (contraindicated exercises are filtered out)
+ * 
+ * With body { stream: true } the response is server-sent events: an
+ * 'exercise' event as each one is generated, then 'done' with the saved
+ * workout (after filtering and fitting, so it can differ) or 'error'.
+ * Generation stops if the client disconnects.
  * 
  * Returns:
  * - Which split to do today
  * - AI reasoning for the recommendation
- * - Suggested exercises with sets/reps
+ * - Suggested exercises with sets/reps and target loads
  */
 
 import { createClient } from '@/lib/supabase/server'
 import { NextResponse } from 'next/server'
-import { GoogleGenerativeAI } from '@google/generative-ai'
+import { getAIProvider } from '@/lib/ai'
+import { generatedWorkoutSchema, type GeneratedExercise } from '@/lib/ai/schemas'
+import { generateStructured } from '@/lib/ai/structured'
+import { createEventStream } from '@/lib/ai/stream'
+import { checkAIQuota, quotaExceededResponse, trackAIUsage } from '@/lib/ai/usage'
+import { recordAIOutcome, recordStructuredOutcome } from '@/lib/ai/metrics'
+import { findBestMatch, type Exercise as DBExercise } from '@/lib/fuzzyMatch'
+import {
+  filterByEquipment,
+  findEquipmentProfile,
+  formatEquipment,
+  getEquipmentProfiles,
+  guessEquipment,
+  isEquipmentAvailable,
+} from '@/lib/equipment'
+import { fitToDuration, getExerciseCountRange } from '@/lib/sessionDuration'
+import {
+  filterContraindicated,
+  findContraindication,
+  formatLimitationsForPrompt,
+  getActiveLimitations,
+  getBodyAreaLabel,
+} from '@/lib/limitations'
+import {
+  prescribe,
+  DEFAULT_PROGRESSION_MODEL,
+  type PreviousSet,
+  type Prescription,
+  type ProgressionModel,
+} from '@/lib/progression'
+import { addDays, getRotation, getTodayKey } from '@/lib/schedule'
+import { getRequestTimeZone } from '@/lib/timezone'
+import {
+  decideTodaysSplit,
+  DEFAULT_DROP_AFTER_DAYS,
+  DEFAULT_RESCHEDULE_POLICY,
+  RESCHEDULE_LOOKBACK_DAYS,
+} from '@/lib/reschedule'
+import { getWeeklyVolume, getUnderTrainedGroups } from '@/lib/weeklyVolume'
+
+type SupabaseClient = Awaited<ReturnType<typeof createClient>>
+
+type PlannedExercise = {
+  name: string
+  sets: number
+  reps: string
+  rest_seconds: number
+  notes?: string
+  exercise_id?: string
+  prescription?: Prescription
+  superset?: string
+}
+
+type GenerateWorkoutBody = {
+  equipmentProfile?: string
+  targetMinutes?: number
+  // Respond with server-sent events: 'exercise' as each one is generated, then 'done' or 'error'
+  stream?: boolean
+}
+
+// Fewest exercises to hand back after equipment filtering
+const MIN_EXERCISES = 4
 
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GEMINI_API_KEY || '')
+// Accepted range for a session time budget
+const MIN_TARGET_MINUTES = 15
+const MAX_TARGET_MINUTES = 180
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
     const supabase = await createClient()
     
@@ -28,6 +101,45 @@ export async function POST() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
+    // Body is optional - older clients POST without one
+    const body = await request.json().catch(() => ({}))
+
+    if (!body.stream) {
+      return await generateWorkout(supabase, user, body)
+    }
+
+    // Stream each exercise as the model writes it, then the saved workout
+    return createEventStream(async (send, signal) => {
+      const response = await generateWorkout(supabase, user, body, {
+        signal,
+        onExercise: exercise => send('exercise', exercise),
+      })
+      if (signal.aborted) return
+
+      const data = await response.json()
+      send(response.ok ? 'done' : 'error', { ...data, status: response.status })
+    }, request.signal)
+
+  } catch (error) {
+    console.error('Workout generation error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate workout' },
+      { status: 500 }
+    )
+  }
+}
+
+async function generateWorkout(
+  supabase: SupabaseClient,
+  user: { id: string },
+  { equipmentProfile: equipmentProfileId, targetMinutes: requestedMinutes }: GenerateWorkoutBody,
+  streaming?: { onExercise: (exercise: GeneratedExercise) => void; signal: AbortSignal }
+): Promise<NextResponse> {
+  try {
+    const targetMinutes = Number(requestedMinutes) > 0
+      ? Math.min(MAX_TARGET_MINUTES, Math.max(MIN_TARGET_MINUTES, Math.round(Number(requestedMinutes))))
+      : null
+
     // Get user's workout splits
     const { data: splits, error: splitsError } = await supabase
       .from('workout_splits')
@@ -47,10 +159,8 @@ export async function POST() {
       }, { status: 400 })
     }
 
-    // Get today's date (start of day)
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayStr = today.toISOString().split('T')[0]
+    // Today in the user's timezone
+    const todayStr = getTodayKey(await getRequestTimeZone())
 
     // Check if there's already a planned workout for today
     const { data: existingWorkout } = await supabase
@@ -58,9 +168,15 @@ export async function POST() {
       .select('*, split:workout_splits(*)')
       .eq('user_id', user.id)
       .eq('date', todayStr)
-      .single()
+      .maybeSingle()
+
+    // Days projected by the calendar only have a split - fill in their exercises
+    const isProjected = existingWorkout?.status === 'planned'
+      && existingWorkout.split
+      && !existingWorkout.split.is_rest_day
+      && (!existingWorkout.exercises || existingWorkout.exercises.length === 0)
 
-    if (existingWorkout) {
+    if (existingWorkout && !isProjected) {
       // Return existing workout
       return NextResponse.json({
         planned_workout: existingWorkout,
@@ -69,60 +185,79 @@ export async function POST() {
       })
     }
 
-    // Get recent planned workouts (last 14 days)
-    const twoWeeksAgo = new Date(today)
-    twoWeeksAgo.setDate(twoWeeksAgo.getDate() - 14)
-    
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('progression_model, volume_targets, reschedule_policy, reschedule_drop_days, equipment_profiles, limitations')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    // Get recent planned workouts - days in between with no plan count as missed too
     const { data: recentWorkouts } = await supabase
       .from('planned_workouts')
       .select('*, split:workout_splits(*)')
       .eq('user_id', user.id)
-      .gte('date', twoWeeksAgo.toISOString().split('T')[0])
+      .gte('date', addDays(todayStr, -RESCHEDULE_LOOKBACK_DAYS))
+      .lt('date', todayStr)
       .order('date', { ascending: false })
 
-    // Analyze workout history to determine next split
-    const completedSplitIds = new Set(
-      recentWorkouts
-        ?.filter(w => w.status === 'completed')
-        .map(w => w.split_id) || []
-    )
+    // Weekday-pinned splits sit outside the rotation, so only unpinned ones advance it
+    const rotationIds = new Set(getRotation(splits).map(s => s.id))
+    const lastCompletedWorkout = recentWorkouts?.find(w => w.status === 'completed' && rotationIds.has(w.split_id))
 
-    const skippedWorkouts = recentWorkouts?.filter(w => w.status === 'skipped') || []
-    const lastCompletedWorkout = recentWorkouts?.find(w => w.status === 'completed')
+    // Apply the user's policy for missed workouts
+    const decision = decideTodaysSplit({
+      splits,
+      plans: recentWorkouts || [],
+      todayKey: todayStr,
+      policy: profile?.reschedule_policy || DEFAULT_RESCHEDULE_POLICY,
+      dropAfterDays: profile?.reschedule_drop_days ?? DEFAULT_DROP_AFTER_DAYS,
+    })
+
+    // Calendar days keep their split unless a missed workout moves a training day onto today
+    const followCalendar = isProjected
+      && (decision.missed.length === 0 || !decision.split || decision.split.is_rest_day)
 
     // Determine which split is next
-    let nextSplit = splits[0] // Default to first split
+    let nextSplit = decision.split
+    let mergedSplits = decision.mergedSplits
     let reasoning = ''
 
-    // Check for skipped workouts that need rescheduling
-    if (skippedWorkouts.length > 0) {
-      const oldestSkipped = skippedWorkouts[skippedWorkouts.length - 1]
-      if (oldestSkipped.split) {
-        nextSplit = splits.find(s => s.id === oldestSkipped.split_id) || splits[0]
-        reasoning = `Rescheduled ${nextSplit.name} - you skipped this earlier and we want to keep your rotation balanced.`
-      }
+    if (followCalendar) {
+      // Already scheduled on the calendar
+      nextSplit = existingWorkout.split
+      mergedSplits = []
+      reasoning = `${existingWorkout.split.name} is on your calendar for today.`
+    } else if (decision.reason) {
+      // Missed workouts were rescheduled, merged or dropped
+      reasoning = decision.reason
+    } else if (decision.pinned && nextSplit) {
+      const weekday = new Date(`${todayStr}T00:00:00Z`).toLocaleDateString('en-US', { weekday: 'long', timeZone: 'UTC' })
+      reasoning = `${nextSplit.name} is pinned to ${weekday}s.`
+    } else if (!nextSplit) {
+      reasoning = 'Nothing is pinned to today - rest day. 😴'
     } else if (lastCompletedWorkout?.split) {
-      // Find the next split in rotation after the last completed one
-      const lastSplitOrder = lastCompletedWorkout.split.order_in_rotation
-      const nextOrder = (lastSplitOrder % splits.length) + 1
-      nextSplit = splits.find(s => s.order_in_rotation === nextOrder) || splits[0]
+      // Next unpinned split in rotation after the last completed one
       reasoning = `Next in your rotation after ${lastCompletedWorkout.split.name}.`
     } else {
       reasoning = `Starting fresh with ${nextSplit.name} - let's go! 💪`
     }
 
-    // Check if it's a rest day
-    if (nextSplit.is_rest_day) {
+    // Check if it's a rest day (a rest split, or every split is pinned to other days)
+    if (!nextSplit || nextSplit.is_rest_day) {
+      const restReasoning = nextSplit
+        ? `Scheduled rest day - recovery is part of progress! 😴${decision.reason ? ` ${decision.reason}` : ''}`
+        : reasoning
+
       // Create a rest day planned workout
       const { data: plannedWorkout, error: insertError } = await supabase
         .from('planned_workouts')
         .insert({
           user_id: user.id,
-          split_id: nextSplit.id,
+          split_id: nextSplit?.id || null,
           date: todayStr,
           status: 'rest',
           exercises: [],
-          ai_reasoning: 'Scheduled rest day - recovery is part of progress! 😴',
+          ai_reasoning: restReasoning,
         })
         .select('*, split:workout_splits(*)')
         .single()
@@ -135,26 +270,79 @@ export async function POST() {
         planned_workout: plannedWorkout,
         split: nextSplit,
         isRestDay: true,
-        reasoning: 'Scheduled rest day - recovery is part of progress! 😴',
+        reasoning: restReasoning,
       })
     }
 
+    // Muscle groups for today, plus any missed split merged into it
+    const targetGroups: string[] = Array.from(new Set([
+      ...nextSplit.muscle_groups,
+      ...mergedSplits.flatMap(split => split.muscle_groups),
+    ]))
+    const workoutName = [nextSplit.name, ...mergedSplits.map(split => split.name)].join(' + ')
+
+    // Put this split's under-trained muscle groups first
+    const weeklyVolume = await getWeeklyVolume(supabase, user.id, {
+      overrides: profile?.volume_targets,
+      trackedGroups: targetGroups,
+    })
+    const underTrained = getUnderTrainedGroups(weeklyVolume)
+      .filter(v => targetGroups.includes(v.muscle_group))
+    const prioritizedGroups: string[] = [
+      ...underTrained.map(v => v.muscle_group),
+      ...targetGroups.filter(group => !underTrained.some(v => v.muscle_group === group)),
+    ]
+
+    if (underTrained.length > 0) {
+      reasoning += ` Prioritizing ${underTrained.map(v => v.muscle_group).join(', ')} - below your weekly set target.`
+    }
+
+    // Equipment available today (first profile if none was picked)
+    const equipmentProfiles = getEquipmentProfiles(profile?.equipment_profiles)
+    const equipmentProfile = findEquipmentProfile(equipmentProfiles, equipmentProfileId) || equipmentProfiles[0]
+    const available = equipmentProfile.equipment
+
+    const { data: dbExercises } = await supabase
+      .from('exercises')
+      .select('id, name, muscle_group, equipment')
+    const exerciseList: DBExercise[] = dbExercises || []
+
+    // Injuries active today rule out the movements that aggravate them
+    const limitations = getActiveLimitations(profile?.limitations, todayStr)
+    const canDo = (name: string) =>
+      isEquipmentAvailable(guessEquipment(name), available) && !findContraindication(name, limitations, exerciseList)
+
     // Generate exercises using AI
-    let exercises: Array<{
-      name: string
-      sets: number
-      reps: string
-      rest_seconds: number
-      notes?: string
-    }> = []
-
-    if (process.env.GOOGLE_GEMINI_API_KEY) {
-      try {
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' })
-        
-        const prompt = `You are a fitness coach. Generate a workout for a "${nextSplit.name}" day targeting these muscle groups: ${nextSplit.muscle_groups.join(', ')}.
+    let exercises: PlannedExercise[] = []
+
+    const provider = getAIProvider()
+
+    if (provider) {
+      // Per-user budget, checked before any model call
+      const quota = await checkAIQuota(supabase, user.id, 'workout')
+      if (!quota.allowed) return quotaExceededResponse(quota)
+    }
+    const ai = provider && trackAIUsage(provider, user.id, 'workout')
 
-Return ONLY a JSON array of 5-7 exercises. Each exercise should have:
+    if (ai) {
+      try {
+        const volumeNote = underTrained.length > 0
+          ? `\nThese muscle groups are below their weekly volume target, so put them first and give them more sets:\n${underTrained.map(v => `- ${v.muscle_group}: ${v.hard_sets} of ${v.target.min}-${v.target.max} hard sets done this week`).join('\n')}\n`
+          : ''
+
+        const exerciseCount = targetMinutes ? getExerciseCountRange(targetMinutes) : { min: 5, max: 7 }
+        const durationNote = targetMinutes
+          ? `\nThe whole session must fit in about ${targetMinutes} minutes including rest.\n`
+          : ''
+        const limitationsNote = limitations.length > 0
+          ? `\nThe user has these injuries/limitations. NEVER include exercises that load them or use a movement to avoid:\n${formatLimitationsForPrompt(limitations)}\n`
+          : ''
+
+        const prompt = `You are a fitness coach. Generate a workout for a "${workoutName}" day targeting these muscle groups: ${prioritizedGroups.join(', ')}.
+${volumeNote}
+Training at: ${equipmentProfile.name}. ONLY use exercises that can be done with this equipment: ${formatEquipment(available)}.
+${durationNote}${limitationsNote}
+Return ONLY a JSON array of ${exerciseCount.min}-${exerciseCount.max} exercises. Each exercise should have:
 - name: exercise name
 - sets: number of sets (3-5)
 - reps: rep range as string (e.g., "8-12", "10", "12-15")
@@ -169,37 +357,95 @@ Example format:
 
 Return ONLY the JSON array, no other text.`
 
-        const result = await model.generateContent(prompt)
-        const responseText = result.response.text()
-        
-        // Parse the JSON from the response
-        const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-        if (jsonMatch) {
-          exercises = JSON.parse(jsonMatch[0])
-        }
+        // Validated (sets 1-10, rest 15-600s), with one retry on unusable output
+        // Streamed exercises go out before the filtering below, so screen them
+        // here too - nothing the user can't do should flash up on screen
+        const generated = await generateStructured(ai, prompt, generatedWorkoutSchema, {
+          onItem: streaming && (exercise => {
+            if (canDo(exercise.name)) streaming.onExercise(exercise)
+          }),
+          signal: streaming?.signal,
+        })
+        await recordStructuredOutcome(supabase, user.id, 'workout', ai.name, generated)
+        exercises = generated.value || generateFallbackExercises(prioritizedGroups, canDo)
       } catch (aiError) {
+        // The client left - don't save a fallback workout nobody asked for
+        if (streaming?.signal.aborted) {
+          return NextResponse.json({ error: 'Generation cancelled' }, { status: 499 })
+        }
+
         console.error('AI exercise generation failed:', aiError)
+        await recordAIOutcome(supabase, {
+          userId: user.id,
+          route: 'workout',
+          provider: ai.name,
+          outcome: 'fallback',
+          errors: [aiError instanceof Error ? aiError.message : 'AI request failed'],
+        })
         // Fall back to basic exercises
-        exercises = generateFallbackExercises(nextSplit.muscle_groups)
+        exercises = generateFallbackExercises(prioritizedGroups, canDo)
       }
     } else {
-      // No AI key, use fallback
-      exercises = generateFallbackExercises(nextSplit.muscle_groups)
+      // No AI provider configured, use fallback
+      await recordAIOutcome(supabase, { userId: user.id, route: 'workout', provider: null, outcome: 'fallback' })
+      exercises = generateFallbackExercises(prioritizedGroups, canDo)
     }
 
-    // Create the planned workout
-    const { data: plannedWorkout, error: insertError } = await supabase
-      .from('planned_workouts')
-      .insert({
-        user_id: user.id,
-        split_id: nextSplit.id,
-        date: todayStr,
-        status: 'planned',
-        exercises: exercises,
-        ai_reasoning: reasoning,
-      })
-      .select('*, split:workout_splits(*)')
-      .single()
+    // Drop anything the AI picked that needs missing equipment or aggravates an injury
+    const { allowed, removed } = filterContraindicated(filterByEquipment(exercises, available, exerciseList), limitations, exerciseList)
+    exercises = allowed
+    if (removed.length > 0) {
+      reasoning += ` Left out ${removed.map(r => `${r.exercise.name} (${getBodyAreaLabel(r.limitation.body_area).toLowerCase()})`).join(', ')} for your injuries.`
+    }
+
+    // Top up from the fallbacks if too much was filtered
+    if (exercises.length < MIN_EXERCISES) {
+      const extras = generateFallbackExercises(prioritizedGroups, canDo)
+        .filter(extra => !exercises.some(e => e.name.toLowerCase() === extra.name.toLowerCase()))
+      exercises = [...exercises, ...extras].slice(0, Math.max(MIN_EXERCISES, exercises.length))
+    }
+
+    // Fit the time budget - supersets or fewer exercises when long, extra accessories when short
+    if (targetMinutes) {
+      const extras = generateFallbackExercises(prioritizedGroups, canDo, 4, 20)
+      const fitted = fitToDuration(exercises, targetMinutes, extras)
+      exercises = fitted.exercises
+      reasoning += ` Sized for your ${targetMinutes} minutes (~${fitted.estimatedMinutes} min).`
+        + fitted.adjustments.map(adjustment => ` ${adjustment}.`).join('')
+    }
+
+    // Prescribe target loads from what was actually lifted last time
+    const progressionModel: ProgressionModel = profile?.progression_model || DEFAULT_PROGRESSION_MODEL
+    exercises = await attachPrescriptions(supabase, user.id, exercises, progressionModel, exerciseList)
+
+    // Create the planned workout (or fill in the projected one)
+    const { data: plannedWorkout, error: insertError } = isProjected
+      ? await supabase
+        .from('planned_workouts')
+        .update({
+          split_id: nextSplit.id,
+          exercises: exercises,
+          equipment_profile: equipmentProfile.id,
+          target_minutes: targetMinutes,
+          ai_reasoning: reasoning,
+        })
+        .eq('id', existingWorkout.id)
+        .select('*, split:workout_splits(*)')
+        .single()
+      : await supabase
+        .from('planned_workouts')
+        .insert({
+          user_id: user.id,
+          split_id: nextSplit.id,
+          date: todayStr,
+          status: 'planned',
+          exercises: exercises,
+          equipment_profile: equipmentProfile.id,
+          target_minutes: targetMinutes,
+          ai_reasoning: reasoning,
+        })
+        .select('*, split:workout_splits(*)')
+        .single()
 
     if (insertError) {
       console.error('Error creating planned workout:', insertError)
@@ -223,52 +469,150 @@ Return ONLY the JSON array, no other text.`
   }
 }
 
-// Fallback exercises when AI is unavailable
-function generateFallbackExercises(muscleGroups: string[]) {
+// Match exercises to the database and prescribe loads from their most recent session
+async function attachPrescriptions(
+  supabase: SupabaseClient,
+  userId: string,
+  exercises: PlannedExercise[],
+  model: ProgressionModel,
+  exerciseList: DBExercise[]
+): Promise<PlannedExercise[]> {
+  try {
+    const matched = exercises.map(exercise => ({
+      exercise,
+      match: findBestMatch(exercise.name, exerciseList, 70).exercise,
+    }))
+
+    const exerciseIds = matched
+      .map(m => m.match?.id)
+      .filter((id): id is string => Boolean(id))
+
+    if (exerciseIds.length === 0) return exercises
+
+    // Most recent session for each exercise
+    const latest = await Promise.all(exerciseIds.map(async (exerciseId) => {
+      const { data } = await supabase
+        .from('workout_sets')
+        .select('session_id, session:workout_sessions!inner(user_id, started_at)')
+        .eq('exercise_id', exerciseId)
+        .eq('session.user_id', userId)
+        .order('session(started_at)', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+
+      const session = Array.isArray(data?.session) ? data.session[0] : data?.session
+      return data && session
+        ? [exerciseId, { sessionId: data.session_id as string, startedAt: session.started_at as string, sets: [] as PreviousSet[] }] as const
+        : null
+    }))
+
+    const lastSessionByExercise = new Map(latest.filter(entry => entry !== null))
+
+    // Only those sessions' sets
+    const sessionIds = Array.from(new Set(Array.from(lastSessionByExercise.values()).map(last => last.sessionId)))
+    if (sessionIds.length > 0) {
+      const { data: previousSets } = await supabase
+        .from('workout_sets')
+        .select('exercise_id, session_id, set_number, reps, weight_kg, rpe')
+        .in('session_id', sessionIds)
+        .in('exercise_id', exerciseIds)
+        .order('set_number')
+
+      for (const set of previousSets || []) {
+        const last = lastSessionByExercise.get(set.exercise_id)
+        if (last && last.sessionId === set.session_id) last.sets.push(set)
+      }
+    }
+
+    return matched.map(({ exercise, match }) => {
+      if (!match) return exercise
+
+      const last = lastSessionByExercise.get(match.id)
+      return {
+        ...exercise,
+        exercise_id: match.id,
+        prescription: prescribe({
+          model,
+          reps: exercise.reps,
+          muscleGroup: match.muscle_group,
+          previousSets: last?.sets || [],
+          performedAt: last?.startedAt || null,
+        }),
+      }
+    })
+  } catch (error) {
+    // A missing prescription shouldn't block today's workout
+    console.error('Error prescribing loads:', error)
+    return exercises
+  }
+}
+
+// Fallback exercises when AI is unavailable (listed gym-first, with home/travel options after)
+function generateFallbackExercises(
+  muscleGroups: string[],
+  canDo: (exerciseName: string) => boolean,
+  perMuscle = 2,
+  limit = 7
+) {
   const exerciseMap: Record<string, Array<{ name: string; sets: number; reps: string; rest_seconds: number }>> = {
     chest: [
       { name: 'Barbell Bench Press', sets: 4, reps: '8-10', rest_seconds: 90 },
       { name: 'Incline Dumbbell Press', sets: 3, reps: '10-12', rest_seconds: 75 },
       { name: 'Cable Flyes', sets: 3, reps: '12-15', rest_seconds: 60 },
+      { name: 'Dumbbell Bench Press', sets: 4, reps: '8-12', rest_seconds: 90 },
+      { name: 'Push-ups', sets: 3, reps: '12-20', rest_seconds: 60 },
     ],
     back: [
       { name: 'Pull-ups', sets: 4, reps: '8-10', rest_seconds: 90 },
       { name: 'Barbell Rows', sets: 4, reps: '8-10', rest_seconds: 90 },
       { name: 'Lat Pulldown', sets: 3, reps: '10-12', rest_seconds: 75 },
+      { name: 'Dumbbell Rows', sets: 4, reps: '10-12', rest_seconds: 75 },
+      { name: 'Band Pull-Aparts', sets: 3, reps: '15-20', rest_seconds: 45 },
     ],
     shoulders: [
       { name: 'Overhead Press', sets: 4, reps: '8-10', rest_seconds: 90 },
       { name: 'Lateral Raises', sets: 3, reps: '12-15', rest_seconds: 60 },
       { name: 'Face Pulls', sets: 3, reps: '15-20', rest_seconds: 60 },
+      { name: 'Dumbbell Shoulder Press', sets: 4, reps: '8-12', rest_seconds: 90 },
+      { name: 'Pike Push-ups', sets: 3, reps: '8-12', rest_seconds: 60 },
     ],
     biceps: [
       { name: 'Barbell Curls', sets: 3, reps: '10-12', rest_seconds: 60 },
       { name: 'Hammer Curls', sets: 3, reps: '10-12', rest_seconds: 60 },
+      { name: 'Band Curls', sets: 3, reps: '12-15', rest_seconds: 45 },
     ],
     triceps: [
       { name: 'Tricep Pushdowns', sets: 3, reps: '10-12', rest_seconds: 60 },
       { name: 'Overhead Tricep Extension', sets: 3, reps: '10-12', rest_seconds: 60 },
+      { name: 'Bench Dips', sets: 3, reps: '10-15', rest_seconds: 60 },
     ],
     quads: [
       { name: 'Barbell Squats', sets: 4, reps: '8-10', rest_seconds: 120 },
       { name: 'Leg Press', sets: 3, reps: '10-12', rest_seconds: 90 },
       { name: 'Leg Extensions', sets: 3, reps: '12-15', rest_seconds: 60 },
+      { name: 'Goblet Squats', sets: 4, reps: '10-12', rest_seconds: 75 },
+      { name: 'Bodyweight Lunges', sets: 3, reps: '12-15', rest_seconds: 60 },
     ],
     hamstrings: [
       { name: 'Romanian Deadlifts', sets: 4, reps: '8-10', rest_seconds: 90 },
       { name: 'Leg Curls', sets: 3, reps: '10-12', rest_seconds: 60 },
+      { name: 'Dumbbell Romanian Deadlifts', sets: 4, reps: '10-12', rest_seconds: 75 },
+      { name: 'Single-Leg Glute Bridges', sets: 3, reps: '12-15', rest_seconds: 45 },
     ],
     glutes: [
       { name: 'Hip Thrusts', sets: 4, reps: '10-12', rest_seconds: 90 },
       { name: 'Bulgarian Split Squats', sets: 3, reps: '10-12', rest_seconds: 75 },
+      { name: 'Glute Bridges', sets: 3, reps: '15-20', rest_seconds: 45 },
     ],
     calves: [
       { name: 'Standing Calf Raises', sets: 4, reps: '12-15', rest_seconds: 60 },
       { name: 'Seated Calf Raises', sets: 3, reps: '15-20', rest_seconds: 45 },
+      { name: 'Single-Leg Bodyweight Calf Raises', sets: 3, reps: '15-20', rest_seconds: 45 },
     ],
     abs: [
       { name: 'Cable Crunches', sets: 3, reps: '15-20', rest_seconds: 45 },
       { name: 'Hanging Leg Raises', sets: 3, reps: '12-15', rest_seconds: 60 },
+      { name: 'Plank', sets: 3, reps: '45s', rest_seconds: 45 },
     ],
   }
 
@@ -276,13 +620,14 @@ function generateFallbackExercises(muscleGroups: string[]) {
   
   for (const muscle of muscleGroups) {
     const muscleExercises = exerciseMap[muscle.toLowerCase()]
+      ?.filter(exercise => canDo(exercise.name))
     if (muscleExercises) {
       // Add 1-2 exercises per muscle group
-      exercises.push(...muscleExercises.slice(0, 2))
+      exercises.push(...muscleExercises.slice(0, perMuscle))
     }
   }
 
-  return exercises.slice(0, 7) // Limit to 7 exercises max
+  return exercises.slice(0, limit) // Limit to 7 exercises max by default
 }
 
 // GET endpoint to fetch today's workout without regenerating
@@ -295,9 +640,7 @@ export async function GET() {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const todayStr = today.toISOString().split('T')[0]
+    const todayStr = getTodayKey(await getRequestTimeZone())
 
     // Check for existing workout today
     const { data: todayWorkout } = await supabase
@@ -314,10 +657,17 @@ export async function GET() {
       .eq('user_id', user.id)
       .order('order_in_rotation', { ascending: true })
 
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('equipment_profiles')
+      .eq('id', user.id)
+      .maybeSingle()
+
     return NextResponse.json({
       todayWorkout,
       hasSplits: splits && splits.length > 0,
       splits,
+      equipmentProfiles: getEquipmentProfiles(profile?.equipment_profiles),
     })
 
   } catch (error) {
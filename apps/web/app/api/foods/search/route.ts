@@ -0,0 +1,47 @@
+/**
+ * Food Search API
+ *
+ * GET: Typo-tolerant search of the food database, best matches first.
+ * Nutrients are per 100 g (see lib/foods).
+ *
+ * Query: ?q=chicken breast&limit=20 (limit 1-50)
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { searchFoods } from '@/lib/foods'
+
+const DEFAULT_LIMIT = 20
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = (searchParams.get('q') || '').trim()
+    if (query.length < 2) {
+      return NextResponse.json({ foods: [] })
+    }
+
+    const requestedLimit = Number(searchParams.get('limit'))
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(50, Math.round(requestedLimit))
+      : DEFAULT_LIMIT
+
+    const foods = await searchFoods(supabase, query, limit)
+
+    return NextResponse.json({ foods })
+  } catch (error) {
+    console.error('Food search error:', error)
+    return NextResponse.json(
+      { error: 'Failed to search foods' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * Personal Records API
+ *
+ * POST: (Re)detect personal records for a workout session.
+ * Called after sets are saved (new workout, edits, live session).
+ *
+ * HOW IT WORKS:
+ * 1. Loads the session's sets and the earlier bests for the same exercises
+ *    (aggregated by the get_exercise_bests function, not the whole history)
+ * 2. Runs PR detection (heaviest weight, best e1RM, most reps at a weight, best volume)
+ * 3. Replaces the session's rows in personal_records, so re-saving is idempotent
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import {
+  detectPersonalRecords,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  type AnalyticsSet,
+  type ExerciseBests,
+  type OneRepMaxFormula,
+} from '@/lib/analytics'
+
+export async function POST(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { sessionId } = await request.json()
+    if (!sessionId) {
+      return NextResponse.json({ error: 'sessionId is required' }, { status: 400 })
+    }
+
+    // Fetch the session and its sets
+    const { data: session, error: sessionError } = await supabase
+      .from('workout_sessions')
+      .select('id, started_at, workout_sets (id, exercise_id, reps, weight_kg)')
+      .eq('id', sessionId)
+      .eq('user_id', user.id)
+      .single()
+
+    if (sessionError || !session) {
+      return NextResponse.json({ error: 'Workout not found' }, { status: 404 })
+    }
+
+    const sessionSets: AnalyticsSet[] = (session.workout_sets || []).map((set) => ({
+      ...set,
+      session_id: session.id,
+    }))
+
+    const exerciseIds = Array.from(new Set(sessionSets.map(s => s.exercise_id)))
+
+    // Best earlier performances for the same exercises
+    const history = new Map<string, ExerciseBests>()
+    if (exerciseIds.length > 0) {
+      const { data: bests, error: bestsError } = await supabase.rpc('get_exercise_bests', {
+        p_exercise_ids: exerciseIds,
+        p_before: session.started_at,
+      })
+
+      if (bestsError) {
+        console.error('Error fetching previous bests:', bestsError)
+        return NextResponse.json({ error: 'Failed to detect records' }, { status: 500 })
+      }
+
+      for (const row of bests || []) {
+        const entry = history.get(row.exercise_id) || { sets: [], best_volume: Number(row.best_volume) || 0 }
+        entry.sets.push({ reps: row.max_reps, weight_kg: Number(row.weight_kg) })
+        history.set(row.exercise_id, entry)
+      }
+    }
+
+    // User's preferred 1RM formula
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('one_rep_max_formula')
+      .eq('id', user.id)
+      .maybeSingle()
+
+    const formula: OneRepMaxFormula = profile?.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA
+    const detected = detectPersonalRecords(sessionSets, history, formula)
+
+    // Replace any records previously detected for this session
+    const { error: deleteError } = await supabase
+      .from('personal_records')
+      .delete()
+      .eq('session_id', session.id)
+
+    if (deleteError) {
+      console.error('Error clearing records:', deleteError)
+      return NextResponse.json({ error: 'Failed to update records' }, { status: 500 })
+    }
+
+    if (detected.length > 0) {
+      const { error: insertError } = await supabase
+        .from('personal_records')
+        .insert(detected.map(record => ({
+          ...record,
+          user_id: user.id,
+          session_id: session.id,
+          achieved_at: session.started_at,
+        })))
+
+      if (insertError) {
+        console.error('Error saving records:', insertError)
+        return NextResponse.json({ error: 'Failed to save records' }, { status: 500 })
+      }
+    }
+
+    return NextResponse.json({ records: detected })
+
+  } catch (error) {
+    console.error('Personal records error:', error)
+    return NextResponse.json(
+      { error: 'Failed to detect records' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Weekly Report Markdown Export
+ *
+ * GET: Download one of the user's stored reports as a .md file
+ * (PDF export is the print view at /dashboard/reports/[id])
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { formatWeeklyReportMarkdown } from '@/lib/weeklyReport'
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: report, error } = await supabase
+      .from('weekly_reports')
+      .select('week_start, data, commentary')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (error || !report) {
+      return NextResponse.json({ error: 'Report not found' }, { status: 404 })
+    }
+
+    return new Response(formatWeeklyReportMarkdown(report), {
+      headers: {
+        'Content-Type': 'text/markdown; charset=utf-8',
+        'Content-Disposition': `attachment; filename="filo-weekly-review-${report.week_start}.md"`,
+      },
+    })
+
+  } catch (error) {
+    console.error('Weekly report export error:', error)
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    )
+  }
+}
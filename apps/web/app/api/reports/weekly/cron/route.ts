@@ -0,0 +1,210 @@
+/**
+ * Weekly Report Cron Route
+ *
+ * GET: Generate last week's report for the next batch of onboarded users
+ * Scheduled every 10 minutes from 06:00 on Mondays in vercel.json. Vercel sends
+ * Authorization: Bearer $CRON_SECRET, anything else gets a 401.
+ *
+ * HOW IT WORKS:
+ * 1. Pages through users with the admin client (see lib/supabase/admin)
+ * 2. Skips users who already have a report for the week, so re-runs are safe
+ * 3. Builds, comments on and stores up to REPORTS_PER_RUN reports - one failure
+ *    doesn't stop the rest, and whoever is left waits for the next run
+ * 4. Waits for users whose week isn't over yet in their timezone
+ *    (profiles.timezone) - a later run that Monday picks them up
+ * 5. Records failures in weekly_report_failures. Users who haven't been tried
+ *    go first and failed ones are retried after them, up to MAX_ATTEMPTS, so a
+ *    report that keeps failing can't hold up the rest of the queue
+ */
+
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getAIProvider } from '@/lib/ai'
+import { trackAIUsage } from '@/lib/ai/usage'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { addDays, getTodayKey, isValidTimeZone } from '@/lib/schedule'
+import { createWeeklyReport, getPreviousWeekStartKey, hasWeeklyReport } from '@/lib/weeklyReport'
+
+// One report per user, one after the other
+export const maxDuration = 300
+
+// Each report is a model call - keep a run well inside maxDuration
+const REPORTS_PER_RUN = 25
+const TIME_BUDGET_MS = 240 * 1000
+
+// PostgREST caps each response at 1000 rows
+const PAGE_SIZE = 1000
+
+// Tries per user and week before giving up on their report
+const MAX_ATTEMPTS = 3
+
+/**
+ * Every row of a table for the week, a page at a time
+ */
+async function fetchWeekRows<T>(
+  admin: SupabaseClient,
+  table: 'weekly_reports' | 'weekly_report_failures',
+  columns: string,
+  weekStartKey: string
+): Promise<T[]> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from(table)
+      .select(columns)
+      .eq('week_start', weekStartKey)
+      .order('user_id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...((data || []) as T[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+  return rows
+}
+
+/**
+ * Onboarded users without a report for the week whose week has ended, up to
+ * `limit`: users not tried yet in id order, then earlier failures with
+ * attempts left
+ */
+async function findPendingUsers(
+  admin: SupabaseClient,
+  weekStartKey: string,
+  limit: number
+): Promise<{ userIds: string[]; attempts: Map<string, number>; skipped: number; waiting: number; abandoned: number }> {
+  const reported = new Set(
+    (await fetchWeekRows<{ user_id: string }>(admin, 'weekly_reports', 'user_id', weekStartKey)).map(row => row.user_id)
+  )
+  const attempts = new Map(
+    (await fetchWeekRows<{ user_id: string; attempts: number }>(admin, 'weekly_report_failures', 'user_id, attempts', weekStartKey))
+      .map(row => [row.user_id, row.attempts])
+  )
+
+  const abandoned = Array.from(attempts).filter(([id, tries]) => tries >= MAX_ATTEMPTS && !reported.has(id)).length
+
+  const weekEndKey = addDays(weekStartKey, 7)
+  const fresh: string[] = []
+  const retries: string[] = []
+  let waiting = 0
+  for (let from = 0; fresh.length < limit; from += PAGE_SIZE) {
+    const { data, error } = await admin
+      .from('profiles')
+      .select('id, timezone')
+      .eq('onboarding_completed', true)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    for (const { id, timezone } of data || []) {
+      if (reported.has(id)) continue
+      if (getTodayKey(timezone && isValidTimeZone(timezone) ? timezone : null) < weekEndKey) {
+        waiting++
+        continue
+      }
+
+      const tries = attempts.get(id) || 0
+      if (tries >= MAX_ATTEMPTS) continue
+      if (tries > 0) retries.push(id)
+      else if (fresh.length < limit) fresh.push(id)
+    }
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  return { userIds: [...fresh, ...retries].slice(0, limit), attempts, skipped: reported.size, waiting, abandoned }
+}
+
+/**
+ * Count a failed attempt so the user moves to the back of the queue
+ */
+async function recordFailure(
+  admin: SupabaseClient,
+  userId: string,
+  weekStartKey: string,
+  attempts: number,
+  error: unknown
+): Promise<void> {
+  const { error: saveError } = await admin
+    .from('weekly_report_failures')
+    .upsert({
+      user_id: userId,
+      week_start: weekStartKey,
+      attempts,
+      error: error instanceof Error ? error.message : String(error),
+      last_attempt_at: new Date().toISOString(),
+    }, { onConflict: 'user_id,week_start' })
+
+  if (saveError) console.error(`Error recording weekly report failure for ${userId}:`, saveError)
+}
+
+export async function GET(request: Request) {
+  try {
+    const secret = process.env.CRON_SECRET
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const admin = createAdminClient()
+    if (!admin) {
+      return NextResponse.json(
+        { error: 'SUPABASE_SERVICE_ROLE_KEY not configured' },
+        { status: 500 }
+      )
+    }
+
+    const started = Date.now()
+    // The cron only runs on Mondays (UTC), so this is last week for everyone -
+    // users where it's still Sunday wait in findPendingUsers
+    const weekStartKey = getPreviousWeekStartKey()
+    const provider = getAIProvider()
+
+    // One extra to tell whether anyone is left for the next run
+    const { userIds, attempts, skipped, waiting, abandoned } = await findPendingUsers(admin, weekStartKey, REPORTS_PER_RUN + 1)
+    const batch = userIds.slice(0, REPORTS_PER_RUN)
+    const result = {
+      week_start: weekStartKey,
+      generated: 0,
+      skipped,
+      failed: 0,
+      waiting,
+      abandoned,
+      remaining: userIds.length - batch.length,
+    }
+
+    for (const [index, userId] of batch.entries()) {
+      if (Date.now() - started > TIME_BUDGET_MS) {
+        result.remaining += batch.length - index
+        break
+      }
+
+      try {
+        // A concurrent or manual run may have got here first
+        if (await hasWeeklyReport(admin, userId, weekStartKey)) {
+          result.skipped++
+          continue
+        }
+
+        const ai = provider && trackAIUsage(provider, userId, 'weekly_report')
+        await createWeeklyReport(admin, userId, weekStartKey, ai)
+        result.generated++
+
+        if (attempts.has(userId)) {
+          await admin.from('weekly_report_failures').delete().eq('user_id', userId).eq('week_start', weekStartKey)
+        }
+      } catch (error) {
+        console.error(`Weekly report error for ${userId}:`, error)
+        result.failed++
+        await recordFailure(admin, userId, weekStartKey, (attempts.get(userId) || 0) + 1, error)
+      }
+    }
+
+    return NextResponse.json(result)
+
+  } catch (error) {
+    console.error('Weekly report cron error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate weekly reports' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Weekly Report API Route
+ *
+ * POST: Generate (or regenerate) the current user's report for last week
+ * Reports are normally created by the Monday cron - this covers new users
+ * and anyone who wants the commentary refreshed after logging late.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import { getAIProvider, type AIProvider } from '@/lib/ai'
+import { checkAIQuota, quotaExceededResponse, trackAIUsage } from '@/lib/ai/usage'
+import { getRequestTimeZone } from '@/lib/timezone'
+import { createWeeklyReport, getPreviousWeekStartKey } from '@/lib/weeklyReport'
+
+export async function POST() {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    // Without a provider the report is stored without commentary
+    const provider = getAIProvider()
+    let ai: AIProvider | null = null
+    if (provider) {
+      const quota = await checkAIQuota(supabase, user.id, 'weekly_report')
+      if (!quota.allowed) return quotaExceededResponse(quota)
+      ai = trackAIUsage(provider, user.id, 'weekly_report')
+    }
+
+    const report = await createWeeklyReport(supabase, user.id, getPreviousWeekStartKey(await getRequestTimeZone()), ai)
+
+    return NextResponse.json({ report })
+
+  } catch (error) {
+    console.error('Weekly report error:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate weekly report' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Training Schedule API
+ *
+ * GET: Calendar days from last week through N weeks ahead (?weeks=1-4).
+ *      Future dates without a plan are materialized into planned_workouts
+ *      by continuing the split rotation. Exercises are left empty and
+ *      generated when the day comes (POST /api/ai/workout).
+ *
+ * PATCH: Change a future day
+ * - { id, date }      move a planned day (swaps with whatever is on that date)
+ * - { id, status }    mark as planned rest ('rest') or back to training ('planned')
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { NextResponse } from 'next/server'
+import {
+  addDays,
+  getDateRange,
+  getDayStatus,
+  getTodayKey,
+  getWeekStartKey,
+  projectRotation,
+  MAX_WEEKS_AHEAD,
+  MIN_WEEKS_AHEAD,
+  type ProjectedDay,
+  type SchedulePlan,
+  type ScheduleSplit,
+} from '@/lib/schedule'
+import { movePlannedWorkout } from '@/lib/plannedWorkouts'
+import { getRequestTimeZone } from '@/lib/timezone'
+
+const PLAN_SELECT = 'id, date, split_id, status, exercises, ai_reasoning, split:workout_splits(id, name, color, muscle_groups, is_rest_day), sessions:workout_sessions(id)'
+
+function describeProjectedDay(day: ProjectedDay): string {
+  if (!day.split_id) return 'Nothing is pinned to this weekday - rest day. 😴'
+  if (day.status === 'rest') return 'Scheduled rest day - recovery is part of progress! 😴'
+  if (day.pinned) return 'Pinned to this weekday in your split.'
+  return 'Projected from your split rotation.'
+}
+
+export async function GET(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const requestedWeeks = Number(searchParams.get('weeks')) || 2
+    const weeks = Math.min(MAX_WEEKS_AHEAD, Math.max(MIN_WEEKS_AHEAD, Math.round(requestedWeeks)))
+
+    const todayKey = getTodayKey(await getRequestTimeZone())
+    const startKey = addDays(getWeekStartKey(todayKey), -7)
+    const endKey = addDays(getWeekStartKey(todayKey), 7 * (weeks + 1) - 1)
+
+    // Get user's workout splits
+    const { data: splits, error: splitsError } = await supabase
+      .from('workout_splits')
+      .select('id, name, order_in_rotation, is_rest_day, color, muscle_groups, pinned_days')
+      .eq('user_id', user.id)
+      .order('order_in_rotation', { ascending: true })
+
+    if (splitsError) {
+      console.error('Error fetching splits:', splitsError)
+      return NextResponse.json({ error: 'Failed to fetch workout splits' }, { status: 500 })
+    }
+
+    if (!splits || splits.length === 0) {
+      return NextResponse.json({ days: [], today: todayKey, hasSplits: false })
+    }
+
+    // Existing plans in range, plus the last few before it to continue the rotation from
+    const { data: plans, error: plansError } = await supabase
+      .from('planned_workouts')
+      .select(PLAN_SELECT)
+      .eq('user_id', user.id)
+      .gte('date', startKey)
+      .lte('date', endKey)
+      .order('date', { ascending: true })
+
+    if (plansError) {
+      console.error('Error fetching planned workouts:', plansError)
+      return NextResponse.json({ error: 'Failed to fetch schedule' }, { status: 500 })
+    }
+
+    const { data: previousPlans } = await supabase
+      .from('planned_workouts')
+      .select('id, date, split_id, status')
+      .eq('user_id', user.id)
+      .lt('date', startKey)
+      .order('date', { ascending: false })
+      .limit(7)
+
+    // Materialize future days that don't have a plan yet
+    const futureDates = getDateRange(todayKey > startKey ? todayKey : startKey, endKey)
+    const projected = projectRotation(
+      splits as ScheduleSplit[],
+      [...(previousPlans || []), ...(plans || [])] as SchedulePlan[],
+      futureDates
+    )
+
+    let allPlans = plans || []
+
+    if (projected.length > 0) {
+      const { data: inserted, error: insertError } = await supabase
+        .from('planned_workouts')
+        .insert(projected.map(day => ({
+          user_id: user.id,
+          split_id: day.split_id,
+          date: day.date,
+          status: day.status,
+          exercises: [],
+          ai_reasoning: describeProjectedDay(day),
+        })))
+        .select(PLAN_SELECT)
+
+      if (insertError) {
+        console.error('Error materializing schedule:', insertError)
+        return NextResponse.json({ error: 'Failed to build schedule' }, { status: 500 })
+      }
+
+      allPlans = [...allPlans, ...(inserted || [])]
+    }
+
+    const plansByDate = new Map(allPlans.map(plan => [plan.date, plan]))
+
+    const days = getDateRange(startKey, endKey).map(date => {
+      const plan = plansByDate.get(date) || null
+      return {
+        date,
+        plan,
+        status: getDayStatus(plan as SchedulePlan | null, date, todayKey),
+      }
+    })
+
+    return NextResponse.json({ days, today: todayKey, hasSplits: true })
+
+  } catch (error) {
+    console.error('Schedule error:', error)
+    return NextResponse.json(
+      { error: 'Failed to load schedule' },
+      { status: 500 }
+    )
+  }
+}
+
+export async function PATCH(request: Request) {
+  try {
+    const supabase = await createClient()
+
+    // Get current user
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+    if (authError || !user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id, date, status } = await request.json()
+    if (!id || (!date && !status)) {
+      return NextResponse.json({ error: 'id and a date or status are required' }, { status: 400 })
+    }
+
+    const todayKey = getTodayKey(await getRequestTimeZone())
+
+    const { data: plan, error: planError } = await supabase
+      .from('planned_workouts')
+      .select('*')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (planError || !plan) {
+      return NextResponse.json({ error: 'Planned workout not found' }, { status: 404 })
+    }
+
+    // Only upcoming, not-yet-done days can be changed
+    if (plan.date < todayKey || plan.status === 'completed') {
+      return NextResponse.json({ error: 'Past or completed days can\'t be changed' }, { status: 400 })
+    }
+
+    // Mark as rest / back to training
+    if (status) {
+      if (status !== 'rest' && status !== 'planned') {
+        return NextResponse.json({ error: 'Invalid status' }, { status: 400 })
+      }
+
+      const { error: updateError } = await supabase
+        .from('planned_workouts')
+        .update({
+          status,
+          exercises: [],
+          ai_reasoning: status === 'rest' ? 'Planned rest day.' : 'Projected from your split rotation.',
+        })
+        .eq('id', plan.id)
+
+      if (updateError) {
+        console.error('Error updating day:', updateError)
+        return NextResponse.json({ error: 'Failed to update day' }, { status: 500 })
+      }
+
+      return NextResponse.json({ success: true })
+    }
+
+    // Move to another date
+    const moved = await movePlannedWorkout(supabase, user.id, plan, date, todayKey)
+    if (moved.error !== null) {
+      return NextResponse.json({ error: moved.error }, { status: moved.status })
+    }
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('Schedule update error:', error)
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    )
+  }
+}
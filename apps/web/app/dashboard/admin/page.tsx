@@ -0,0 +1,205 @@
+/**
+ * AI Usage Page (admin only)
+ *
+ * Consumption across all users from the ai_usage table: requests, tokens,
+ * latency and errors, broken down by route, model and heaviest users.
+ * Lets us spot cost spikes before the provider bill does.
+ *
+ * Only emails in ADMIN_EMAILS can see it - everyone else gets a 404.
+ * Reading other users' rows needs SUPABASE_SERVICE_ROLE_KEY.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient, isAdminEmail } from '@/lib/supabase/admin'
+import { AI_QUOTAS, getAIUsageSummary, type AIUsageRoute, type AIUsageTotals } from '@/lib/ai/usage'
+
+const RANGES = [1, 7, 30]
+
+type Props = {
+  searchParams: Promise<{ days?: string }>
+}
+
+function getSince(days: number): string {
+  const since = new Date()
+  since.setDate(since.getDate() - days)
+  return since.toISOString()
+}
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+function UsageTable({ title, rows }: { title: string; rows: Array<AIUsageTotals & { label: string; hint?: string }> }) {
+  return (
+    <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+      <h2 className="text-lg font-semibold text-white mb-4">{title}</h2>
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-slate-500">No usage in this period.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-slate-500">
+                <th className="pb-2 font-medium"></th>
+                <th className="pb-2 font-medium text-right">Requests</th>
+                <th className="pb-2 font-medium text-right">Calls</th>
+                <th className="pb-2 font-medium text-right">Tokens in</th>
+                <th className="pb-2 font-medium text-right">Tokens out</th>
+                <th className="pb-2 font-medium text-right">Avg latency</th>
+                <th className="pb-2 font-medium text-right">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800/50">
+              {rows.map(row => (
+                <tr key={row.label} className="text-slate-300">
+                  <td className="py-2 pr-4">
+                    <p className="text-white">{row.label}</p>
+                    {row.hint && <p className="text-xs text-slate-500">{row.hint}</p>}
+                  </td>
+                  <td className="py-2 text-right">{formatNumber(row.requests)}</td>
+                  <td className="py-2 text-right">{formatNumber(row.calls)}</td>
+                  <td className="py-2 text-right">{formatNumber(row.input_tokens)}</td>
+                  <td className="py-2 text-right">{formatNumber(row.output_tokens)}</td>
+                  <td className="py-2 text-right">{formatNumber(row.avg_latency_ms)}ms</td>
+                  <td className={`py-2 text-right ${row.error_rate > 0.1 ? 'text-red-400' : ''}`}>
+                    {Math.round(row.error_rate * 100)}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default async function AdminUsagePage({ searchParams }: Props) {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // Don't reveal the page exists
+  if (!isAdminEmail(user?.email)) notFound()
+
+  const { days: requestedDays } = await searchParams
+  const days = RANGES.includes(Number(requestedDays)) ? Number(requestedDays) : 7
+
+  const admin = createAdminClient()
+
+  if (!admin) {
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-white">AI Usage</h1>
+        <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20 text-amber-300">
+          Set SUPABASE_SERVICE_ROLE_KEY to read usage across all users.
+        </div>
+      </div>
+    )
+  }
+
+  const since = getSince(days)
+
+  let summary
+  try {
+    summary = await getAIUsageSummary(admin, since)
+  } catch (error) {
+    console.error('Error loading AI usage:', error)
+    return (
+      <div className="space-y-6">
+        <h1 className="text-3xl font-bold text-white">AI Usage</h1>
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400">
+          Failed to load AI usage
+        </div>
+      </div>
+    )
+  }
+
+  // Names for the heaviest users
+  const { data: profiles } = summary.byUser.length > 0
+    ? await admin
+        .from('profiles')
+        .select('id, display_name')
+        .in('id', summary.byUser.map(row => row.user_id))
+    : { data: [] }
+
+  const names = new Map((profiles || []).map(profile => [profile.id, profile.display_name]))
+  const { totals } = summary
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">AI Usage</h1>
+          <p className="mt-2 text-slate-400">
+            Model calls across all users in the last {days === 1 ? 'day' : `${days} days`}.
+          </p>
+        </div>
+        <div className="flex gap-1 rounded-xl bg-slate-800/50 p-1">
+          {RANGES.map(range => (
+            <Link
+              key={range}
+              href={`/dashboard/admin?days=${range}`}
+              className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                range === days ? 'bg-emerald-500/10 text-emerald-400' : 'text-slate-400 hover:text-white'
+              }`}
+            >
+              {range === 1 ? '24h' : `${range}d`}
+            </Link>
+          ))}
+        </div>
+      </div>
+
+      {/* Totals */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        <div className="text-center p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-white">{formatNumber(totals.requests)}</p>
+          <p className="text-sm text-slate-400">Requests</p>
+        </div>
+        <div className="text-center p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-emerald-400">{formatNumber(totals.input_tokens + totals.output_tokens)}</p>
+          <p className="text-sm text-slate-400">Tokens</p>
+        </div>
+        <div className="text-center p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-cyan-400">{formatNumber(totals.avg_latency_ms)}ms</p>
+          <p className="text-sm text-slate-400">Avg latency</p>
+        </div>
+        <div className="text-center p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className={`text-2xl font-bold ${totals.error_rate > 0.1 ? 'text-red-400' : 'text-amber-400'}`}>
+            {Math.round(totals.error_rate * 100)}%
+          </p>
+          <p className="text-sm text-slate-400">Errors</p>
+        </div>
+      </div>
+
+      <UsageTable
+        title="By route"
+        rows={summary.byRoute.map(row => {
+          const quota = AI_QUOTAS[row.route as AIUsageRoute]
+          return {
+            ...row,
+            label: row.route,
+            hint: quota ? `Quota: ${quota.perMinute}/min, ${quota.perDay}/day per user` : undefined,
+          }
+        })}
+      />
+
+      <UsageTable
+        title="By model"
+        rows={summary.byModel.map(row => ({ ...row, label: row.model }))}
+      />
+
+      <UsageTable
+        title="Top users"
+        rows={summary.byUser.map(row => ({
+          ...row,
+          label: names.get(row.user_id) || 'Unknown user',
+          hint: row.user_id,
+        }))}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,348 @@
+'use client'
+
+/**
+ * Training Calendar Component
+ *
+ * Week rows of days from last week through 1-4 weeks ahead.
+ * - Past days are colored by status (completed/skipped/rest/missed)
+ * - Upcoming workouts can be dragged onto another upcoming day
+ * - Upcoming days can be switched between training and planned rest
+ */
+
+import { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import {
+  DndContext,
+  PointerSensor,
+  useDraggable,
+  useDroppable,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core'
+import { MIN_WEEKS_AHEAD, MAX_WEEKS_AHEAD, type DayStatus, type PlanStatus } from '@/lib/schedule'
+
+interface CalendarPlan {
+  id: string
+  date: string
+  split_id: string | null
+  status: PlanStatus
+  exercises: unknown[]
+  ai_reasoning: string | null
+  split: {
+    id: string
+    name: string
+    color: string | null
+    muscle_groups: string[]
+    is_rest_day: boolean
+  } | null
+  sessions: Array<{ id: string }>
+}
+
+interface CalendarDay {
+  date: string
+  plan: CalendarPlan | null
+  status: DayStatus
+}
+
+const STATUS_STYLES: Record<DayStatus, { card: string; badge: string; label: string }> = {
+  completed: { card: 'bg-emerald-500/10 border-emerald-500/30', badge: 'text-emerald-400', label: 'Done' },
+  skipped: { card: 'bg-amber-500/10 border-amber-500/30', badge: 'text-amber-400', label: 'Skipped' },
+  missed: { card: 'bg-rose-500/10 border-rose-500/30', badge: 'text-rose-400', label: 'Missed' },
+  rest: { card: 'bg-slate-800/30 border-slate-700/50', badge: 'text-slate-400', label: 'Rest' },
+  planned: { card: 'bg-slate-900/50 border-slate-800/50', badge: 'text-cyan-400', label: 'Planned' },
+  unplanned: { card: 'bg-slate-950/30 border-slate-800/30', badge: 'text-slate-600', label: '' },
+}
+
+const SPLIT_COLORS: Record<string, string> = {
+  emerald: 'bg-emerald-400',
+  cyan: 'bg-cyan-400',
+  violet: 'bg-violet-400',
+  amber: 'bg-amber-400',
+  rose: 'bg-rose-400',
+  blue: 'bg-blue-400',
+}
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+function formatDay(dateKey: string) {
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+// A workout that can be picked up and dropped on another day
+function DraggablePlan({ plan, children }: { plan: CalendarPlan; children: React.ReactNode }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: plan.id })
+
+  const style = transform
+    ? { transform: `translate3d(${transform.x}px, ${transform.y}px, 0)` }
+    : undefined
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={style}
+      {...listeners}
+      {...attributes}
+      className={`cursor-grab active:cursor-grabbing ${isDragging ? 'relative z-10 opacity-80' : ''}`}
+    >
+      {children}
+    </div>
+  )
+}
+
+function DayCell({
+  day,
+  isToday,
+  isUpcoming,
+  updating,
+  onSetStatus,
+}: {
+  day: CalendarDay
+  isToday: boolean
+  isUpcoming: boolean
+  updating: boolean
+  onSetStatus: (planId: string, status: 'rest' | 'planned') => void
+}) {
+  const { setNodeRef, isOver } = useDroppable({ id: day.date, disabled: !isUpcoming })
+  const style = STATUS_STYLES[day.status]
+  const plan = day.plan
+  // Days with no split (nothing pinned that weekday) are rest and can't be trained
+  const isRestSplit = !plan?.split || plan.split.is_rest_day
+  const canMove = isUpcoming && plan && day.status !== 'completed' && !isRestSplit && day.status !== 'rest'
+  const canToggleRest = isUpcoming && plan && !isRestSplit && day.status !== 'completed'
+
+  const content = (
+    <div className="space-y-1">
+      {plan?.split && (
+        <div className="flex items-center gap-1.5 min-w-0">
+          <span className={`h-2 w-2 shrink-0 rounded-full ${SPLIT_COLORS[plan.split.color || 'emerald'] || 'bg-emerald-400'}`} />
+          <p className={`text-sm font-medium truncate ${day.status === 'rest' ? 'text-slate-500 line-through' : 'text-white'}`}>
+            {isRestSplit ? 'Rest' : plan.split.name}
+          </p>
+        </div>
+      )}
+      {style.label && (
+        <p className={`text-xs ${style.badge}`}>{style.label}</p>
+      )}
+    </div>
+  )
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={`min-h-24 p-2 rounded-xl border transition-colors flex flex-col justify-between gap-2 ${style.card} ${
+        isOver ? 'ring-2 ring-emerald-500/50' : ''
+      } ${isToday ? 'ring-1 ring-cyan-400/60' : ''}`}
+    >
+      <div className="space-y-1.5">
+        <p className={`text-xs ${isToday ? 'text-cyan-400 font-semibold' : 'text-slate-500'}`}>
+          {isToday ? 'Today' : formatDay(day.date)}
+        </p>
+        {plan && canMove ? (
+          <DraggablePlan plan={plan}>{content}</DraggablePlan>
+        ) : (
+          content
+        )}
+      </div>
+
+      {plan && canToggleRest && (
+        <button
+          onClick={() => onSetStatus(plan.id, day.status === 'rest' ? 'planned' : 'rest')}
+          disabled={updating}
+          className="self-start text-xs text-slate-500 hover:text-white transition-colors disabled:opacity-50"
+        >
+          {day.status === 'rest' ? 'Train instead' : 'Make rest'}
+        </button>
+      )}
+
+      {plan && plan.sessions?.[0] && (
+        <Link href={`/dashboard/workouts/${plan.sessions[0].id}`} className="self-start text-xs text-emerald-400 hover:text-emerald-300">
+          View →
+        </Link>
+      )}
+    </div>
+  )
+}
+
+export function TrainingCalendar() {
+  const [weeks, setWeeks] = useState(2)
+  const [days, setDays] = useState<CalendarDay[]>([])
+  const [today, setToday] = useState('')
+  const [hasSplits, setHasSplits] = useState(true)
+  const [loading, setLoading] = useState(true)
+  const [updating, setUpdating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Small movement threshold so the rest toggle still gets clicks
+  const sensors = useSensors(
+    useSensor(PointerSensor, {
+      activationConstraint: {
+        distance: 8,
+      },
+    })
+  )
+
+  const fetchSchedule = useCallback(async (weeksAhead: number) => {
+    try {
+      const response = await fetch(`/api/schedule?weeks=${weeksAhead}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load schedule')
+      }
+
+      setDays(data.days)
+      setToday(data.today)
+      setHasSplits(data.hasSplits)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load schedule')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchSchedule(weeks)
+  }, [fetchSchedule, weeks])
+
+  const updateDay = async (body: { id: string; date?: string; status?: 'rest' | 'planned' }) => {
+    setUpdating(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/schedule', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update schedule')
+      }
+
+      await fetchSchedule(weeks)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update schedule')
+    } finally {
+      setUpdating(false)
+    }
+  }
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event
+    if (!over) return
+
+    const plan = days.find(d => d.plan?.id === active.id)?.plan
+    if (!plan || plan.date === over.id) return
+
+    updateDay({ id: plan.id, date: String(over.id) })
+  }
+
+  if (loading) {
+    return (
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+        <div className="animate-pulse grid grid-cols-7 gap-2">
+          {Array.from({ length: 14 }).map((_, i) => (
+            <div key={i} className="h-24 bg-slate-800 rounded-xl" />
+          ))}
+        </div>
+      </div>
+    )
+  }
+
+  if (!hasSplits) {
+    return (
+      <div className="rounded-2xl bg-gradient-to-r from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20 p-6">
+        <h3 className="text-lg font-semibold text-white">Set Up Your Workout Split</h3>
+        <p className="text-slate-400 mt-1">
+          Your calendar is built from your training rotation.
+        </p>
+        <Link
+          href="/dashboard/workouts/setup"
+          className="inline-flex items-center gap-2 mt-4 px-4 py-2 bg-emerald-500 text-slate-950 font-medium rounded-xl hover:bg-emerald-400 transition-colors"
+        >
+          Setup Your Split
+        </Link>
+      </div>
+    )
+  }
+
+  // Split into week rows (API always starts on a Monday)
+  const weekRows: CalendarDay[][] = []
+  for (let i = 0; i < days.length; i += 7) {
+    weekRows.push(days.slice(i, i + 7))
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Weeks Ahead */}
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-400">Weeks ahead:</span>
+        {Array.from({ length: MAX_WEEKS_AHEAD - MIN_WEEKS_AHEAD + 1 }, (_, i) => MIN_WEEKS_AHEAD + i).map((n) => (
+          <button
+            key={n}
+            onClick={() => setWeeks(n)}
+            className={`h-8 w-8 rounded-lg text-sm font-medium transition-colors ${
+              weeks === n
+                ? 'bg-emerald-500/20 text-emerald-400'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+            }`}
+          >
+            {n}
+          </button>
+        ))}
+        {updating && (
+          <div className="ml-2 animate-spin rounded-full h-4 w-4 border-2 border-emerald-400 border-t-transparent" />
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="overflow-x-auto">
+          <div className="min-w-[640px] space-y-2">
+            {/* Weekday Header */}
+            <div className="grid grid-cols-7 gap-2 px-1">
+              {WEEKDAYS.map(day => (
+                <p key={day} className="text-xs font-medium text-slate-400">{day}</p>
+              ))}
+            </div>
+
+            {weekRows.map((week) => (
+              <div key={week[0].date} className="grid grid-cols-7 gap-2">
+                {week.map((day) => (
+                  <DayCell
+                    key={day.date}
+                    day={day}
+                    isToday={day.date === today}
+                    isUpcoming={day.date >= today}
+                    updating={updating}
+                    onSetStatus={(planId, status) => updateDay({ id: planId, status })}
+                  />
+                ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      </DndContext>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-4 text-xs">
+        {(['completed', 'skipped', 'missed', 'rest', 'planned'] as DayStatus[]).map(status => (
+          <span key={status} className={STATUS_STYLES[status].badge}>
+            ● {STATUS_STYLES[status].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
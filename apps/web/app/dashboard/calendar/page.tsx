@@ -0,0 +1,34 @@
+/**
+ * Training Calendar Page
+ *
+ * Shows the split rotation projected over the coming weeks,
+ * with past days colored by what actually happened.
+ * The calendar itself is a client component (drag to reschedule).
+ */
+
+import Link from 'next/link'
+import { TrainingCalendar } from './TrainingCalendar'
+
+export default function CalendarPage() {
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Calendar</h1>
+          <p className="mt-2 text-slate-400">
+            Drag a workout to another day, or mark a day as rest.
+          </p>
+        </div>
+        <Link
+          href="/dashboard/workouts/setup"
+          className="px-4 py-2 rounded-xl bg-slate-800/50 text-sm font-medium text-white hover:bg-slate-800 transition-colors"
+        >
+          Edit Split
+        </Link>
+      </div>
+
+      <TrainingCalendar />
+    </div>
+  )
+}
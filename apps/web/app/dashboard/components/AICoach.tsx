@@ -3,83 +3,276 @@
 /**
  * AI Coach Component
  * 
- * Interactive AI coach that provides personalized insights
- * and daily plans based on the user's workout and nutrition data.
+ * Interactive AI coach that provides personalized insights,
+ * daily plans and a chat thread based on the user's workout and nutrition data.
+ * Chat history is stored server-side (see /api/ai/coach/chat).
+ * Changes the coach proposes in chat are shown as cards and only
+ * applied when the user confirms them.
  */
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import {
+  describeCoachAction,
+  splitCoachReply,
+  PLAN_UPDATED_EVENT,
+  type CoachProposal,
+} from '@/lib/coachTools'
+import { getTodayKey } from '@/lib/schedule'
+import { readEventStream } from '@/lib/ai/stream'
 
 type AICoachProps = {
   userName: string
 }
 
+type ChatMessage = {
+  id?: string
+  role: 'user' | 'assistant'
+  content: string
+  actions?: CoachProposal[]
+}
+
+// Insights and daily plans share a slot; chat has its own
+type RequestKind = 'generate' | 'chat'
+
+// Our per-user AI budget ran out - shown as a notice, not a failure
+class QuotaError extends Error {}
+
+// Error from a failed JSON response
+function responseError(data: { error?: string; code?: string }, fallback: string) {
+  return data.code === 'quota_exceeded' ? new QuotaError(data.error) : new Error(data.error || fallback)
+}
+
+function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError'
+}
+
+// **bold** and line breaks, as the coach formats its replies
+function formatCoachText(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/\*\*(.*?)\*\*/g, '<strong class="text-white">$1</strong>')
+    .replace(/\n/g, '<br/>')
+}
+
 export function AICoach({ userName }: AICoachProps) {
   const [insight, setInsight] = useState<string | null>(null)
   const [dailyPlan, setDailyPlan] = useState<string | null>(null)
   const [loading, setLoading] = useState(false)
-  const [error, setError] = useState<string | null>(null)
-  const [activeTab, setActiveTab] = useState<'insight' | 'plan'>('insight')
+  // Which tabs are showing an answer reused from the server cache
+  const [cached, setCached] = useState<Record<'insight' | 'daily_plan', boolean>>({ insight: false, daily_plan: false })
+  const [error, setError] = useState<{ message: string; quota: boolean } | null>(null)
+  const [activeTab, setActiveTab] = useState<'insight' | 'plan' | 'chat'>('insight')
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [historyLoaded, setHistoryLoaded] = useState(false)
+  const [draft, setDraft] = useState('')
+  const [sending, setSending] = useState(false)
+  const [actingOn, setActingOn] = useState<string | null>(null)
+  const threadRef = useRef<HTMLDivElement>(null)
+  const router = useRouter()
+  const todayKey = getTodayKey()
+  const requestsRef = useRef<Partial<Record<RequestKind, AbortController>>>({})
 
-  const generateInsight = async () => {
-    setLoading(true)
+  const showError = (err: unknown) => {
+    setError({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+      quota: err instanceof QuotaError,
+    })
+  }
+
+  // Stop generating when the user leaves the dashboard
+  useEffect(() => {
+    const requests = requestsRef.current
+    return () => Object.values(requests).forEach(controller => controller.abort())
+  }, [])
+
+  // One request of each kind at a time - starting another cancels the last,
+  // but a chat reply and an insight can stream side by side
+  const startRequest = (kind: RequestKind) => {
+    requestsRef.current[kind]?.abort()
+    const controller = new AbortController()
+    requestsRef.current[kind] = controller
+    return controller.signal
+  }
+
+  const scrollThread = () => {
+    requestAnimationFrame(() => {
+      threadRef.current?.scrollTo({ top: threadRef.current.scrollHeight })
+    })
+  }
+
+  const loadHistory = async () => {
+    try {
+      const response = await fetch('/api/ai/coach/chat')
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load conversation')
+      }
+
+      setMessages(data.messages || [])
+      setHistoryLoaded(true)
+      scrollThread()
+    } catch (err) {
+      showError(err)
+    }
+  }
+
+  const openChat = () => {
+    setActiveTab('chat')
+    if (!historyLoaded) loadHistory()
+  }
+
+  const sendMessage = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const content = draft.trim()
+    if (!content || sending) return
+
+    setSending(true)
     setError(null)
-    
+    setDraft('')
+    setMessages(prev => [...prev, { role: 'user', content }, { role: 'assistant', content: '' }])
+    scrollThread()
+
+    // Replace the placeholder reply at the end of the thread
+    const setReply = (reply: string) => {
+      setMessages(prev => [...prev.slice(0, -1), { role: 'assistant', content: reply }])
+    }
+
     try {
-      const response = await fetch('/api/ai/coach', {
+      const response = await fetch('/api/ai/coach/chat', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'insight' }),
+        body: JSON.stringify({ message: content }),
+        signal: startRequest('chat'),
       })
 
+      if (!response.ok || !response.body) {
+        const data = await response.json().catch(() => ({}))
+        throw responseError(data, 'Failed to send message')
+      }
+
+      // Render the reply as it streams in
+      const reader = response.body.getReader()
+      const decoder = new TextDecoder()
+      let reply = ''
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) break
+        reply += decoder.decode(value, { stream: true })
+        // Proposed actions arrive as tagged JSON - show only the text
+        setReply(splitCoachReply(reply, todayKey).text)
+        scrollThread()
+      }
+
+      // Reload for the saved reply's id and any proposed actions
+      await loadHistory()
+    } catch (err) {
+      if (isAbortError(err)) return
+      // Drop the empty placeholder; the question stays in the thread
+      setMessages(prev => prev.slice(0, -1))
+      showError(err)
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const respondToAction = async (messageId: string, index: number, confirm: boolean) => {
+    setActingOn(`${messageId}:${index}`)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/ai/coach/actions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ messageId, index, confirm }),
+      })
       const data = await response.json()
-      
+
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate insight')
+        throw new Error(data.error || 'Failed to apply action')
       }
 
-      setInsight(data.message)
+      setMessages(prev => prev.map(message =>
+        message.id === messageId ? { ...message, actions: data.actions } : message
+      ))
+
+      if (confirm) {
+        // Today's workout and nutrition totals may have changed
+        window.dispatchEvent(new Event(PLAN_UPDATED_EVENT))
+        router.refresh()
+      }
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong')
+      showError(err)
     } finally {
-      setLoading(false)
+      setActingOn(null)
+    }
+  }
+
+  const clearChat = async () => {
+    if (!confirm('Clear your conversation with the coach?')) return
+
+    try {
+      const response = await fetch('/api/ai/coach/chat', { method: 'DELETE' })
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        throw new Error(data.error || 'Failed to clear conversation')
+      }
+      setMessages([])
+    } catch (err) {
+      showError(err)
     }
   }
 
-  const generateDailyPlan = async () => {
+  // Stream insights and plans in as they're written
+  // refresh skips the cached answer for when the user asks for a new one
+  const generate = async (type: 'insight' | 'daily_plan', refresh: boolean) => {
+    const setContent = type === 'insight' ? setInsight : setDailyPlan
     setLoading(true)
     setError(null)
-    
+
     try {
       const response = await fetch('/api/ai/coach', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'daily_plan' }),
+        body: JSON.stringify({ type, stream: true, refresh }),
+        signal: startRequest('generate'),
       })
 
-      const data = await response.json()
-      
       if (!response.ok) {
-        throw new Error(data.error || 'Failed to generate plan')
+        const data = await response.json().catch(() => ({}))
+        throw responseError(data, `Failed to generate ${type === 'insight' ? 'insight' : 'plan'}`)
       }
 
-      setDailyPlan(data.message)
+      let message = ''
+      await readEventStream(response, (event, data) => {
+        const payload = data as { text?: string; message?: string; cached?: boolean; error?: string }
+        if (event === 'chunk') {
+          message += payload.text || ''
+          setContent(message)
+        } else if (event === 'done') {
+          setContent(payload.message || message)
+          setCached(current => ({ ...current, [type]: Boolean(payload.cached) }))
+        } else if (event === 'error') {
+          throw new Error(payload.error || 'Something went wrong')
+        }
+      })
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Something went wrong')
+      if (isAbortError(err)) return
+      showError(err)
     } finally {
       setLoading(false)
     }
   }
 
+  const currentType = activeTab === 'insight' ? 'insight' : 'daily_plan'
+  const currentContent = activeTab === 'insight' ? insight : dailyPlan
+
   const handleGenerate = () => {
-    if (activeTab === 'insight') {
-      generateInsight()
-    } else {
-      generateDailyPlan()
-    }
+    generate(currentType, Boolean(currentContent))
   }
 
-  const currentContent = activeTab === 'insight' ? insight : dailyPlan
-
   return (
     <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 overflow-hidden">
       {/* Header */}
@@ -119,63 +312,180 @@ export function AICoach({ userName }: AICoachProps) {
         >
           Daily Plan
         </button>
+        <button
+          onClick={openChat}
+          className={`flex-1 py-3 text-sm font-medium transition-colors ${
+            activeTab === 'chat'
+              ? 'text-emerald-400 border-b-2 border-emerald-400'
+              : 'text-slate-400 hover:text-white'
+          }`}
+        >
+          Chat
+        </button>
       </div>
 
       {/* Content */}
       <div className="p-6">
         {/* Error */}
         {error && (
-          <div className="mb-4 p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
-            {error}
+          <div
+            className={`mb-4 p-3 rounded-xl text-sm ${
+              error.quota
+                ? 'bg-amber-500/10 border border-amber-500/20 text-amber-400'
+                : 'bg-red-500/10 border border-red-500/20 text-red-400'
+            }`}
+          >
+            {error.message}
           </div>
         )}
 
-        {/* Generated Content */}
-        {currentContent ? (
-          <div className="mb-4">
-            <div className="prose prose-invert prose-sm max-w-none">
-              <div 
-                className="text-slate-300 leading-relaxed whitespace-pre-wrap"
-                dangerouslySetInnerHTML={{ 
-                  __html: currentContent
-                    .replace(/\*\*(.*?)\*\*/g, '<strong class="text-white">$1</strong>')
-                    .replace(/\n/g, '<br/>')
-                }}
-              />
+        {activeTab === 'chat' ? (
+          <>
+            {/* Thread */}
+            <div ref={threadRef} className="mb-4 max-h-96 overflow-y-auto space-y-3">
+              {messages.length === 0 ? (
+                <div className="text-slate-400 text-sm">
+                  {historyLoaded
+                    ? `Ask me anything, ${userName} - like "why so little leg volume this week?"`
+                    : 'Loading conversation...'}
+                </div>
+              ) : (
+                messages.map((message, index) => (
+                  <div
+                    key={index}
+                    className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+                  >
+                    <div
+                      className={`max-w-[85%] px-4 py-2 rounded-2xl text-sm leading-relaxed ${
+                        message.role === 'user'
+                          ? 'bg-emerald-500/20 text-emerald-100'
+                          : 'bg-slate-800/70 text-slate-300'
+                      }`}
+                    >
+                      {message.content ? (
+                        <div dangerouslySetInnerHTML={{ __html: formatCoachText(message.content) }} />
+                      ) : (
+                        <span className="text-slate-500">Thinking...</span>
+                      )}
+
+                      {/* Proposed changes - nothing is written until confirmed */}
+                      {message.id && message.actions?.map((proposal, actionIndex) => (
+                        <div
+                          key={actionIndex}
+                          className="mt-3 p-3 rounded-xl bg-slate-900/70 border border-slate-700/50"
+                        >
+                          <div className="text-xs text-slate-300 mb-2">
+                            {describeCoachAction(proposal.action, todayKey)}
+                          </div>
+                          {proposal.status === 'pending' ? (
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => respondToAction(message.id!, actionIndex, true)}
+                                disabled={actingOn !== null}
+                                className="px-3 py-1 text-xs font-medium rounded-lg bg-emerald-500 text-slate-950 hover:bg-emerald-400 disabled:opacity-50 transition-colors"
+                              >
+                                {actingOn === `${message.id}:${actionIndex}` ? 'Applying...' : 'Confirm'}
+                              </button>
+                              <button
+                                onClick={() => respondToAction(message.id!, actionIndex, false)}
+                                disabled={actingOn !== null}
+                                className="px-3 py-1 text-xs font-medium rounded-lg bg-slate-800 text-slate-400 hover:text-white disabled:opacity-50 transition-colors"
+                              >
+                                Dismiss
+                              </button>
+                            </div>
+                          ) : (
+                            <span className={`text-xs ${proposal.status === 'applied' ? 'text-emerald-400' : 'text-slate-500'}`}>
+                              {proposal.status === 'applied' ? '✓ Applied' : 'Dismissed'}
+                            </span>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))
+              )}
             </div>
-          </div>
+
+            {/* Composer */}
+            <form onSubmit={sendMessage} className="flex gap-2">
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Ask your coach..."
+                maxLength={2000}
+                disabled={sending}
+                className="flex-1 px-4 py-3 bg-slate-800/50 border border-slate-700 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:border-emerald-500 disabled:opacity-50"
+              />
+              <button
+                type="submit"
+                disabled={sending || !draft.trim()}
+                className="px-4 py-3 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                {sending ? '...' : 'Send'}
+              </button>
+            </form>
+            {messages.length > 0 && !sending && (
+              <button
+                onClick={clearChat}
+                className="mt-3 text-xs text-slate-500 hover:text-slate-300 transition-colors"
+              >
+                Clear conversation
+              </button>
+            )}
+          </>
         ) : (
-          <div className="mb-4 text-slate-400 text-sm">
-            {activeTab === 'insight' 
-              ? `Hey ${userName}! 👋 Click below to get a personalized insight based on your recent activity.`
-              : `Generate your personalized daily plan with workout and nutrition recommendations.`
-            }
-          </div>
-        )}
+          <>
+            {/* Generated Content */}
+            {currentContent ? (
+              <div className="mb-4">
+                <div className="prose prose-invert prose-sm max-w-none">
+                  <div 
+                    className="text-slate-300 leading-relaxed whitespace-pre-wrap"
+                    dangerouslySetInnerHTML={{ __html: formatCoachText(currentContent) }}
+                  />
+                </div>
+                {cached[currentType] && !loading && (
+                  <p className="mt-3 text-xs text-slate-500">
+                    Nothing new logged since this was written - regenerate for a fresh take.
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="mb-4 text-slate-400 text-sm">
+                {activeTab === 'insight' 
+                  ? `Hey ${userName}! 👋 Click below to get a personalized insight based on your recent activity.`
+                  : `Generate your personalized daily plan with workout and nutrition recommendations.`
+                }
+              </div>
+            )}
 
-        {/* Generate Button */}
-        <button
-          onClick={handleGenerate}
-          disabled={loading}
-          className="w-full py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
-        >
-          {loading ? (
-            <>
-              <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
-                <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
-                <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-              </svg>
-              Thinking...
-            </>
-          ) : (
-            <>
-              <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
-              </svg>
-              {currentContent ? 'Regenerate' : 'Generate'} {activeTab === 'insight' ? 'Insight' : 'Plan'}
-            </>
-          )}
-        </button>
+            {/* Generate Button */}
+            <button
+              onClick={handleGenerate}
+              disabled={loading}
+              className="w-full py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <>
+                  <svg className="animate-spin h-4 w-4" viewBox="0 0 24 24">
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" fill="none" />
+                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                  </svg>
+                  Thinking...
+                </>
+              ) : (
+                <>
+                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
+                  </svg>
+                  {currentContent ? 'Regenerate' : 'Generate'} {activeTab === 'insight' ? 'Insight' : 'Plan'}
+                </>
+              )}
+            </button>
+          </>
+        )}
       </div>
     </div>
   )
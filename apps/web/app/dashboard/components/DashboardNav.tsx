@@ -41,6 +41,15 @@ const navigation = [
       </svg>
     ),
   },
+  { 
+    name: 'Calendar', 
+    href: '/dashboard/calendar',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+      </svg>
+    ),
+  },
   { 
     name: 'Nutrition', 
     href: '/dashboard/nutrition',
@@ -50,6 +59,15 @@ const navigation = [
       </svg>
     ),
   },
+  {
+    name: 'Reports',
+    href: '/dashboard/reports',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+      </svg>
+    ),
+  },
   { 
     name: 'Profile', 
     href: '/dashboard/profile',
@@ -61,11 +79,25 @@ const navigation = [
   },
 ]
 
-export function DashboardNav({ user }: { user: User }) {
+// Only shown to ADMIN_EMAILS
+const adminNavigation = [
+  {
+    name: 'AI Usage',
+    href: '/dashboard/admin',
+    icon: (
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+      </svg>
+    ),
+  },
+]
+
+export function DashboardNav({ user, isAdmin = false }: { user: User; isAdmin?: boolean }) {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false)
   const pathname = usePathname()
   const router = useRouter()
   const supabase = createClient()
+  const items = isAdmin ? [...navigation, ...adminNavigation] : navigation
 
   const handleSignOut = async () => {
     await supabase.auth.signOut()
@@ -76,7 +108,7 @@ export function DashboardNav({ user }: { user: User }) {
   return (
     <>
       {/* Mobile menu button */}
-      <div className="sticky top-0 z-40 flex items-center gap-x-6 bg-slate-900/80 backdrop-blur-xl px-4 py-4 shadow-sm sm:px-6 lg:hidden border-b border-slate-800/50">
+      <div className="print:hidden sticky top-0 z-40 flex items-center gap-x-6 bg-slate-900/80 backdrop-blur-xl px-4 py-4 shadow-sm sm:px-6 lg:hidden border-b border-slate-800/50">
         <button
           type="button"
           className="-m-2.5 p-2.5 text-slate-400 lg:hidden"
@@ -117,7 +149,7 @@ export function DashboardNav({ user }: { user: User }) {
             </div>
             <nav className="flex flex-1 flex-col p-4">
               <ul className="space-y-1">
-                {navigation.map((item) => (
+                {items.map((item) => (
                   <li key={item.name}>
                     <a
                       href={item.href}
@@ -140,7 +172,7 @@ export function DashboardNav({ user }: { user: User }) {
       )}
 
       {/* Desktop sidebar */}
-      <div className="hidden lg:fixed lg:inset-y-0 lg:z-50 lg:flex lg:w-72 lg:flex-col">
+      <div className="hidden lg:fixed lg:inset-y-0 lg:z-50 lg:flex lg:w-72 lg:flex-col print:hidden!">
         <div className="flex grow flex-col gap-y-5 overflow-y-auto bg-slate-900/50 backdrop-blur-xl border-r border-slate-800/50 px-6 pb-4">
           {/* Logo */}
           <div className="flex h-16 shrink-0 items-center">
@@ -161,7 +193,7 @@ export function DashboardNav({ user }: { user: User }) {
             <ul className="flex flex-1 flex-col gap-y-7">
               <li>
                 <ul className="space-y-1">
-                  {navigation.map((item) => (
+                  {items.map((item) => (
                     <li key={item.name}>
                       <a
                         href={item.href}
@@ -0,0 +1,76 @@
+/**
+ * Progress Ring Component
+ *
+ * Circular progress toward a daily target (calories, macros).
+ * Turns rose once the value goes more than 10% over the target.
+ * Shows value / target in the middle unless children are passed
+ * (the dashboard stat cards put their icon there instead).
+ * Presentational only - works in server and client components.
+ */
+
+import { getTargetProgress } from '@/lib/nutritionTargets'
+
+const RING_COLORS = {
+  emerald: 'text-emerald-400',
+  cyan: 'text-cyan-400',
+  amber: 'text-amber-400',
+  violet: 'text-violet-400',
+}
+
+type Props = {
+  value: number
+  target: number | null | undefined
+  label?: string
+  unit?: string
+  color?: keyof typeof RING_COLORS
+  size?: number
+  children?: React.ReactNode
+}
+
+export function ProgressRing({ value, target, label, unit = '', color = 'emerald', size = 96, children }: Props) {
+  const strokeWidth = size / 12
+  const radius = (size - strokeWidth) / 2
+  const circumference = 2 * Math.PI * radius
+  const progress = getTargetProgress(value, target)
+  const over = !!target && value > target * 1.1
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="relative" style={{ width: size, height: size }}>
+        <svg width={size} height={size} className="-rotate-90">
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            strokeWidth={strokeWidth}
+            className="stroke-slate-800"
+          />
+          <circle
+            cx={size / 2}
+            cy={size / 2}
+            r={radius}
+            fill="none"
+            stroke="currentColor"
+            strokeWidth={strokeWidth}
+            strokeLinecap="round"
+            strokeDasharray={circumference}
+            strokeDashoffset={circumference * (1 - progress)}
+            className={`${over ? 'text-rose-400' : RING_COLORS[color]} transition-all duration-500`}
+          />
+        </svg>
+        <div className="absolute inset-0 flex flex-col items-center justify-center">
+          {children ?? (
+            <>
+              <span className="text-lg font-bold text-white leading-none">{Math.round(value).toLocaleString()}{unit}</span>
+              {target ? (
+                <span className="text-xs text-slate-500">/ {target.toLocaleString()}{unit}</span>
+              ) : null}
+            </>
+          )}
+        </div>
+      </div>
+      {label && <p className="text-sm text-slate-400">{label}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,67 @@
+'use client'
+
+/**
+ * Recent Performances Component
+ *
+ * Inline "last time" hint for an exercise: the last few sessions'
+ * sets, with a link to the full progress history.
+ * Used in Today's Workout and when logging a new workout.
+ */
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import {
+  getExerciseHistory,
+  formatPerformanceSets,
+  type ExercisePerformance,
+} from '@/lib/exerciseHistory'
+
+const RECENT_LIMIT = 3
+
+export function RecentPerformances({ exerciseId }: { exerciseId: string }) {
+  const [performances, setPerformances] = useState<ExercisePerformance[] | null>(null)
+
+  useEffect(() => {
+    async function fetchHistory() {
+      const supabase = createClient()
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      const history = await getExerciseHistory(supabase, user.id, exerciseId, { limit: RECENT_LIMIT })
+      setPerformances(history)
+    }
+
+    fetchHistory()
+  }, [exerciseId])
+
+  if (!performances) {
+    return <p className="text-xs text-slate-500">Loading history...</p>
+  }
+
+  if (performances.length === 0) {
+    return <p className="text-xs text-slate-500">First time doing this exercise</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {performances.map((performance) => (
+        <div key={performance.session_id} className="flex items-baseline gap-2 text-xs">
+          <span className="text-slate-500 shrink-0 w-12">
+            {new Date(performance.started_at).toLocaleDateString('en-US', {
+              month: 'short',
+              day: 'numeric',
+            })}
+          </span>
+          <span className="text-slate-300">{formatPerformanceSets(performance.sets)}</span>
+        </div>
+      ))}
+      <Link
+        href={`/dashboard/exercises/${exerciseId}`}
+        className="inline-block text-xs text-emerald-400 hover:text-emerald-300"
+      >
+        View progress →
+      </Link>
+    </div>
+  )
+}
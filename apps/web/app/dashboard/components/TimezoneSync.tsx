@@ -0,0 +1,36 @@
+'use client'
+
+/**
+ * Timezone Sync Component
+ *
+ * Stores the browser's timezone in a cookie so server routes work out
+ * "today" the way the user sees it (see lib/timezone). When it changes -
+ * first visit, or travelling - the page is refreshed so server components
+ * render with the right day.
+ */
+
+import { useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { TIMEZONE_COOKIE } from '@/lib/schedule'
+
+// A year - refreshed on every dashboard visit anyway
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+export function TimezoneSync() {
+  const router = useRouter()
+
+  useEffect(() => {
+    const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone
+    if (!timeZone) return
+
+    const current = document.cookie
+      .split('; ')
+      .find(cookie => cookie.startsWith(`${TIMEZONE_COOKIE}=`))
+      ?.slice(TIMEZONE_COOKIE.length + 1)
+
+    document.cookie = `${TIMEZONE_COOKIE}=${timeZone}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`
+    if (current !== timeZone) router.refresh()
+  }, [router])
+
+  return null
+}
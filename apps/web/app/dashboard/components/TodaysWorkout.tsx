@@ -5,18 +5,24 @@
  * 
  * Shows the AI-generated workout for today based on the user's split.
  * Features:
- * - Generate workout button if none exists
- * - Display exercises with sets/reps
+ * - Generate workout button if none exists, with the day's equipment profile and time budget
+ * - Display exercises with sets/reps, target loads and recent performances
+ * - Estimated session duration
  * - Edit, delete, or get alternatives for each exercise
- * - Mark workout as completed or skipped
+ * - Start a live session to log the workout, or skip it
  * - Shows AI reasoning for the selection
  */
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
 import Link from 'next/link'
-import { findBestMatch, type Exercise as DBExercise } from '@/lib/fuzzyMatch'
+import { formatPrescription, retargetPrescription, type Prescription } from '@/lib/progression'
+import { findEquipmentProfile, type EquipmentProfile } from '@/lib/equipment'
+import { DURATION_OPTIONS, DEFAULT_TARGET_MINUTES, estimateSessionMinutes } from '@/lib/sessionDuration'
+import { PLAN_UPDATED_EVENT } from '@/lib/coachTools'
+import { readEventStream } from '@/lib/ai/stream'
+import { RecentPerformances } from './RecentPerformances'
 
 interface Exercise {
   name: string
@@ -24,6 +30,14 @@ interface Exercise {
   reps: string
   rest_seconds: number
   notes?: string
+  exercise_id?: string
+  prescription?: Prescription
+  superset?: string
+}
+
+// Alternatives come back with why they were suggested
+interface AlternativeExercise extends Exercise {
+  reason?: string
 }
 
 interface PlannedWorkout {
@@ -32,6 +46,8 @@ interface PlannedWorkout {
   status: 'planned' | 'completed' | 'skipped' | 'rest'
   exercises: Exercise[]
   ai_reasoning: string
+  equipment_profile?: string | null
+  target_minutes?: number | null
   split: {
     id: string
     name: string
@@ -55,19 +71,21 @@ function ExerciseCard({
   exercise,
   index,
   muscleGroups,
+  equipmentProfile,
   onUpdate,
   onDelete,
 }: {
   exercise: Exercise
   index: number
   muscleGroups: string[]
+  equipmentProfile: EquipmentProfile | null
   onUpdate: (updated: Exercise) => void
   onDelete: () => void
 }) {
   const [isEditing, setIsEditing] = useState(false)
   const [showAlternatives, setShowAlternatives] = useState(false)
   const [loadingAlternatives, setLoadingAlternatives] = useState(false)
-  const [alternatives, setAlternatives] = useState<Exercise[]>([])
+  const [alternatives, setAlternatives] = useState<AlternativeExercise[]>([])
   const [error, setError] = useState<string | null>(null)
   
   // Edit form state
@@ -88,13 +106,15 @@ function ExerciseCard({
           action: 'suggest_alternative',
           exercise,
           muscleGroups,
+          equipment: equipmentProfile?.equipment,
         }),
       })
       
       const data = await response.json()
       
       if (data.error && response.status === 429) {
-        setError('Rate limit reached. Try again in a minute.')
+        // Our own quota message says when to try again
+        setError(data.code === 'quota_exceeded' ? data.error : 'Rate limit reached. Try again in a minute.')
       } else if (data.alternatives) {
         setAlternatives(data.alternatives)
         setShowAlternatives(true)
@@ -107,8 +127,15 @@ function ExerciseCard({
   }
 
   const handleSaveEdit = () => {
+    // A renamed exercise is a different lift, so the old target no longer applies
+    const renamed = editName !== exercise.name
+    const prescription = renamed || !exercise.prescription
+      ? undefined
+      : retargetPrescription(exercise.prescription, editReps)
     onUpdate({
       ...exercise,
+      exercise_id: renamed ? undefined : exercise.exercise_id,
+      prescription,
       name: editName,
       sets: editSets,
       reps: editReps,
@@ -117,7 +144,7 @@ function ExerciseCard({
     setIsEditing(false)
   }
 
-  const handleSelectAlternative = (alt: Exercise) => {
+  const handleSelectAlternative = (alt: AlternativeExercise) => {
     onUpdate({
       name: alt.name,
       sets: alt.sets,
@@ -243,17 +270,31 @@ function ExerciseCard({
           {index + 1}
         </span>
         <div className="min-w-0">
-          <p className="font-medium text-white truncate">{exercise.name}</p>
+          <div className="flex items-center gap-2 min-w-0">
+            <p className="font-medium text-white truncate">{exercise.name}</p>
+            {exercise.superset && (
+              <span className="shrink-0 text-xs font-medium text-violet-400 bg-violet-500/10 px-1.5 py-0.5 rounded">
+                Superset {exercise.superset}
+              </span>
+            )}
+          </div>
           {exercise.notes && (
             <p className="text-xs text-slate-500 truncate">{exercise.notes}</p>
           )}
+          {exercise.exercise_id && (
+            <div className="mt-1.5">
+              <RecentPerformances exerciseId={exercise.exercise_id} />
+            </div>
+          )}
         </div>
       </div>
       
       <div className="flex items-center gap-3">
         <div className="text-right">
           <p className="text-sm font-medium text-white">
-            {exercise.sets} × {exercise.reps}
+            {exercise.prescription?.target_weight_kg != null
+              ? formatPrescription(exercise.sets, exercise.prescription)
+              : `${exercise.sets} × ${exercise.reps}`}
           </p>
           <p className="text-xs text-slate-500">
             {exercise.rest_seconds}s rest
@@ -310,13 +351,28 @@ export function TodaysWorkout() {
   const [workout, setWorkout] = useState<PlannedWorkout | null>(null)
   const [hasSplits, setHasSplits] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [quotaExceeded, setQuotaExceeded] = useState(false)
   const [updating, setUpdating] = useState(false)
+  const [equipmentProfiles, setEquipmentProfiles] = useState<EquipmentProfile[]>([])
+  const [equipmentProfileId, setEquipmentProfileId] = useState<string | null>(null)
+  const [targetMinutes, setTargetMinutes] = useState(DEFAULT_TARGET_MINUTES)
+  // Exercises shown while generation streams in, replaced by the saved workout
+  const [streamedExercises, setStreamedExercises] = useState<AlternativeExercise[]>([])
+  const generationRef = useRef<AbortController | null>(null)
 
   const supabase = createClient()
   const router = useRouter()
 
   useEffect(() => {
     fetchTodaysWorkout()
+
+    // The coach chat can change today's plan
+    window.addEventListener(PLAN_UPDATED_EVENT, fetchTodaysWorkout)
+    return () => {
+      window.removeEventListener(PLAN_UPDATED_EVENT, fetchTodaysWorkout)
+      // Stop generating when the user leaves the dashboard
+      generationRef.current?.abort()
+    }
   }, [])
 
   const fetchTodaysWorkout = async () => {
@@ -328,6 +384,8 @@ export function TodaysWorkout() {
         setWorkout(data.todayWorkout)
       }
       setHasSplits(data.hasSplits)
+      setEquipmentProfiles(data.equipmentProfiles || [])
+      setEquipmentProfileId(data.todayWorkout?.equipment_profile || data.equipmentProfiles?.[0]?.id || null)
     } catch (err) {
       console.error('Error fetching workout:', err)
     } finally {
@@ -338,63 +396,61 @@ export function TodaysWorkout() {
   const generateWorkout = async () => {
     setGenerating(true)
     setError(null)
+    setQuotaExceeded(false)
+    setStreamedExercises([])
+
+    generationRef.current?.abort()
+    const controller = new AbortController()
+    generationRef.current = controller
 
     try {
       const response = await fetch('/api/ai/workout', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ equipmentProfile: equipmentProfileId, targetMinutes, stream: true }),
+        signal: controller.signal,
       })
-      const data = await response.json()
 
       if (!response.ok) {
+        const data = await response.json().catch(() => ({}))
+        setQuotaExceeded(data.code === 'quota_exceeded')
         throw new Error(data.error || 'Failed to generate workout')
       }
 
-      setWorkout(data.planned_workout)
+      // Show exercises as they're generated, then the saved workout
+      await readEventStream(response, (event, data) => {
+        if (event === 'exercise') {
+          setStreamedExercises(prev => [...prev, data as Exercise])
+        } else if (event === 'done') {
+          setWorkout((data as { planned_workout: PlannedWorkout }).planned_workout)
+        } else if (event === 'error') {
+          const payload = data as { error?: string; code?: string }
+          setQuotaExceeded(payload.code === 'quota_exceeded')
+          throw new Error(payload.error || 'Failed to generate workout')
+        }
+      })
     } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') return
       setError(err instanceof Error ? err.message : 'Failed to generate workout')
     } finally {
       setGenerating(false)
+      setStreamedExercises([])
     }
   }
 
-  const updateWorkoutStatus = async (status: 'completed' | 'skipped' | 'planned') => {
+  const updateWorkoutStatus = async (status: 'skipped' | 'planned') => {
     if (!workout) return
 
     setUpdating(true)
     try {
-      const { data: { user } } = await supabase.auth.getUser()
-      if (!user) throw new Error('Not authenticated')
-
-      // If undoing from completed, delete the associated workout session and its sets
+      // Undoing a completion re-opens the logged session instead of deleting real sets
       if (status === 'planned' && workout.status === 'completed') {
-        const todayStart = new Date()
-        todayStart.setHours(0, 0, 0, 0)
-        const todayEnd = new Date()
-        todayEnd.setHours(23, 59, 59, 999)
-
-        // Find the session first
-        const { data: sessionToDelete } = await supabase
+        const { error: sessionError } = await supabase
           .from('workout_sessions')
-          .select('id')
-          .eq('user_id', user.id)
-          .eq('name', workout.split?.name || 'Workout')
-          .gte('started_at', todayStart.toISOString())
-          .lte('started_at', todayEnd.toISOString())
-          .single()
-
-        if (sessionToDelete) {
-          // Delete sets first (due to foreign key)
-          await supabase
-            .from('workout_sets')
-            .delete()
-            .eq('session_id', sessionToDelete.id)
-
-          // Then delete the session
-          await supabase
-            .from('workout_sessions')
-            .delete()
-            .eq('id', sessionToDelete.id)
-        }
+          .update({ completed_at: null })
+          .eq('planned_workout_id', workout.id)
+
+        if (sessionError) throw sessionError
       }
 
       // Update planned workout status
@@ -402,112 +458,16 @@ export function TodaysWorkout() {
         .from('planned_workouts')
         .update({ 
           status,
-          completed_at: status === 'completed' ? new Date().toISOString() : null,
+          completed_at: null,
         })
         .eq('id', workout.id)
 
       if (error) throw error
 
-      // If completing, create workout_session with real workout_sets
-      if (status === 'completed' && workout.exercises && workout.exercises.length > 0) {
-        // Fetch all exercises from database for fuzzy matching
-        const { data: dbExercises } = await supabase
-          .from('exercises')
-          .select('id, name, muscle_group, equipment')
-
-        const exerciseList: DBExercise[] = dbExercises || []
-
-        // Create workout session
-        const { data: session, error: sessionError } = await supabase
-          .from('workout_sessions')
-          .insert({
-            user_id: user.id,
-            name: workout.split?.name || 'Workout',
-            started_at: new Date().toISOString(),
-          })
-          .select()
-          .single()
-
-        if (sessionError || !session) {
-          console.error('Error creating session:', sessionError)
-        } else {
-          // Process each exercise with fuzzy matching
-          const setsToInsert: Array<{
-            session_id: string
-            exercise_id: string
-            set_number: number
-            reps: number
-            weight_kg: number | null
-          }> = []
-
-          for (const exercise of workout.exercises) {
-            // Find best match in database
-            const match = findBestMatch(exercise.name, exerciseList, 70)
-            
-            let exerciseId: string
-
-            if (match.isNewExercise || !match.exercise) {
-              // Create new exercise in database
-              const muscleGroup = workout.split?.muscle_groups?.[0] || 'other'
-              const { data: newExercise, error: newExerciseError } = await supabase
-                .from('exercises')
-                .insert({
-                  name: exercise.name,
-                  muscle_group: muscleGroup,
-                  equipment: 'other',
-                })
-                .select()
-                .single()
-
-              if (newExerciseError || !newExercise) {
-                console.error('Error creating exercise:', newExerciseError)
-                continue
-              }
-              exerciseId = newExercise.id
-              
-              // Add to local list for future matches in this batch
-              exerciseList.push({
-                id: newExercise.id,
-                name: newExercise.name,
-                muscle_group: newExercise.muscle_group,
-              })
-            } else {
-              exerciseId = match.exercise.id
-            }
-
-            // Parse reps from string (e.g., "8-10" -> 8, "12" -> 12)
-            const repsMatch = exercise.reps.match(/\d+/)
-            const reps = repsMatch ? parseInt(repsMatch[0]) : 10
-
-            // Create sets for this exercise
-            for (let setNum = 1; setNum <= exercise.sets; setNum++) {
-              setsToInsert.push({
-                session_id: session.id,
-                exercise_id: exerciseId,
-                set_number: setNum,
-                reps: reps,
-                weight_kg: null, // User didn't log actual weight
-              })
-            }
-          }
-
-          // Insert all sets
-          if (setsToInsert.length > 0) {
-            const { error: setsError } = await supabase
-              .from('workout_sets')
-              .insert(setsToInsert)
-
-            if (setsError) {
-              console.error('Error inserting sets:', setsError)
-            }
-          }
-        }
-      }
-
       setWorkout({ ...workout, status })
       
       // Refresh the page to update server components (like Recent Workouts)
-      if (status === 'completed' || (status === 'planned' && workout.status === 'completed')) {
+      if (status === 'planned' && workout.status === 'completed') {
         router.refresh()
       }
     } catch (err) {
@@ -557,6 +517,7 @@ export function TodaysWorkout() {
   }
 
   const color = workout?.split?.color ? COLORS[workout.split.color] : COLORS.emerald
+  const equipmentProfile = findEquipmentProfile(equipmentProfiles, workout?.equipment_profile)
 
   if (loading) {
     return (
@@ -600,8 +561,12 @@ export function TodaysWorkout() {
     )
   }
 
-  // No workout generated yet
-  if (!workout) {
+  // No workout generated yet (or only scheduled on the calendar)
+  const needsExercises = workout?.status === 'planned'
+    && !workout.split?.is_rest_day
+    && (!workout.exercises || workout.exercises.length === 0)
+
+  if (!workout || needsExercises) {
     return (
       <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
         <div className="flex items-start gap-4">
@@ -611,12 +576,63 @@ export function TodaysWorkout() {
             </svg>
           </div>
           <div className="flex-1">
-            <h3 className="text-lg font-semibold text-white">Ready for Today's Workout?</h3>
+            <h3 className="text-lg font-semibold text-white">
+              {workout?.split?.name ? `Ready for ${workout.split.name}?` : <>Ready for Today&apos;s Workout?</>}
+            </h3>
             <p className="text-slate-400 mt-1">
               Let Filo generate your personalized workout based on your split and training history.
             </p>
+            {equipmentProfiles.length > 1 && (
+              <div className="flex flex-wrap items-center gap-2 mt-3">
+                <span className="text-sm text-slate-400">Training at:</span>
+                {equipmentProfiles.map((profile) => (
+                  <button
+                    key={profile.id}
+                    type="button"
+                    onClick={() => setEquipmentProfileId(profile.id)}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                      equipmentProfileId === profile.id
+                        ? 'bg-emerald-500/20 text-emerald-400'
+                        : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                    }`}
+                  >
+                    {profile.name}
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-3">
+              <span className="text-sm text-slate-400">Time:</span>
+              {DURATION_OPTIONS.map((minutes) => (
+                <button
+                  key={minutes}
+                  type="button"
+                  onClick={() => setTargetMinutes(minutes)}
+                  className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                    targetMinutes === minutes
+                      ? 'bg-emerald-500/20 text-emerald-400'
+                      : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+                  }`}
+                >
+                  {minutes} min
+                </button>
+              ))}
+            </div>
             {error && (
-              <p className="text-red-400 text-sm mt-2">{error}</p>
+              <p className={`text-sm mt-2 ${quotaExceeded ? 'text-amber-400' : 'text-red-400'}`}>{error}</p>
+            )}
+            {generating && streamedExercises.length > 0 && (
+              <ul className="mt-4 space-y-2">
+                {streamedExercises.map((exercise, index) => (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between px-3 py-2 rounded-lg bg-slate-800/50 text-sm"
+                  >
+                    <span className="text-white">{exercise.name}</span>
+                    <span className="text-slate-400">{exercise.sets} × {exercise.reps}</span>
+                  </li>
+                ))}
+              </ul>
             )}
             <button
               onClick={generateWorkout}
@@ -633,7 +649,7 @@ export function TodaysWorkout() {
                   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" />
                   </svg>
-                  Generate Today's Workout
+                  Generate Today&apos;s Workout
                 </>
               )}
             </button>
@@ -705,7 +721,7 @@ export function TodaysWorkout() {
               <h3 className="text-lg font-semibold text-white">
                 {workout.split?.name} — Skipped
               </h3>
-              <p className="text-slate-400">No worries! We'll reschedule this in your rotation.</p>
+              <p className="text-slate-400">No worries! We&apos;ll reschedule this in your rotation.</p>
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -716,13 +732,6 @@ export function TodaysWorkout() {
             >
               Undo
             </button>
-            <button
-              onClick={() => updateWorkoutStatus('completed')}
-              disabled={updating}
-              className="px-3 py-1.5 text-sm text-emerald-400 hover:text-white hover:bg-emerald-500/20 rounded-lg transition-colors"
-            >
-              Mark Done
-            </button>
           </div>
         </div>
       </div>
@@ -740,6 +749,17 @@ export function TodaysWorkout() {
               <span className={`text-xs font-medium ${color.text} bg-slate-950/30 px-2 py-0.5 rounded`}>
                 Today
               </span>
+              {equipmentProfile && (
+                <span className="text-xs text-slate-400 bg-slate-950/30 px-2 py-0.5 rounded">
+                  {equipmentProfile.name}
+                </span>
+              )}
+              {workout.exercises?.length > 0 && (
+                <span className="text-xs text-slate-400 bg-slate-950/30 px-2 py-0.5 rounded">
+                  ⏱ ~{estimateSessionMinutes(workout.exercises)} min
+                  {workout.target_minutes ? ` of ${workout.target_minutes}` : ''}
+                </span>
+              )}
             </div>
             <h3 className="text-xl font-bold text-white">{workout.split?.name}</h3>
             {workout.split?.muscle_groups && (
@@ -770,6 +790,7 @@ export function TodaysWorkout() {
                 exercise={exercise}
                 index={i}
                 muscleGroups={workout.split?.muscle_groups || []}
+                equipmentProfile={equipmentProfile}
                 onUpdate={(updated) => updateExercise(i, updated)}
                 onDelete={() => deleteExercise(i)}
               />
@@ -787,13 +808,12 @@ export function TodaysWorkout() {
         >
           Skip Today
         </button>
-        <button
-          onClick={() => updateWorkoutStatus('completed')}
-          disabled={updating}
-          className="flex-1 px-4 py-2.5 rounded-xl bg-emerald-500 text-slate-950 font-semibold hover:bg-emerald-400 transition-colors disabled:opacity-50"
+        <Link
+          href={`/dashboard/workouts/live/${workout.id}`}
+          className="flex-1 px-4 py-2.5 rounded-xl bg-emerald-500 text-slate-950 font-semibold text-center hover:bg-emerald-400 transition-colors"
         >
-          {updating ? 'Saving...' : 'Mark Complete'}
-        </button>
+          Start Workout
+        </Link>
       </div>
     </div>
   )
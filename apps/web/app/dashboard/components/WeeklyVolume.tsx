@@ -0,0 +1,65 @@
+/**
+ * Weekly Volume Component
+ *
+ * Hard sets per muscle group this week against the target range.
+ * Presentational only - the dashboard page fetches the data.
+ */
+
+import type { MuscleGroupVolume, VolumeStatus } from '@/lib/weeklyVolume'
+
+const STATUS_STYLES: Record<VolumeStatus, { bar: string; text: string; label: string }> = {
+  under: { bar: 'bg-amber-400', text: 'text-amber-400', label: 'Under' },
+  within: { bar: 'bg-emerald-400', text: 'text-emerald-400', label: 'On target' },
+  over: { bar: 'bg-rose-400', text: 'text-rose-400', label: 'Over' },
+}
+
+export function WeeklyVolume({ volume }: { volume: MuscleGroupVolume[] }) {
+  return (
+    <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-white">Weekly Volume</h3>
+        <span className="text-xs text-slate-400">Hard sets vs. target</span>
+      </div>
+
+      {volume.length > 0 ? (
+        <div className="space-y-3">
+          {volume.map((group) => {
+            const style = STATUS_STYLES[group.status]
+            // Scale so the top of the target range sits at ~80% width
+            const scale = group.target.max * 1.25
+            const fill = Math.min(100, (group.hard_sets / scale) * 100)
+            const rangeStart = (group.target.min / scale) * 100
+            const rangeWidth = ((group.target.max - group.target.min) / scale) * 100
+
+            return (
+              <div key={group.muscle_group}>
+                <div className="flex items-center justify-between text-sm mb-1">
+                  <span className="text-white capitalize">{group.muscle_group}</span>
+                  <span className="text-slate-400">
+                    <span className={style.text}>{group.hard_sets}</span>
+                    {' '}/ {group.target.min}–{group.target.max} sets
+                    {group.tonnage > 0 && ` • ${group.tonnage.toLocaleString()} kg`}
+                  </span>
+                </div>
+                <div className="relative h-2 rounded-full bg-slate-800 overflow-hidden">
+                  <div
+                    className="absolute inset-y-0 bg-slate-700"
+                    style={{ left: `${rangeStart}%`, width: `${rangeWidth}%` }}
+                  />
+                  <div
+                    className={`absolute inset-y-0 left-0 rounded-full ${style.bar}`}
+                    style={{ width: `${fill}%` }}
+                  />
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-slate-400">
+          No sets logged this week yet. Set up your split to track volume per muscle group.
+        </p>
+      )}
+    </div>
+  )
+}
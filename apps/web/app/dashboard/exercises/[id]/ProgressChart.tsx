@@ -0,0 +1,134 @@
+'use client'
+
+/**
+ * Progress Chart Component
+ *
+ * Line chart of one exercise over time. Toggle between
+ * top set weight, estimated 1RM and session volume.
+ * Plain SVG - no charting library needed for a single series.
+ */
+
+import { useState } from 'react'
+import type { ExercisePerformance } from '@/lib/exerciseHistory'
+
+type Metric = 'top_weight_kg' | 'best_e1rm' | 'volume'
+
+const METRICS: Array<{ value: Metric; label: string; unit: string }> = [
+  { value: 'top_weight_kg', label: 'Top Set', unit: 'kg' },
+  { value: 'best_e1rm', label: 'Est. 1RM', unit: 'kg' },
+  { value: 'volume', label: 'Volume', unit: 'kg' },
+]
+
+// SVG coordinate space
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 16, right: 16, bottom: 28, left: 48 }
+
+export function ProgressChart({ performances }: { performances: ExercisePerformance[] }) {
+  const [metric, setMetric] = useState<Metric>('best_e1rm')
+
+  // Oldest first, skipping sessions without a value (e.g. bodyweight sets for e1RM)
+  const points = [...performances]
+    .reverse()
+    .filter(p => p[metric] != null && (p[metric] as number) > 0)
+    .map(p => ({ date: new Date(p.started_at), value: p[metric] as number }))
+
+  const activeMetric = METRICS.find(m => m.value === metric)!
+
+  const values = points.map(p => p.value)
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  // Give flat lines some vertical room
+  const range = max - min || Math.max(1, max * 0.1)
+  const yMin = min - range * 0.1
+  const yMax = max + range * 0.1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+
+  const x = (index: number) =>
+    PADDING.left + (points.length === 1 ? plotWidth / 2 : (index / (points.length - 1)) * plotWidth)
+  const y = (value: number) =>
+    PADDING.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight
+
+  const formatDate = (date: Date) =>
+    date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+  return (
+    <div className="rounded-xl bg-slate-900/50 border border-slate-800/50 p-4 space-y-4">
+      {/* Metric Tabs */}
+      <div className="flex gap-2">
+        {METRICS.map((m) => (
+          <button
+            key={m.value}
+            onClick={() => setMetric(m.value)}
+            className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+              metric === m.value
+                ? 'bg-emerald-500/20 text-emerald-400'
+                : 'text-slate-400 hover:text-white hover:bg-slate-800/50'
+            }`}
+          >
+            {m.label}
+          </button>
+        ))}
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-slate-400 py-12 text-center">
+          No weighted sets logged for this exercise yet.
+        </p>
+      ) : (
+        <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto">
+          {/* Y axis labels + grid */}
+          {[yMax, (yMax + yMin) / 2, yMin].map((value) => (
+            <g key={value}>
+              <line
+                x1={PADDING.left}
+                x2={WIDTH - PADDING.right}
+                y1={y(value)}
+                y2={y(value)}
+                stroke="#1e293b"
+                strokeDasharray="4 4"
+              />
+              <text
+                x={PADDING.left - 8}
+                y={y(value) + 4}
+                textAnchor="end"
+                className="fill-slate-500 text-[11px]"
+              >
+                {Math.round(value).toLocaleString()}
+              </text>
+            </g>
+          ))}
+
+          {/* X axis labels (first and last session) */}
+          <text x={x(0)} y={HEIGHT - 8} textAnchor={points.length === 1 ? 'middle' : 'start'} className="fill-slate-500 text-[11px]">
+            {formatDate(points[0].date)}
+          </text>
+          {points.length > 1 && (
+            <text x={x(points.length - 1)} y={HEIGHT - 8} textAnchor="end" className="fill-slate-500 text-[11px]">
+              {formatDate(points[points.length - 1].date)}
+            </text>
+          )}
+
+          {/* Line */}
+          <polyline
+            points={points.map((p, i) => `${x(i)},${y(p.value)}`).join(' ')}
+            fill="none"
+            className="stroke-emerald-400"
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+            strokeLinecap="round"
+          />
+
+          {/* Points */}
+          {points.map((p, i) => (
+            <circle key={i} cx={x(i)} cy={y(p.value)} r={4} className="fill-slate-950 stroke-emerald-400" strokeWidth={2}>
+              <title>{`${formatDate(p.date)}: ${p.value.toLocaleString()} ${activeMetric.unit}`}</title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,135 @@
+/**
+ * Exercise Detail Page
+ *
+ * Full history for one exercise: progress chart (top set, e1RM, volume),
+ * all-time bests and every session it was performed in.
+ * Server component - fetches data directly from Supabase.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { DEFAULT_ONE_REP_MAX_FORMULA, type OneRepMaxFormula } from '@/lib/analytics'
+import { getExerciseHistory, formatPerformanceSets } from '@/lib/exerciseHistory'
+import { ProgressChart } from './ProgressChart'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+export default async function ExerciseDetailPage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth')
+  }
+
+  const { data: exercise, error } = await supabase
+    .from('exercises')
+    .select('id, name, muscle_group, equipment')
+    .eq('id', id)
+    .single()
+
+  if (error || !exercise) {
+    notFound()
+  }
+
+  // User's preferred 1RM formula
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('one_rep_max_formula')
+    .eq('id', user.id)
+    .maybeSingle()
+
+  const formula: OneRepMaxFormula = profile?.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA
+
+  const history = await getExerciseHistory(supabase, user.id, exercise.id, { formula })
+
+  // All-time bests
+  const bestWeight = Math.max(0, ...history.map(p => p.top_weight_kg || 0))
+  const bestE1rm = Math.max(0, ...history.map(p => p.best_e1rm || 0))
+  const bestVolume = Math.max(0, ...history.map(p => p.volume))
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/dashboard/workouts"
+          className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+        >
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-white">{exercise.name}</h1>
+          <p className="text-slate-400 text-sm">
+            {exercise.muscle_group} {exercise.equipment && `• ${exercise.equipment}`}
+          </p>
+        </div>
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+        <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-white">{history.length}</p>
+          <p className="text-sm text-slate-400">Sessions</p>
+        </div>
+        <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-white">{bestWeight || '--'}</p>
+          <p className="text-sm text-slate-400">kg Top Set</p>
+        </div>
+        <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-white">{bestE1rm || '--'}</p>
+          <p className="text-sm text-slate-400">kg Est. 1RM</p>
+        </div>
+        <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <p className="text-2xl font-bold text-white">{bestVolume ? bestVolume.toLocaleString() : '--'}</p>
+          <p className="text-sm text-slate-400">kg Best Volume</p>
+        </div>
+      </div>
+
+      {/* Progress Chart */}
+      <ProgressChart performances={history} />
+
+      {/* Session History */}
+      <div className="space-y-3">
+        <h2 className="text-lg font-semibold text-white">History</h2>
+
+        {history.length > 0 ? (
+          history.map((performance) => (
+            <Link
+              key={performance.session_id}
+              href={`/dashboard/workouts/${performance.session_id}`}
+              className="block p-4 rounded-xl bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800/50 transition-colors"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <p className="text-sm font-medium text-white">
+                  {performance.session_name || 'Workout'}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {new Date(performance.started_at).toLocaleDateString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    year: 'numeric',
+                  })}
+                </p>
+              </div>
+              <p className="text-sm text-slate-300">{formatPerformanceSets(performance.sets)}</p>
+              <p className="text-xs text-slate-500 mt-1">
+                {performance.best_e1rm ? `e1RM ${performance.best_e1rm} kg • ` : ''}
+                {performance.volume.toLocaleString()} kg volume
+              </p>
+            </Link>
+          ))
+        ) : (
+          <p className="text-sm text-slate-400">You haven&apos;t logged this exercise yet.</p>
+        )}
+      </div>
+    </div>
+  )
+}
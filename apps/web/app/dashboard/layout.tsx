@@ -25,7 +25,10 @@
 
 import { createClient } from '@/lib/supabase/server'
 import { redirect } from 'next/navigation'
+import { isAdminEmail } from '@/lib/supabase/admin'
+import { getRequestTimeZone } from '@/lib/timezone'
 import { DashboardNav } from './components/DashboardNav'
+import { TimezoneSync } from './components/TimezoneSync'
 
 export default async function DashboardLayout({
   children,
@@ -73,13 +76,21 @@ export default async function DashboardLayout({
     redirect('/onboarding')
   }
 
+  // Keep the profile's timezone current for jobs without a request to read
+  // the cookie from (the weekly report cron)
+  const timeZone = await getRequestTimeZone()
+  if (timeZone && profile?.timezone !== timeZone) {
+    await supabase.from('profiles').update({ timezone: timeZone }).eq('id', user.id)
+  }
+
   return (
     <div className="min-h-screen bg-slate-950">
       {/* Dashboard Navigation */}
-      <DashboardNav user={user} />
+      <DashboardNav user={user} isAdmin={isAdminEmail(user.email)} />
+      <TimezoneSync />
       
       {/* Main Content Area */}
-      <main className="lg:pl-72">
+      <main className="lg:pl-72 print:pl-0!">
         <div className="px-4 py-8 sm:px-6 lg:px-8">
           {children}
         </div>
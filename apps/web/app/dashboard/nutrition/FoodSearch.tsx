@@ -0,0 +1,118 @@
+'use client'
+
+/**
+ * Food Search
+ *
+ * Search box over the food database (GET /api/foods/search) with a
+ * results dropdown. Used by the log food page and the recipe builder.
+ */
+
+import { useEffect, useState } from 'react'
+import { formatServing, getServingMacros, type Food } from '@/lib/foods'
+
+const SEARCH_DEBOUNCE_MS = 250
+
+type Props = {
+  onSelect: (food: Food) => void
+  placeholder?: string
+  emptyMessage?: string
+}
+
+export function FoodSearch({
+  onSelect,
+  placeholder = 'Search foods, e.g. chicken breast',
+  emptyMessage = 'No foods found',
+}: Props) {
+  const [query, setQuery] = useState('')
+  const [results, setResults] = useState<Food[]>([])
+  const [searching, setSearching] = useState(false)
+
+  // Debounced search
+  useEffect(() => {
+    const trimmed = query.trim()
+    if (trimmed.length < 2) return
+
+    const controller = new AbortController()
+    const timeout = setTimeout(async () => {
+      setSearching(true)
+      try {
+        const response = await fetch(`/api/foods/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal,
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Search failed')
+        setResults(data.foods)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        console.error('Food search failed:', err)
+        setResults([])
+      } finally {
+        if (!controller.signal.aborted) setSearching(false)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      clearTimeout(timeout)
+      controller.abort()
+    }
+  }, [query])
+
+  const handleChange = (value: string) => {
+    setQuery(value)
+    if (value.trim().length < 2) {
+      setResults([])
+      setSearching(false)
+    }
+  }
+
+  const handleSelect = (food: Food) => {
+    setQuery('')
+    setResults([])
+    onSelect(food)
+  }
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <svg className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+        </svg>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => handleChange(e.target.value)}
+          placeholder={placeholder}
+          className="w-full pl-10 pr-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+        />
+      </div>
+      {query.trim().length >= 2 && (
+        <div className="absolute z-10 mt-2 w-full max-h-80 overflow-y-auto rounded-xl bg-slate-900 border border-slate-800 shadow-xl">
+          {searching && results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">Searching...</p>
+          ) : results.length === 0 ? (
+            <p className="p-4 text-sm text-slate-500">{emptyMessage}</p>
+          ) : (
+            results.map((food) => {
+              const serving = getServingMacros(food)
+              return (
+                <button
+                  key={food.id}
+                  type="button"
+                  onClick={() => handleSelect(food)}
+                  className="w-full px-4 py-3 text-left hover:bg-slate-800 transition-colors border-b border-slate-800/50 last:border-b-0"
+                >
+                  <p className="text-sm text-white">{food.name}</p>
+                  <p className="text-xs text-slate-500">
+                    {serving
+                      ? `${formatServing(food)}: ${serving.calories} cal · ${serving.protein_g}P · ${serving.carbs_g}C · ${serving.fat_g}F`
+                      : `100g: ${food.calories} cal · ${food.protein_g}P · ${food.carbs_g}C · ${food.fat_g}F`}
+                  </p>
+                </button>
+              )
+            })
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
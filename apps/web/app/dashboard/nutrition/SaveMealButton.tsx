@@ -0,0 +1,101 @@
+'use client'
+
+/**
+ * Save Meal Button
+ *
+ * Saves one of today's meal groups (e.g. everything logged for breakfast)
+ * as a named meal, so it can be logged again in one action from the
+ * log food page.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import type { MealType, SavedMealItem } from '@/lib/savedFoods'
+
+type Props = {
+  mealType: MealType
+  items: SavedMealItem[]
+}
+
+export function SaveMealButton({ mealType, items }: Props) {
+  const [editing, setEditing] = useState(false)
+  const [name, setName] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleSave = async () => {
+    if (!name.trim()) return
+    setSaving(true)
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { error } = await supabase
+        .from('saved_meals')
+        .insert({
+          user_id: user.id,
+          name: name.trim(),
+          meal_type: mealType,
+          items,
+        })
+
+      if (error) throw error
+
+      setSaved(true)
+      setEditing(false)
+      router.refresh()
+    } catch (err) {
+      console.error('Failed to save meal:', err)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (saved) {
+    return <span className="text-xs text-emerald-400">Saved</span>
+  }
+
+  if (editing) {
+    return (
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+          placeholder="Meal name"
+          autoFocus
+          className="w-36 px-2 py-1 text-sm bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+        />
+        <button
+          onClick={handleSave}
+          disabled={saving || !name.trim()}
+          className="px-2 py-1 text-xs bg-emerald-500/10 text-emerald-400 rounded-lg hover:bg-emerald-500/20 disabled:opacity-50 transition-colors"
+        >
+          {saving ? '...' : 'Save'}
+        </button>
+        <button
+          onClick={() => setEditing(false)}
+          disabled={saving}
+          className="px-2 py-1 text-xs bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <button
+      onClick={() => setEditing(true)}
+      className="text-xs text-slate-400 hover:text-white transition-colors"
+    >
+      Save as meal
+    </button>
+  )
+}
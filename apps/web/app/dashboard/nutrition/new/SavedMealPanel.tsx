@@ -0,0 +1,138 @@
+'use client'
+
+/**
+ * Saved Meal Panel
+ *
+ * Logs a whole saved meal in one action. Each item starts at its saved
+ * quantity (1x) and can be adjusted in half steps - 0 leaves it out.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { buildMealLogs, scaleMacros, sumMacros, type MealType, type SavedMeal } from '@/lib/savedFoods'
+
+const QUANTITY_STEP = 0.5
+const MAX_QUANTITY = 10
+
+type Props = {
+  meal: SavedMeal
+  mealType: MealType
+  onCancel: () => void
+}
+
+export function SavedMealPanel({ meal, mealType, onCancel }: Props) {
+  const [quantities, setQuantities] = useState<number[]>(() => meal.items.map(() => 1))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const totals = sumMacros(meal.items.map((item, index) => scaleMacros(item, quantities[index])))
+
+  const updateQuantity = (index: number, quantity: number) => {
+    const clamped = Math.min(MAX_QUANTITY, Math.max(0, quantity))
+    setQuantities(prev => prev.map((q, i) => (i === index ? clamped : q)))
+  }
+
+  const handleLog = async () => {
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const rows = buildMealLogs(meal, quantities, {
+        userId: user.id,
+        mealType,
+        loggedAt: new Date().toISOString(),
+      })
+      if (rows.length === 0) throw new Error('Add at least one item')
+
+      const { error: insertError } = await supabase.from('food_logs').insert(rows)
+      if (insertError) throw insertError
+
+      router.push('/dashboard/nutrition')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log meal')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="p-4 rounded-xl bg-slate-900/50 border border-emerald-500/30 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-white">{meal.name}</h3>
+        <span className="text-xs text-slate-400">
+          {totals.calories} cal · {totals.protein_g}P · {totals.carbs_g}C · {totals.fat_g}F
+        </span>
+      </div>
+
+      <div className="divide-y divide-slate-800/50">
+        {meal.items.map((item, index) => {
+          const macros = scaleMacros(item, quantities[index])
+          return (
+            <div
+              key={index}
+              className={`py-2 flex items-center justify-between gap-3 ${quantities[index] === 0 ? 'opacity-40' : ''}`}
+            >
+              <div className="min-w-0">
+                <p className="text-sm text-white truncate">{item.name}</p>
+                <p className="text-xs text-slate-500">
+                  {macros.calories} cal · {macros.protein_g}g P
+                </p>
+              </div>
+              <div className="flex items-stretch shrink-0 rounded-lg overflow-hidden border border-slate-800/50">
+                <button
+                  type="button"
+                  onClick={() => updateQuantity(index, quantities[index] - QUANTITY_STEP)}
+                  className="w-8 py-1 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                >
+                  −
+                </button>
+                <span className="w-12 py-1 text-center text-sm text-white bg-slate-900/50">
+                  {quantities[index]}x
+                </span>
+                <button
+                  type="button"
+                  onClick={() => updateQuantity(index, quantities[index] + QUANTITY_STEP)}
+                  className="w-8 py-1 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors"
+                >
+                  +
+                </button>
+              </div>
+            </div>
+          )
+        })}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 py-2.5 px-4 rounded-xl border border-slate-700 text-white text-sm font-medium hover:bg-slate-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleLog}
+          disabled={saving}
+          className="flex-1 py-2.5 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 text-sm font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {saving ? 'Logging...' : 'Log Meal'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -6,37 +6,63 @@
  * Allows users to log a new food/meal entry with macros.
  * Client component for form interactivity.
  * 
+ * FOOD SEARCH:
+ * Searching the food database and picking a result switches to
+ * gram-based entry - macros are recalculated from the food's per-100g
+ * values whenever the amount changes.
+ *
+ * QUICK ADD & SAVED MEALS:
+ * The user's custom foods, most-logged database foods and saved meals,
+ * most used first (see lib/savedFoods). "Save to my foods" stores a
+ * manual entry as a custom food for next time.
+ *
  * QUANTITY FEATURE:
- * When using quick-add presets, users can adjust quantity.
+ * When using a custom food, users can adjust quantity.
  * All macro values are multiplied by the quantity.
  */
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import Link from 'next/link'
+import { calculateFoodMacros, formatServing, type Food } from '@/lib/foods'
+import {
+  getSavedFoods,
+  MEAL_TYPES,
+  type CustomFood,
+  type MealType,
+  type SavedFoods,
+  type SavedMeal,
+} from '@/lib/savedFoods'
+import { FoodSearch } from '../FoodSearch'
+import { SavedMealPanel } from './SavedMealPanel'
 
-type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other'
-
-type Preset = {
-  name: string
-  calories: number
-  protein_g: number
-  carbs_g: number
-  fat_g: number
+function MealTypePicker({ value, onChange }: { value: MealType; onChange: (type: MealType) => void }) {
+  return (
+    <div>
+      <label className="block text-sm font-medium text-slate-300 mb-2">
+        Meal Type
+      </label>
+      <div className="grid grid-cols-5 gap-2">
+        {MEAL_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => onChange(type)}
+            className={`py-2 px-2 rounded-lg text-xs font-medium transition-all ${
+              value === type
+                ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/50'
+                : 'bg-slate-800/50 text-slate-400 hover:bg-slate-800'
+            }`}
+          >
+            {type.charAt(0).toUpperCase() + type.slice(1)}
+          </button>
+        ))}
+      </div>
+    </div>
+  )
 }
 
-// Quick-add presets for common foods (base values for quantity = 1)
-const quickAddPresets: Preset[] = [
-  { name: 'Protein Shake', calories: 150, protein_g: 25, carbs_g: 5, fat_g: 2 },
-  { name: 'Chicken Breast (150g)', calories: 230, protein_g: 43, carbs_g: 0, fat_g: 5 },
-  { name: 'Rice (1 cup)', calories: 200, protein_g: 4, carbs_g: 45, fat_g: 0 },
-  { name: 'Egg', calories: 70, protein_g: 6, carbs_g: 0.5, fat_g: 5 },
-  { name: 'Greek Yogurt', calories: 130, protein_g: 17, carbs_g: 6, fat_g: 4 },
-  { name: 'Banana', calories: 105, protein_g: 1, carbs_g: 27, fat_g: 0 },
-  { name: 'Oatmeal (1 cup)', calories: 150, protein_g: 5, carbs_g: 27, fat_g: 3 },
-  { name: 'Almonds (28g)', calories: 160, protein_g: 6, carbs_g: 6, fat_g: 14 },
-]
-
 export default function NewFoodLogPage() {
   const [name, setName] = useState('')
   const [mealType, setMealType] = useState<MealType>('lunch')
@@ -45,15 +71,67 @@ export default function NewFoodLogPage() {
   const [carbs, setCarbs] = useState<number | ''>('')
   const [fat, setFat] = useState<number | ''>('')
   const [quantity, setQuantity] = useState(1)
-  const [activePreset, setActivePreset] = useState<Preset | null>(null)
+  const [activePreset, setActivePreset] = useState<CustomFood | null>(null)
+  const [savedFoods, setSavedFoods] = useState<SavedFoods | null>(null)
+  const [activeMeal, setActiveMeal] = useState<SavedMeal | null>(null)
+  const [saveAsCustom, setSaveAsCustom] = useState(false)
+  const [selectedFood, setSelectedFood] = useState<Food | null>(null)
+  const [grams, setGrams] = useState<number | ''>('')
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   
   const router = useRouter()
   const supabase = createClient()
 
-  // Apply a preset with quantity multiplier
-  const applyPreset = (preset: Preset) => {
+  // The user's custom foods and saved meals, most used first
+  useEffect(() => {
+    async function fetchSavedFoods() {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) return
+
+      try {
+        setSavedFoods(await getSavedFoods(supabase, user.id))
+      } catch (err) {
+        console.error('Failed to load saved foods:', err)
+      }
+    }
+
+    fetchSavedFoods()
+  }, [supabase])
+
+  // Set the amount of a database food and recalculate its macros
+  const applyFoodAmount = (food: Food, amount: number) => {
+    const macros = calculateFoodMacros(food, amount)
+    setGrams(amount)
+    setName(`${food.name} (${amount}g)`)
+    setCalories(macros.calories)
+    setProtein(macros.protein_g)
+    setCarbs(macros.carbs_g)
+    setFat(macros.fat_g)
+  }
+
+  // Pick a search result - starts at one serving (or 100g)
+  const selectFood = (food: Food) => {
+    setSelectedFood(food)
+    setActivePreset(null)
+    setActiveMeal(null)
+    applyFoodAmount(food, food.serving_g || 100)
+  }
+
+  const updateGrams = (value: string) => {
+    if (!selectedFood) return
+    if (!value) {
+      setGrams('')
+      return
+    }
+    applyFoodAmount(selectedFood, Math.max(0, Number(value)))
+  }
+
+  // Apply a custom food with quantity multiplier
+  const applyPreset = (preset: CustomFood) => {
+    setSelectedFood(null)
+    setActiveMeal(null)
+    setSaveAsCustom(false)
     setActivePreset(preset)
     setQuantity(1)
     setName(preset.name)
@@ -89,6 +167,7 @@ export default function NewFoodLogPage() {
   // Clear preset when manually editing values
   const handleManualEdit = (field: 'calories' | 'protein' | 'carbs' | 'fat', value: string) => {
     setActivePreset(null) // Clear preset so quantity doesn't override
+    setSelectedFood(null) // Same for a database food's gram amount
     
     const numValue = value ? Number(value) : ''
     switch (field) {
@@ -114,6 +193,27 @@ export default function NewFoodLogPage() {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) throw new Error('Not authenticated')
 
+      // Store a manual entry as a custom food first, so the log links to it
+      let customFoodId = activePreset?.id ?? null
+      if (saveAsCustom && !activePreset) {
+        const { data: customFood, error: customError } = await supabase
+          .from('custom_foods')
+          .insert({
+            user_id: user.id,
+            name: name.trim(),
+            serving_label: selectedFood && grams ? `${grams}g` : null,
+            calories: calories || 0,
+            protein_g: protein || 0,
+            carbs_g: carbs || 0,
+            fat_g: fat || 0,
+          })
+          .select('id')
+          .single()
+
+        if (customError) throw customError
+        customFoodId = customFood.id
+      }
+
       const { error: insertError } = await supabase
         .from('food_logs')
         .insert({
@@ -124,6 +224,9 @@ export default function NewFoodLogPage() {
           protein_g: protein || 0,
           carbs_g: carbs || 0,
           fat_g: fat || 0,
+          food_id: selectedFood?.id ?? null,
+          quantity_g: selectedFood && grams ? grams : null,
+          custom_food_id: customFoodId,
           logged_at: new Date().toISOString(),
         })
 
@@ -159,194 +262,290 @@ export default function NewFoodLogPage() {
         </div>
       </div>
 
-      {/* Quick Add */}
-      <div>
-        <h2 className="text-sm font-medium text-slate-400 mb-3">Quick Add</h2>
-        <div className="flex flex-wrap gap-2">
-          {quickAddPresets.map((preset) => (
-            <button
-              key={preset.name}
-              type="button"
-              onClick={() => applyPreset(preset)}
-              className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
-                activePreset?.name === preset.name
-                  ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/50'
-                  : 'bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white'
-              }`}
-            >
-              {preset.name}
-            </button>
-          ))}
-        </div>
-      </div>
+      {/* Food Search */}
+      <FoodSearch
+        onSelect={selectFood}
+        emptyMessage="No foods found - enter the macros below instead."
+      />
 
-      {/* Form */}
-      <form onSubmit={handleSubmit} className="space-y-5">
-        {/* Food Name + Quantity */}
-        <div className="flex gap-3">
-          <div className="flex-1">
-            <label className="block text-sm font-medium text-slate-300 mb-2">
-              Food Name
-            </label>
-            <input
-              type="text"
-              value={name}
-              onChange={(e) => {
-                setName(e.target.value)
-                setActivePreset(null) // Clear preset when manually editing name
-              }}
-              placeholder="e.g., Grilled Chicken Salad"
-              className="w-full px-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
-            />
-          </div>
-          
-          {/* Quantity (only show when preset is active) */}
-          {activePreset && (
-            <div className="w-36 shrink-0">
-              <label className="block text-sm font-medium text-slate-300 mb-2">
-                Qty
-              </label>
-              <div className="flex items-stretch rounded-xl overflow-hidden border border-slate-800/50">
-                <button
-                  type="button"
-                  onClick={() => updateQuantity(quantity - 1)}
-                  className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
-                >
-                  −
-                </button>
-                <div className="w-14 py-3 bg-slate-900/50 flex items-center justify-center">
-                  <span className="text-white font-medium">{quantity}</span>
-                </div>
-                <button
-                  type="button"
-                  onClick={() => updateQuantity(quantity + 1)}
-                  className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
-                >
-                  +
-                </button>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Meal Type */}
+      {/* Saved Meals */}
+      {savedFoods && savedFoods.meals.length > 0 && (
         <div>
-          <label className="block text-sm font-medium text-slate-300 mb-2">
-            Meal Type
-          </label>
-          <div className="grid grid-cols-5 gap-2">
-            {(['breakfast', 'lunch', 'dinner', 'snack', 'other'] as MealType[]).map((type) => (
+          <div className="flex items-center justify-between mb-3">
+            <h2 className="text-sm font-medium text-slate-400">My Meals</h2>
+            <Link href="/dashboard/nutrition/saved" className="text-xs text-slate-500 hover:text-white transition-colors">
+              Manage
+            </Link>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {savedFoods.meals.map((meal) => (
               <button
-                key={type}
+                key={meal.id}
                 type="button"
-                onClick={() => setMealType(type)}
-                className={`py-2 px-2 rounded-lg text-xs font-medium transition-all ${
-                  mealType === type
+                onClick={() => {
+                  setActiveMeal(meal)
+                  if (meal.meal_type) setMealType(meal.meal_type)
+                }}
+                className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                  activeMeal?.id === meal.id
                     ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/50'
-                    : 'bg-slate-800/50 text-slate-400 hover:bg-slate-800'
+                    : 'bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white'
                 }`}
               >
-                {type.charAt(0).toUpperCase() + type.slice(1)}
+                🍽️ {meal.name}
               </button>
             ))}
           </div>
         </div>
+      )}
 
-        {/* Macros */}
-        <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50 space-y-4">
-          <div className="flex items-center justify-between">
-            <h3 className="text-sm font-medium text-slate-300">Nutrition Info</h3>
-            {activePreset && quantity > 1 && (
-              <span className="text-xs text-emerald-400">
-                Base × {quantity}
-              </span>
-            )}
-          </div>
-          
-          {/* Calories */}
-          <div>
-            <label className="block text-xs text-slate-400 mb-1.5">Calories</label>
-            <input
-              type="number"
-              value={calories}
-              onChange={(e) => handleManualEdit('calories', e.target.value)}
-              placeholder="0"
-              min="0"
-              className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
-            />
-            {!activePreset && (protein || carbs || fat) ? (
-              <p className="text-xs text-slate-500 mt-1">
-                Calculated from macros: ~{calculatedCalories} cal
-              </p>
-            ) : null}
+      {/* Quick Add */}
+      <div>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-medium text-slate-400">Quick Add</h2>
+          {savedFoods && savedFoods.meals.length === 0 && savedFoods.quickAdd.length > 0 && (
+            <Link href="/dashboard/nutrition/saved" className="text-xs text-slate-500 hover:text-white transition-colors">
+              Manage
+            </Link>
+          )}
+        </div>
+        {savedFoods && savedFoods.quickAdd.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            Foods you save or log often will show up here.
+          </p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {savedFoods?.quickAdd.map((item) => {
+              const active = item.kind === 'custom'
+                ? activePreset?.id === item.food.id
+                : selectedFood?.id === item.food.id
+              return (
+                <button
+                  key={`${item.kind}-${item.food.id}`}
+                  type="button"
+                  onClick={() => item.kind === 'custom' ? applyPreset(item.food) : selectFood(item.food)}
+                  className={`px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                    active
+                      ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white'
+                  }`}
+                >
+                  {item.food.name}
+                </button>
+              )
+            })}
           </div>
+        )}
+      </div>
 
-          {/* Macros Grid */}
-          <div className="grid grid-cols-3 gap-3">
-            <div>
-              <label className="block text-xs text-slate-400 mb-1.5">Protein (g)</label>
+      {activeMeal ? (
+        <div className="space-y-5">
+          <MealTypePicker value={mealType} onChange={setMealType} />
+          <SavedMealPanel
+            key={activeMeal.id}
+            meal={activeMeal}
+            mealType={mealType}
+            onCancel={() => setActiveMeal(null)}
+          />
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-5">
+          {/* Food Name + Quantity */}
+          <div className="flex gap-3">
+            <div className="flex-1">
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Food Name
+              </label>
               <input
-                type="number"
-                value={protein}
-                onChange={(e) => handleManualEdit('protein', e.target.value)}
-                placeholder="0"
-                min="0"
-                step="0.1"
-                className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+                type="text"
+                value={name}
+                onChange={(e) => {
+                  setName(e.target.value)
+                  setActivePreset(null) // Clear preset when manually editing name
+                }}
+                placeholder="e.g., Grilled Chicken Salad"
+                className="w-full px-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
               />
             </div>
+            
+            {/* Amount in grams (only show when a database food is selected) */}
+            {selectedFood && (
+              <div className="w-28 shrink-0">
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Grams
+                </label>
+                <input
+                  type="number"
+                  value={grams}
+                  onChange={(e) => updateGrams(e.target.value)}
+                  min="0"
+                  step="1"
+                  className="w-full px-3 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white text-center focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+                />
+              </div>
+            )}
+
+            {/* Quantity (only show when preset is active) */}
+            {activePreset && (
+              <div className="w-36 shrink-0">
+                <label className="block text-sm font-medium text-slate-300 mb-2">
+                  Qty
+                </label>
+                <div className="flex items-stretch rounded-xl overflow-hidden border border-slate-800/50">
+                  <button
+                    type="button"
+                    onClick={() => updateQuantity(quantity - 1)}
+                    className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
+                  >
+                    −
+                  </button>
+                  <div className="w-14 py-3 bg-slate-900/50 flex items-center justify-center">
+                    <span className="text-white font-medium">{quantity}</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => updateQuantity(quantity + 1)}
+                    className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
+                  >
+                    +
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Meal Type */}
+          <MealTypePicker value={mealType} onChange={setMealType} />
+
+          {/* Macros */}
+          <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50 space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-slate-300">Nutrition Info</h3>
+              {activePreset && quantity > 1 && (
+                <span className="text-xs text-emerald-400">
+                  Base × {quantity}
+                </span>
+              )}
+              {selectedFood && (
+                <div className="flex gap-1.5">
+                  {selectedFood.serving_g && (
+                    <button
+                      type="button"
+                      onClick={() => applyFoodAmount(selectedFood, selectedFood.serving_g || 100)}
+                      className="px-2 py-1 text-xs rounded-md bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+                    >
+                      {formatServing(selectedFood)}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => applyFoodAmount(selectedFood, 100)}
+                    className="px-2 py-1 text-xs rounded-md bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+                  >
+                    100g
+                  </button>
+                </div>
+              )}
+            </div>
+            
+            {/* Calories */}
             <div>
-              <label className="block text-xs text-slate-400 mb-1.5">Carbs (g)</label>
+              <label className="block text-xs text-slate-400 mb-1.5">Calories</label>
               <input
                 type="number"
-                value={carbs}
-                onChange={(e) => handleManualEdit('carbs', e.target.value)}
+                value={calories}
+                onChange={(e) => handleManualEdit('calories', e.target.value)}
                 placeholder="0"
                 min="0"
-                step="0.1"
-                className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 transition-all"
+                className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
               />
+              {!activePreset && !selectedFood && (protein || carbs || fat) ? (
+                <p className="text-xs text-slate-500 mt-1">
+                  Calculated from macros: ~{calculatedCalories} cal
+                </p>
+              ) : null}
             </div>
-            <div>
-              <label className="block text-xs text-slate-400 mb-1.5">Fat (g)</label>
+
+            {/* Macros Grid */}
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">Protein (g)</label>
+                <input
+                  type="number"
+                  value={protein}
+                  onChange={(e) => handleManualEdit('protein', e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">Carbs (g)</label>
+                <input
+                  type="number"
+                  value={carbs}
+                  onChange={(e) => handleManualEdit('carbs', e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-cyan-500/50 transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-slate-400 mb-1.5">Fat (g)</label>
+                <input
+                  type="number"
+                  value={fat}
+                  onChange={(e) => handleManualEdit('fat', e.target.value)}
+                  placeholder="0"
+                  min="0"
+                  step="0.1"
+                  className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Save as custom food */}
+          {!activePreset && (
+            <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
               <input
-                type="number"
-                value={fat}
-                onChange={(e) => handleManualEdit('fat', e.target.value)}
-                placeholder="0"
-                min="0"
-                step="0.1"
-                className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-amber-500/50 transition-all"
+                type="checkbox"
+                checked={saveAsCustom}
+                onChange={(e) => setSaveAsCustom(e.target.checked)}
+                className="w-4 h-4 rounded border-slate-700 bg-slate-800 accent-emerald-500"
               />
+              Save to my foods for quick add
+            </label>
+          )}
+
+          {/* Error */}
+          {error && (
+            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+              {error}
             </div>
-          </div>
-        </div>
+          )}
 
-        {/* Error */}
-        {error && (
-          <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
-            {error}
+          {/* Actions */}
+          <div className="flex gap-3 pt-2">
+            <button
+              type="button"
+              onClick={() => router.back()}
+              className="flex-1 py-3 px-4 rounded-xl border border-slate-700 text-white font-medium hover:bg-slate-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+            >
+              {saving ? 'Saving...' : 'Log Food'}
+            </button>
           </div>
-        )}
-
-        {/* Actions */}
-        <div className="flex gap-3 pt-2">
-          <button
-            type="button"
-            onClick={() => router.back()}
-            className="flex-1 py-3 px-4 rounded-xl border border-slate-700 text-white font-medium hover:bg-slate-800 transition-colors"
-          >
-            Cancel
-          </button>
-          <button
-            type="submit"
-            disabled={saving}
-            className="flex-1 py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-          >
-            {saving ? 'Saving...' : 'Log Food'}
-          </button>
-        </div>
-      </form>
+        </form>
+      )}
     </div>
   )
 }
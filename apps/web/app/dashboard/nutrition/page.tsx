@@ -1,18 +1,34 @@
 /**
  * Nutrition Page
  * 
- * Shows today's food logs with macro totals.
+ * Shows today's food logs with macro totals against the user's
+ * daily targets (see lib/nutritionTargets). Each of today's meal groups
+ * can be saved as a meal to log again in one action.
  * Server component - fetches data directly from Supabase.
  */
 
 import { createClient } from '@/lib/supabase/server'
 import Link from 'next/link'
+import { calculateNutritionTargets } from '@/lib/nutritionTargets'
+import { ENERGY_PROFILE_COLUMNS } from '@/lib/energy'
+import type { MealType } from '@/lib/savedFoods'
+import { ProgressRing } from '../components/ProgressRing'
+import { SaveMealButton } from './SaveMealButton'
 
 export default async function NutritionPage() {
   const supabase = await createClient()
   
   // Get current user
   const { data: { user } } = await supabase.auth.getUser()
+
+  // Daily targets from the profile
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select(`${ENERGY_PROFILE_COLUMNS}, fitness_goal, nutrition_targets`)
+    .eq('id', user!.id)
+    .single()
+
+  const targets = profile ? calculateNutritionTargets(profile) : null
   
   // Get start and end of today
   const today = new Date()
@@ -77,15 +93,23 @@ export default async function NutritionPage() {
           <h1 className="text-2xl font-bold text-white">Nutrition</h1>
           <p className="text-slate-400 mt-1">Track your daily food intake</p>
         </div>
-        <Link
-          href="/dashboard/nutrition/new"
-          className="inline-flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 transition-all"
-        >
-          <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
-          </svg>
-          Log Food
-        </Link>
+        <div className="flex items-center gap-2">
+          <Link
+            href="/dashboard/nutrition/recipes"
+            className="px-4 py-2.5 rounded-xl bg-slate-800/50 text-sm font-medium text-white hover:bg-slate-800 transition-colors"
+          >
+            Recipes
+          </Link>
+          <Link
+            href="/dashboard/nutrition/new"
+            className="inline-flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 transition-all"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6v6m0 0v6m0-6h6m-6 0H6" />
+            </svg>
+            Log Food
+          </Link>
+        </div>
       </div>
 
       {/* Error State */}
@@ -97,24 +121,23 @@ export default async function NutritionPage() {
 
       {/* Today's Summary */}
       <div className="rounded-2xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20 p-6">
-        <h2 className="text-lg font-semibold text-white mb-4">Today&apos;s Summary</h2>
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white">Today&apos;s Summary</h2>
+          {targets ? (
+            <Link href="/dashboard/profile" className="text-xs text-slate-400 hover:text-white transition-colors">
+              {targets.overridden.length > 0 ? 'Custom targets' : 'Targets from your profile'}
+            </Link>
+          ) : (
+            <Link href="/dashboard/profile" className="text-xs text-amber-400 hover:text-amber-300 transition-colors">
+              Complete your profile to get targets
+            </Link>
+          )}
+        </div>
         <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
-          <div className="text-center p-3 rounded-xl bg-slate-900/50">
-            <p className="text-2xl font-bold text-white">{todayTotals.calories}</p>
-            <p className="text-sm text-slate-400">Calories</p>
-          </div>
-          <div className="text-center p-3 rounded-xl bg-slate-900/50">
-            <p className="text-2xl font-bold text-emerald-400">{Math.round(todayTotals.protein)}g</p>
-            <p className="text-sm text-slate-400">Protein</p>
-          </div>
-          <div className="text-center p-3 rounded-xl bg-slate-900/50">
-            <p className="text-2xl font-bold text-cyan-400">{Math.round(todayTotals.carbs)}g</p>
-            <p className="text-sm text-slate-400">Carbs</p>
-          </div>
-          <div className="text-center p-3 rounded-xl bg-slate-900/50">
-            <p className="text-2xl font-bold text-amber-400">{Math.round(todayTotals.fat)}g</p>
-            <p className="text-sm text-slate-400">Fat</p>
-          </div>
+          <ProgressRing value={todayTotals.calories} target={targets?.calories} label="Calories" color="violet" />
+          <ProgressRing value={todayTotals.protein} target={targets?.protein_g} label="Protein" unit="g" color="emerald" />
+          <ProgressRing value={todayTotals.carbs} target={targets?.carbs_g} label="Carbs" unit="g" color="cyan" />
+          <ProgressRing value={todayTotals.fat} target={targets?.fat_g} label="Fat" unit="g" color="amber" />
         </div>
       </div>
 
@@ -150,7 +173,22 @@ export default async function NutritionPage() {
                 <div key={mealType} className="rounded-xl bg-slate-900/50 border border-slate-800/50 overflow-hidden">
                   <div className="px-4 py-3 bg-slate-800/30 border-b border-slate-800/50 flex items-center justify-between">
                     <h3 className="font-medium text-white">{mealTypeLabels[mealType]}</h3>
-                    <span className="text-sm text-slate-400">{mealTotal} cal</span>
+                    <div className="flex items-center gap-4">
+                      <SaveMealButton
+                        mealType={mealType as MealType}
+                        items={meals.map((log) => ({
+                          name: log.name,
+                          calories: log.calories || 0,
+                          protein_g: log.protein_g || 0,
+                          carbs_g: log.carbs_g || 0,
+                          fat_g: log.fat_g || 0,
+                          food_id: log.food_id ?? null,
+                          custom_food_id: log.custom_food_id ?? null,
+                          quantity_g: log.quantity_g ?? null,
+                        }))}
+                      />
+                      <span className="text-sm text-slate-400">{mealTotal} cal</span>
+                    </div>
                   </div>
                   <div className="divide-y divide-slate-800/50">
                     {meals.map((log) => (
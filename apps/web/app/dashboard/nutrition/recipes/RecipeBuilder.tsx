@@ -0,0 +1,225 @@
+'use client'
+
+/**
+ * Recipe Builder
+ *
+ * Create or edit a recipe: ingredients from the food database with raw
+ * gram amounts, the number of servings it makes and, optionally, the
+ * cooked weight. Per-serving and per-100g macros update as you type.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { calculateFoodMacros, type Food } from '@/lib/foods'
+import { calculateRecipeNutrition, saveRecipe, type Recipe, type RecipeIngredient } from '@/lib/recipes'
+import { FoodSearch } from '../FoodSearch'
+
+type Props = {
+  recipe?: Recipe
+}
+
+export function RecipeBuilder({ recipe }: Props) {
+  const [name, setName] = useState(recipe?.name || '')
+  const [servings, setServings] = useState<number | ''>(recipe?.servings || 4)
+  const [cookedWeight, setCookedWeight] = useState<number | ''>(recipe?.cooked_weight_g || '')
+  const [ingredients, setIngredients] = useState<RecipeIngredient[]>(recipe?.ingredients || [])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const nutrition = calculateRecipeNutrition({
+    servings: Number(servings) || 1,
+    cooked_weight_g: cookedWeight || null,
+    ingredients,
+  })
+
+  // New ingredients start at one serving (or 100g)
+  const addIngredient = (food: Food) => {
+    setIngredients(prev => [...prev, { food, grams: food.serving_g || 100 }])
+  }
+
+  const updateGrams = (index: number, grams: number) => {
+    setIngredients(prev => prev.map((ingredient, i) => (i === index ? { ...ingredient, grams } : ingredient)))
+  }
+
+  const removeIngredient = (index: number) => {
+    setIngredients(prev => prev.filter((_, i) => i !== index))
+  }
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      setError('Please enter a recipe name')
+      return
+    }
+    if (!servings || servings <= 0) {
+      setError('Servings must be more than 0')
+      return
+    }
+    if (ingredients.length === 0 || ingredients.some(ingredient => ingredient.grams <= 0)) {
+      setError('Add at least one ingredient, each with an amount')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const recipeId = await saveRecipe(supabase, {
+        id: recipe?.id,
+        name: name.trim(),
+        servings,
+        cooked_weight_g: cookedWeight || null,
+        ingredients,
+      })
+
+      router.push(`/dashboard/nutrition/recipes/${recipeId}`)
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recipe')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-5">
+      {/* Name */}
+      <div>
+        <label className="block text-sm font-medium text-slate-300 mb-2">Recipe Name</label>
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="e.g., Chicken Chili"
+          className="w-full px-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+        />
+      </div>
+
+      {/* Yield */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">Servings</label>
+          <input
+            type="number"
+            value={servings}
+            onChange={(e) => setServings(e.target.value ? Number(e.target.value) : '')}
+            min="0.5"
+            step="0.5"
+            className="w-full px-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Cooked Weight (g) <span className="text-slate-500 font-normal">optional</span>
+          </label>
+          <input
+            type="number"
+            value={cookedWeight}
+            onChange={(e) => setCookedWeight(e.target.value ? Number(e.target.value) : '')}
+            min="0"
+            placeholder={nutrition.weight_g > 0 ? `${nutrition.weight_g} raw` : ''}
+            className="w-full px-4 py-3 bg-slate-900/50 border border-slate-800/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+          />
+        </div>
+      </div>
+
+      {/* Ingredients */}
+      <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50 space-y-4">
+        <h3 className="text-sm font-medium text-slate-300">Ingredients</h3>
+        <FoodSearch onSelect={addIngredient} placeholder="Add an ingredient..." />
+
+        {ingredients.length === 0 ? (
+          <p className="text-sm text-slate-500">Search above to add ingredients.</p>
+        ) : (
+          <div className="divide-y divide-slate-800/50">
+            {ingredients.map((ingredient, index) => {
+              const macros = calculateFoodMacros(ingredient.food, ingredient.grams)
+              return (
+                <div key={`${ingredient.food.id}-${index}`} className="py-2 flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{ingredient.food.name}</p>
+                    <p className="text-xs text-slate-500">
+                      {macros.calories} cal · {macros.protein_g}P · {macros.carbs_g}C · {macros.fat_g}F
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <input
+                      type="number"
+                      value={ingredient.grams || ''}
+                      onChange={(e) => updateGrams(index, Math.max(0, Number(e.target.value)))}
+                      min="0"
+                      className="w-20 px-2 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm text-center focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    />
+                    <span className="text-xs text-slate-400">g</span>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => removeIngredient(index)}
+                    className="p-1.5 text-slate-500 hover:text-red-400 rounded-lg transition-colors"
+                    title="Remove ingredient"
+                  >
+                    <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Nutrition */}
+      {ingredients.length > 0 && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="p-4 rounded-xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20">
+            <p className="text-sm text-slate-400">Per serving</p>
+            <p className="text-2xl font-bold text-white">{nutrition.per_serving.calories} cal</p>
+            <p className="text-xs text-slate-400">
+              {nutrition.per_serving.protein_g}g P · {nutrition.per_serving.carbs_g}g C · {nutrition.per_serving.fat_g}g F
+            </p>
+          </div>
+          <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+            <p className="text-sm text-slate-400">Per 100g {nutrition.weight_source === 'raw' && '(raw weight)'}</p>
+            <p className="text-2xl font-bold text-white">{nutrition.per_100g.calories} cal</p>
+            <p className="text-xs text-slate-400">
+              {nutrition.per_100g.protein_g}g P · {nutrition.per_100g.carbs_g}g C · {nutrition.per_100g.fat_g}g F
+            </p>
+          </div>
+        </div>
+      )}
+
+      {/* Error */}
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="button"
+          onClick={() => router.back()}
+          className="flex-1 py-3 px-4 rounded-xl border border-slate-700 text-white font-medium hover:bg-slate-800 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={handleSave}
+          disabled={saving}
+          className="flex-1 py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+        >
+          {saving ? 'Saving...' : recipe ? 'Save Changes' : 'Save Recipe'}
+        </button>
+      </div>
+    </div>
+  )
+}
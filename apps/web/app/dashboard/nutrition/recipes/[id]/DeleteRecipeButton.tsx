@@ -0,0 +1,78 @@
+'use client'
+
+/**
+ * Delete Recipe Button
+ *
+ * Deletes a recipe (ingredients cascade). Portions already logged keep
+ * their name and macros.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+
+type Props = {
+  recipeId: string
+}
+
+export function DeleteRecipeButton({ recipeId }: Props) {
+  const [showConfirm, setShowConfirm] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleDelete = async () => {
+    setDeleting(true)
+
+    try {
+      const { error } = await supabase
+        .from('recipes')
+        .delete()
+        .eq('id', recipeId)
+
+      if (error) throw error
+
+      router.push('/dashboard/nutrition/recipes')
+      router.refresh()
+    } catch (err) {
+      console.error('Failed to delete recipe:', err)
+      setDeleting(false)
+      setShowConfirm(false)
+    }
+  }
+
+  if (showConfirm) {
+    return (
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-slate-400">Delete?</span>
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="px-3 py-1.5 text-sm bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20 disabled:opacity-50 transition-colors"
+        >
+          {deleting ? '...' : 'Yes'}
+        </button>
+        <button
+          onClick={() => setShowConfirm(false)}
+          disabled={deleting}
+          className="px-3 py-1.5 text-sm bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          No
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <button
+      onClick={() => setShowConfirm(true)}
+      className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+      title="Delete recipe"
+    >
+      <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+      </svg>
+    </button>
+  )
+}
@@ -0,0 +1,179 @@
+'use client'
+
+/**
+ * Log Recipe Form
+ *
+ * Logs a portion of a recipe to food_logs: a number of servings
+ * (fractions allowed), or grams of the cooked dish when its weight is known.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+import { MEAL_TYPES, type MealType } from '@/lib/savedFoods'
+import {
+  buildRecipeLog,
+  calculateRecipeNutrition,
+  getPortionMacros,
+  type Recipe,
+  type RecipePortion,
+} from '@/lib/recipes'
+
+const SERVING_STEP = 0.25
+
+type Props = {
+  recipe: Recipe
+}
+
+export function LogRecipeForm({ recipe }: Props) {
+  const [mode, setMode] = useState<'servings' | 'grams'>('servings')
+  const [servings, setServings] = useState(1)
+  const [grams, setGrams] = useState<number | ''>('')
+  const [mealType, setMealType] = useState<MealType>('dinner')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const nutrition = calculateRecipeNutrition(recipe)
+  const portion: RecipePortion = mode === 'servings' ? { servings } : { grams: Number(grams) || 0 }
+  const macros = getPortionMacros(nutrition, portion)
+  const amount = 'servings' in portion ? portion.servings : portion.grams
+
+  const handleLog = async () => {
+    if (amount <= 0) {
+      setError(mode === 'servings' ? 'Servings must be more than 0' : 'Enter how many grams you ate')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser()
+      if (!user) throw new Error('Not authenticated')
+
+      const { error: insertError } = await supabase
+        .from('food_logs')
+        .insert(buildRecipeLog(recipe, portion, {
+          userId: user.id,
+          mealType,
+          loggedAt: new Date().toISOString(),
+        }))
+
+      if (insertError) throw insertError
+
+      router.push('/dashboard/nutrition')
+      router.refresh()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to log recipe')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white">Log a Portion</h2>
+        {/* Grams only make sense once the cooked weight is known */}
+        {recipe.cooked_weight_g ? (
+          <div className="flex rounded-lg overflow-hidden border border-slate-800/50 text-xs">
+            {(['servings', 'grams'] as const).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setMode(option)}
+                className={`px-3 py-1.5 transition-colors ${
+                  mode === option
+                    ? 'bg-emerald-500/20 text-emerald-400'
+                    : 'bg-slate-800/50 text-slate-400 hover:text-white'
+                }`}
+              >
+                {option === 'servings' ? 'Servings' : 'Grams'}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+
+      {mode === 'servings' ? (
+        <div className="flex items-center gap-3">
+          <div className="flex items-stretch rounded-xl overflow-hidden border border-slate-800/50">
+            <button
+              type="button"
+              onClick={() => setServings(prev => Math.max(SERVING_STEP, prev - SERVING_STEP))}
+              className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
+            >
+              −
+            </button>
+            <div className="w-16 py-3 bg-slate-900/50 flex items-center justify-center">
+              <span className="text-white font-medium">{servings}</span>
+            </div>
+            <button
+              type="button"
+              onClick={() => setServings(prev => prev + SERVING_STEP)}
+              className="w-11 py-3 bg-slate-800 text-slate-300 hover:bg-slate-700 hover:text-white transition-colors font-medium"
+            >
+              +
+            </button>
+          </div>
+          <span className="text-sm text-slate-400">
+            of {recipe.servings} serving{recipe.servings === 1 ? '' : 's'}
+          </span>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            value={grams}
+            onChange={(e) => setGrams(e.target.value ? Number(e.target.value) : '')}
+            min="0"
+            placeholder={`${Math.round(nutrition.weight_g / (recipe.servings || 1))}`}
+            className="w-32 px-4 py-3 bg-slate-800/50 border border-slate-700/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+          />
+          <span className="text-sm text-slate-400">g of {nutrition.weight_g}g cooked</span>
+        </div>
+      )}
+
+      {/* Meal Type */}
+      <div className="grid grid-cols-5 gap-2">
+        {MEAL_TYPES.map((type) => (
+          <button
+            key={type}
+            type="button"
+            onClick={() => setMealType(type)}
+            className={`py-2 px-2 rounded-lg text-xs font-medium transition-all ${
+              mealType === type
+                ? 'bg-emerald-500/20 text-emerald-400 ring-1 ring-emerald-500/50'
+                : 'bg-slate-800/50 text-slate-400 hover:bg-slate-800'
+            }`}
+          >
+            {type.charAt(0).toUpperCase() + type.slice(1)}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-sm text-slate-300">
+        <span className="font-semibold text-white">{macros.calories} cal</span>
+        {' · '}{macros.protein_g}g P · {macros.carbs_g}g C · {macros.fat_g}g F
+      </p>
+
+      {error && (
+        <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400 text-sm">
+          {error}
+        </div>
+      )}
+
+      <button
+        type="button"
+        onClick={handleLog}
+        disabled={saving}
+        className="w-full py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {saving ? 'Logging...' : 'Log Portion'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+/**
+ * Edit Recipe Page
+ *
+ * Loads the recipe and hands it to the recipe builder.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { getRecipe } from '@/lib/recipes'
+import { RecipeBuilder } from '../../RecipeBuilder'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+export default async function EditRecipePage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const recipe = await getRecipe(supabase, id)
+  if (!recipe) {
+    notFound()
+  }
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href={`/dashboard/nutrition/recipes/${id}`}
+          className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+        >
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-white">Edit Recipe</h1>
+          <p className="text-slate-400 text-sm">{recipe.name}</p>
+        </div>
+      </div>
+
+      <RecipeBuilder recipe={recipe} />
+    </div>
+  )
+}
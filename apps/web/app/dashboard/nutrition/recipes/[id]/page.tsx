@@ -0,0 +1,119 @@
+/**
+ * Recipe Detail Page
+ *
+ * A recipe's ingredients and nutrition (total, per serving, per 100g),
+ * with a form to log a portion of it.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { calculateFoodMacros, type FoodMacros } from '@/lib/foods'
+import { calculateRecipeNutrition, getRecipe } from '@/lib/recipes'
+import { LogRecipeForm } from './LogRecipeForm'
+import { DeleteRecipeButton } from './DeleteRecipeButton'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+function NutritionCard({ label, macros, detail }: { label: string; macros: FoodMacros; detail?: string }) {
+  return (
+    <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+      <p className="text-sm text-slate-400">{label}</p>
+      <p className="text-2xl font-bold text-white">{macros.calories} cal</p>
+      <p className="text-xs text-slate-400">
+        {macros.protein_g}g P · {macros.carbs_g}g C · {macros.fat_g}g F
+      </p>
+      {detail && <p className="text-xs text-slate-500 mt-1">{detail}</p>}
+    </div>
+  )
+}
+
+export default async function RecipePage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const recipe = await getRecipe(supabase, id)
+  if (!recipe) {
+    notFound()
+  }
+
+  const nutrition = calculateRecipeNutrition(recipe)
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/nutrition/recipes"
+            className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-white">{recipe.name}</h1>
+            <p className="text-slate-400 text-sm">
+              {recipe.servings} serving{recipe.servings === 1 ? '' : 's'}
+              {recipe.cooked_weight_g ? ` · ${recipe.cooked_weight_g}g cooked` : ''}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-1">
+          <Link
+            href={`/dashboard/nutrition/recipes/${id}/edit`}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg transition-colors"
+            title="Edit recipe"
+          >
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M11 5H6a2 2 0 00-2 2v11a2 2 0 002 2h11a2 2 0 002-2v-5m-1.414-9.414a2 2 0 112.828 2.828L11.828 15H9v-2.828l8.586-8.586z" />
+            </svg>
+          </Link>
+          <DeleteRecipeButton recipeId={id} />
+        </div>
+      </div>
+
+      {/* Nutrition */}
+      <div className="grid grid-cols-2 gap-3">
+        <NutritionCard label="Per serving" macros={nutrition.per_serving} />
+        <NutritionCard
+          label="Per 100g"
+          macros={nutrition.per_100g}
+          detail={nutrition.weight_source === 'raw' ? 'Raw weight - add the cooked weight for accuracy' : undefined}
+        />
+      </div>
+
+      <LogRecipeForm recipe={recipe} />
+
+      {/* Ingredients */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 overflow-hidden">
+        <div className="px-4 py-3 bg-slate-800/30 border-b border-slate-800/50 flex items-center justify-between">
+          <h2 className="font-medium text-white">Ingredients</h2>
+          <span className="text-sm text-slate-400">{nutrition.total.calories} cal total</span>
+        </div>
+        <div className="divide-y divide-slate-800/50">
+          {recipe.ingredients.map((ingredient) => {
+            const macros = calculateFoodMacros(ingredient.food, ingredient.grams)
+            return (
+              <div key={ingredient.id} className="px-4 py-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">{ingredient.food.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {macros.protein_g}g P • {macros.carbs_g}g C • {macros.fat_g}g F
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="text-sm text-white">{ingredient.grams}g</p>
+                  <p className="text-xs text-slate-400">{macros.calories} cal</p>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      </div>
+    </div>
+  )
+}
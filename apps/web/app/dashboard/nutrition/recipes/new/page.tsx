@@ -0,0 +1,32 @@
+/**
+ * New Recipe Page
+ *
+ * Wraps the recipe builder (see ../RecipeBuilder).
+ */
+
+import Link from 'next/link'
+import { RecipeBuilder } from '../RecipeBuilder'
+
+export default function NewRecipePage() {
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/dashboard/nutrition/recipes"
+          className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+        >
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-white">New Recipe</h1>
+          <p className="text-slate-400 text-sm">Cook once, log it all week</p>
+        </div>
+      </div>
+
+      <RecipeBuilder />
+    </div>
+  )
+}
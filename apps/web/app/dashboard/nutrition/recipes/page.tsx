@@ -0,0 +1,82 @@
+/**
+ * Recipes Page
+ *
+ * The user's recipes with per-serving macros.
+ * Server component - fetches data directly from Supabase.
+ */
+
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { calculateRecipeNutrition, getRecipes } from '@/lib/recipes'
+
+export default async function RecipesPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const recipes = await getRecipes(supabase, user!.id)
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/nutrition"
+            className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+          >
+            <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Recipes</h1>
+            <p className="text-slate-400 text-sm">Batch cooking, logged by the portion</p>
+          </div>
+        </div>
+        <Link
+          href="/dashboard/nutrition/recipes/new"
+          className="px-4 py-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm font-semibold text-slate-950 hover:from-emerald-400 hover:to-cyan-400 transition-all"
+        >
+          New Recipe
+        </Link>
+      </div>
+
+      {recipes.length === 0 ? (
+        <div className="text-center py-12 rounded-xl bg-slate-900/50 border border-slate-800/50">
+          <h3 className="text-base font-medium text-white mb-1">No recipes yet</h3>
+          <p className="text-slate-400 text-sm">
+            Add the ingredients once, then log servings all week.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {recipes.map((recipe) => {
+            const { per_serving } = calculateRecipeNutrition(recipe)
+            return (
+              <Link
+                key={recipe.id}
+                href={`/dashboard/nutrition/recipes/${recipe.id}`}
+                className="flex items-center justify-between p-4 rounded-xl bg-slate-900/50 border border-slate-800/50 hover:bg-slate-800/50 transition-colors"
+              >
+                <div>
+                  <p className="font-medium text-white">{recipe.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {recipe.ingredients.length} ingredient{recipe.ingredients.length === 1 ? '' : 's'}
+                    {' • '}
+                    {recipe.servings} serving{recipe.servings === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="text-right">
+                  <p className="text-sm font-medium text-white">{per_serving.calories} cal</p>
+                  <p className="text-xs text-slate-400">{per_serving.protein_g}g P / serving</p>
+                </div>
+              </Link>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
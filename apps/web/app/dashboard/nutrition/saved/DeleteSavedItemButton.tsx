@@ -0,0 +1,77 @@
+'use client'
+
+/**
+ * Delete Saved Item Button
+ *
+ * Removes a custom food or saved meal. Past food logs keep their
+ * name and macros - only the shortcut goes away.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { createClient } from '@/lib/supabase/client'
+
+type Props = {
+  table: 'custom_foods' | 'saved_meals'
+  id: string
+}
+
+export function DeleteSavedItemButton({ table, id }: Props) {
+  const [showConfirm, setShowConfirm] = useState(false)
+  const [deleting, setDeleting] = useState(false)
+
+  const router = useRouter()
+  const supabase = createClient()
+
+  const handleDelete = async () => {
+    setDeleting(true)
+
+    try {
+      const { error } = await supabase
+        .from(table)
+        .delete()
+        .eq('id', id)
+
+      if (error) throw error
+
+      router.refresh()
+    } catch (err) {
+      console.error('Failed to delete saved item:', err)
+      setDeleting(false)
+      setShowConfirm(false)
+    }
+  }
+
+  if (showConfirm) {
+    return (
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleDelete}
+          disabled={deleting}
+          className="px-3 py-1.5 text-sm bg-red-500/10 text-red-400 rounded-lg hover:bg-red-500/20 disabled:opacity-50 transition-colors"
+        >
+          {deleting ? '...' : 'Delete'}
+        </button>
+        <button
+          onClick={() => setShowConfirm(false)}
+          disabled={deleting}
+          className="px-3 py-1.5 text-sm bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    )
+  }
+
+  return (
+    <button
+      onClick={() => setShowConfirm(true)}
+      className="p-2 text-slate-400 hover:text-red-400 hover:bg-red-500/10 rounded-lg transition-colors"
+      title="Delete"
+    >
+      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+      </svg>
+    </button>
+  )
+}
@@ -0,0 +1,104 @@
+/**
+ * Saved Foods Page
+ *
+ * The user's custom foods and saved meals, most used first.
+ * Custom foods are added with "Save to my foods" on the log food page,
+ * meals with "Save as meal" on the nutrition page.
+ * Server component - fetches data directly from Supabase.
+ */
+
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { getSavedFoods, sumMacros } from '@/lib/savedFoods'
+import { DeleteSavedItemButton } from './DeleteSavedItemButton'
+
+export default async function SavedFoodsPage() {
+  const supabase = await createClient()
+
+  // Get current user
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { quickAdd, meals } = await getSavedFoods(supabase, user!.id)
+  const customFoods = quickAdd.filter(item => item.kind === 'custom')
+
+  return (
+    <div className="max-w-lg mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/dashboard/nutrition/new"
+          className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+        >
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-white">My Foods & Meals</h1>
+          <p className="text-slate-400 text-sm">Shortcuts for logging what you eat often</p>
+        </div>
+      </div>
+
+      {/* Saved Meals */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 overflow-hidden">
+        <div className="px-4 py-3 bg-slate-800/30 border-b border-slate-800/50">
+          <h2 className="font-medium text-white">Meals</h2>
+        </div>
+        {meals.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">
+            No saved meals yet - use &quot;Save as meal&quot; on today&apos;s meals.
+          </p>
+        ) : (
+          <div className="divide-y divide-slate-800/50">
+            {meals.map((meal) => {
+              const totals = sumMacros(meal.items)
+              return (
+                <div key={meal.id} className="px-4 py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-white">{meal.name}</p>
+                    <p className="text-xs text-slate-400 truncate">
+                      {meal.items.map(item => item.name).join(', ')}
+                    </p>
+                    <p className="text-xs text-slate-500">
+                      {totals.calories} cal • {totals.protein_g}g P
+                      {meal.uses > 0 && ` • logged ${meal.uses}x`}
+                    </p>
+                  </div>
+                  <DeleteSavedItemButton table="saved_meals" id={meal.id} />
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Custom Foods */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 overflow-hidden">
+        <div className="px-4 py-3 bg-slate-800/30 border-b border-slate-800/50">
+          <h2 className="font-medium text-white">Custom Foods</h2>
+        </div>
+        {customFoods.length === 0 ? (
+          <p className="p-4 text-sm text-slate-500">
+            No custom foods yet - tick &quot;Save to my foods&quot; when logging.
+          </p>
+        ) : (
+          <div className="divide-y divide-slate-800/50">
+            {customFoods.map(({ food, uses }) => (
+              <div key={food.id} className="px-4 py-3 flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-white">{food.name}</p>
+                  <p className="text-xs text-slate-400">
+                    {food.serving_label ? `${food.serving_label}: ` : ''}
+                    {food.calories} cal • {food.protein_g}g P • {food.carbs_g}g C • {food.fat_g}g F
+                    {uses > 0 && ` • logged ${uses}x`}
+                  </p>
+                </div>
+                <DeleteSavedItemButton table="custom_foods" id={food.id} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
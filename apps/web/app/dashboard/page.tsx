@@ -17,6 +17,11 @@ import { createClient } from '@/lib/supabase/server'
 import Link from 'next/link'
 import { AICoach } from './components/AICoach'
 import { TodaysWorkout } from './components/TodaysWorkout'
+import { WeeklyVolume } from './components/WeeklyVolume'
+import { calculateVolume, formatRecord, type RecordType } from '@/lib/analytics'
+import { getSplitMuscleGroups, getWeekStart, getWeeklyVolume } from '@/lib/weeklyVolume'
+import { calculateNutritionTargets } from '@/lib/nutritionTargets'
+import { ProgressRing } from './components/ProgressRing'
 
 export default async function DashboardPage() {
   const supabase = await createClient()
@@ -32,11 +37,7 @@ export default async function DashboardPage() {
     .single()
 
   // Calculate start of current week (Monday)
-  const now = new Date()
-  const dayOfWeek = now.getDay()
-  const startOfWeek = new Date(now)
-  startOfWeek.setDate(now.getDate() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1))
-  startOfWeek.setHours(0, 0, 0, 0)
+  const startOfWeek = getWeekStart()
 
   // Get start and end of today
   const today = new Date()
@@ -62,10 +63,7 @@ export default async function DashboardPage() {
   // Calculate workout stats
   const workoutsThisWeek = weekWorkouts?.length || 0
   const totalVolumeThisWeek = weekWorkouts?.reduce((total, session) => {
-    const sessionVolume = session.workout_sets?.reduce((sum: number, set: { reps: number; weight_kg: number | null }) => {
-      return sum + (set.reps * (set.weight_kg || 0))
-    }, 0) || 0
-    return total + sessionVolume
+    return total + calculateVolume(session.workout_sets || [])
   }, 0) || 0
 
   // Fetch today's food logs
@@ -79,6 +77,7 @@ export default async function DashboardPage() {
   // Calculate nutrition stats
   const todayCalories = todayFood?.reduce((sum, log) => sum + (log.calories || 0), 0) || 0
   const todayProtein = todayFood?.reduce((sum, log) => sum + (log.protein_g || 0), 0) || 0
+  const targets = profile ? calculateNutritionTargets(profile) : null
 
   // Get recent workouts for display
   const { data: recentWorkouts } = await supabase
@@ -95,6 +94,32 @@ export default async function DashboardPage() {
     .order('started_at', { ascending: false })
     .limit(3)
 
+  // Get latest personal records
+  const { data: recentRecords } = await supabase
+    .from('personal_records')
+    .select(`
+      id,
+      session_id,
+      record_type,
+      value,
+      weight_kg,
+      reps,
+      achieved_at,
+      exercise:exercises (
+        name
+      )
+    `)
+    .eq('user_id', user!.id)
+    .order('achieved_at', { ascending: false })
+    .limit(5)
+
+  // Hard sets per muscle group this week, tracking every group in the user's split
+  const weeklyVolume = await getWeeklyVolume(supabase, user!.id, {
+    since: startOfWeek,
+    overrides: profile?.volume_targets,
+    trackedGroups: await getSplitMuscleGroups(supabase, user!.id),
+  })
+
   return (
     <div className="space-y-8">
       {/* Welcome Header */}
@@ -142,13 +167,16 @@ export default async function DashboardPage() {
         {/* Calories Today */}
         <Link href="/dashboard/nutrition" className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-5 hover:bg-slate-800/50 transition-colors">
           <div className="flex items-center gap-4">
-            <div className="flex h-11 w-11 items-center justify-center rounded-xl bg-violet-500/10">
+            <ProgressRing value={todayCalories} target={targets?.calories} color="violet" size={44}>
               <svg className="w-5 h-5 text-violet-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M17.657 18.657A8 8 0 016.343 7.343S7 9 9 10c0-2 .5-5 2.986-7C14 5 16.09 5.777 17.656 7.343A7.975 7.975 0 0120 13a7.975 7.975 0 01-2.343 5.657z" />
               </svg>
-            </div>
+            </ProgressRing>
             <div>
-              <p className="text-2xl font-bold text-white">{todayCalories || '--'}</p>
+              <p className="text-2xl font-bold text-white">
+                {todayCalories || '--'}
+                {targets && <span className="text-sm font-normal text-slate-500"> / {targets.calories.toLocaleString()}</span>}
+              </p>
               <p className="text-sm text-slate-400">Calories today</p>
             </div>
           </div>
@@ -157,13 +185,16 @@ export default async function DashboardPage() {
         {/* Protein Today */}
         <Link href="/dashboard/nutrition" className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-5 hover:bg-slate-800/50 transition-colors">
           <div className="flex items-center gap-4">
-            <div className="flex h-11 w-11 items-center justify-center rounded-xl bg-amber-500/10">
+            <ProgressRing value={todayProtein} target={targets?.protein_g} color="amber" size={44}>
               <svg className="w-5 h-5 text-amber-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M20 7l-8-4-8 4m16 0l-8 4m8-4v10l-8 4m0-10L4 7m8 4v10M4 7v10l8 4" />
               </svg>
-            </div>
+            </ProgressRing>
             <div>
-              <p className="text-2xl font-bold text-white">{todayProtein ? `${Math.round(todayProtein)}g` : '--'}</p>
+              <p className="text-2xl font-bold text-white">
+                {todayProtein ? `${Math.round(todayProtein)}g` : '--'}
+                {targets && <span className="text-sm font-normal text-slate-500"> / {targets.protein_g}g</span>}
+              </p>
               <p className="text-sm text-slate-400">Protein today</p>
             </div>
           </div>
@@ -173,6 +204,40 @@ export default async function DashboardPage() {
       {/* Today's Workout */}
       <TodaysWorkout />
 
+      {/* Weekly Volume */}
+      <WeeklyVolume volume={weeklyVolume} />
+
+      {/* Recent Personal Records */}
+      {recentRecords && recentRecords.length > 0 && (
+        <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+          <h3 className="text-lg font-semibold text-white mb-4">🏆 Recent PRs</h3>
+          <div className="space-y-2">
+            {recentRecords.map((record) => {
+              const exercise = Array.isArray(record.exercise) ? record.exercise[0] : record.exercise
+              const formattedDate = new Date(record.achieved_at).toLocaleDateString('en-US', {
+                month: 'short',
+                day: 'numeric',
+              })
+              return (
+                <Link
+                  key={record.id}
+                  href={`/dashboard/workouts/${record.session_id}`}
+                  className="flex items-center justify-between p-3 rounded-xl bg-slate-800/30 hover:bg-slate-800/50 transition-colors"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-white">{exercise?.name || 'Exercise'}</p>
+                    <p className="text-xs text-amber-400">
+                      {formatRecord({ ...record, record_type: record.record_type as RecordType })}
+                    </p>
+                  </div>
+                  <span className="text-xs text-slate-400">{formattedDate}</span>
+                </Link>
+              )
+            })}
+          </div>
+        </div>
+      )}
+
       {/* Quick Actions + Recent Workouts */}
       <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
         {/* Quick Actions */}
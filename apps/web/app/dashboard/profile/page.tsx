@@ -10,6 +10,48 @@
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { PROGRESSION_MODELS, DEFAULT_PROGRESSION_MODEL, type ProgressionModel } from '@/lib/progression'
+import { ONE_REP_MAX_FORMULAS, DEFAULT_ONE_REP_MAX_FORMULA, type OneRepMaxFormula } from '@/lib/analytics'
+import { MUSCLE_GROUPS, DEFAULT_VOLUME_TARGET, type VolumeTarget, type VolumeTargets } from '@/lib/weeklyVolume'
+import {
+  RESCHEDULE_POLICIES,
+  DEFAULT_RESCHEDULE_POLICY,
+  DEFAULT_DROP_AFTER_DAYS,
+  type ReschedulePolicy,
+} from '@/lib/reschedule'
+import {
+  EQUIPMENT,
+  formatEquipment,
+  getEquipmentProfiles,
+  type Equipment,
+  type EquipmentProfile,
+} from '@/lib/equipment'
+import {
+  BODY_AREAS,
+  SEVERITIES,
+  getBodyAreaLabel,
+  isLimitationActive,
+  type Limitation,
+} from '@/lib/limitations'
+import { getTodayKey } from '@/lib/schedule'
+import {
+  ACTIVITY_LEVELS,
+  BMR_FORMULAS,
+  DEFAULT_BMR_FORMULA,
+  SEX_OPTIONS,
+  calculateAge,
+  estimateEnergy,
+  getBMRFormulaLabel,
+  type BMRFormula,
+  type Sex,
+} from '@/lib/energy'
+import {
+  NUTRITION_TARGET_FIELDS,
+  calculateNutritionTargets,
+  cleanNutritionOverrides,
+  type NutritionTargetKey,
+  type NutritionTargetOverrides,
+} from '@/lib/nutritionTargets'
 
 type Profile = {
   id: string
@@ -19,7 +61,17 @@ type Profile = {
   height_cm: number | null
   weight_kg: number | null
   date_of_birth: string | null
-  gender: string | null
+  gender: Sex | null
+  body_fat_pct: number | null
+  bmr_formula: BMRFormula | null
+  progression_model: ProgressionModel | null
+  one_rep_max_formula: OneRepMaxFormula | null
+  volume_targets: VolumeTargets | null
+  reschedule_policy: ReschedulePolicy | null
+  reschedule_drop_days: number | null
+  equipment_profiles: EquipmentProfile[] | null
+  limitations: Limitation[] | null
+  nutrition_targets: NutritionTargetOverrides | null
 }
 
 const fitnessGoals = [
@@ -29,13 +81,6 @@ const fitnessGoals = [
   { value: 'get_stronger', label: 'Get Stronger', icon: '🏋️' },
 ]
 
-const activityLevels = [
-  { value: 'sedentary', label: 'Sedentary', multiplier: 1.2 },
-  { value: 'lightly_active', label: 'Lightly Active', multiplier: 1.375 },
-  { value: 'active', label: 'Active', multiplier: 1.55 },
-  { value: 'very_active', label: 'Very Active', multiplier: 1.725 },
-]
-
 export default function ProfilePage() {
   const [profile, setProfile] = useState<Profile | null>(null)
   const [loading, setLoading] = useState(true)
@@ -51,6 +96,18 @@ export default function ProfilePage() {
   const [heightCm, setHeightCm] = useState<number | ''>('')
   const [weightKg, setWeightKg] = useState<number | ''>('')
   const [dateOfBirth, setDateOfBirth] = useState('')
+  const [sex, setSex] = useState<Sex | ''>('')
+  const [bodyFatPct, setBodyFatPct] = useState<number | ''>('')
+  const [bmrFormula, setBmrFormula] = useState<BMRFormula>(DEFAULT_BMR_FORMULA)
+  const [progressionModel, setProgressionModel] = useState<ProgressionModel>(DEFAULT_PROGRESSION_MODEL)
+  const [oneRepMaxFormula, setOneRepMaxFormula] = useState<OneRepMaxFormula>(DEFAULT_ONE_REP_MAX_FORMULA)
+  const [volumeTargets, setVolumeTargets] = useState<VolumeTargets>({})
+  const [reschedulePolicy, setReschedulePolicy] = useState<ReschedulePolicy>(DEFAULT_RESCHEDULE_POLICY)
+  const [rescheduleDropDays, setRescheduleDropDays] = useState<number>(DEFAULT_DROP_AFTER_DAYS)
+  const [equipmentProfiles, setEquipmentProfiles] = useState<EquipmentProfile[]>(getEquipmentProfiles(null))
+  const [limitations, setLimitations] = useState<Limitation[]>([])
+  // Blank = use the calculated target
+  const [nutritionOverrides, setNutritionOverrides] = useState<Partial<Record<NutritionTargetKey, number | ''>>>({})
   
   const router = useRouter()
   const supabase = createClient()
@@ -78,6 +135,17 @@ export default function ProfilePage() {
         setHeightCm(data.height_cm || '')
         setWeightKg(data.weight_kg || '')
         setDateOfBirth(data.date_of_birth || '')
+        setSex(data.gender || '')
+        setBodyFatPct(data.body_fat_pct || '')
+        setBmrFormula(data.bmr_formula || DEFAULT_BMR_FORMULA)
+        setProgressionModel(data.progression_model || DEFAULT_PROGRESSION_MODEL)
+        setOneRepMaxFormula(data.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA)
+        setVolumeTargets(data.volume_targets || {})
+        setReschedulePolicy(data.reschedule_policy || DEFAULT_RESCHEDULE_POLICY)
+        setRescheduleDropDays(data.reschedule_drop_days || DEFAULT_DROP_AFTER_DAYS)
+        setEquipmentProfiles(getEquipmentProfiles(data.equipment_profiles))
+        setLimitations(data.limitations || [])
+        setNutritionOverrides(data.nutrition_targets || {})
       }
       setLoading(false)
     }
@@ -85,45 +153,89 @@ export default function ProfilePage() {
     fetchProfile()
   }, [supabase])
 
-  // Calculate age from DOB (handles timezone correctly)
-  const calculateAge = (dob: string | null): number | null => {
-    if (!dob) return null
-    // Parse YYYY-MM-DD without timezone issues
-    const [year, month, day] = dob.split('-').map(Number)
-    const birthDate = new Date(year, month - 1, day) // month is 0-indexed
-    const today = new Date()
-    let age = today.getFullYear() - birthDate.getFullYear()
-    const monthDiff = today.getMonth() - birthDate.getMonth()
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-      age--
-    }
-    return age
+  // Update one end of a muscle group's weekly set range
+  const updateVolumeTarget = (muscleGroup: string, field: keyof VolumeTarget, value: number) => {
+    setVolumeTargets(prev => {
+      const updated = { ...(prev[muscleGroup] || DEFAULT_VOLUME_TARGET), [field]: value }
+      const next = { ...prev }
+      // Only store groups that differ from the default
+      if (updated.min === DEFAULT_VOLUME_TARGET.min && updated.max === DEFAULT_VOLUME_TARGET.max) {
+        delete next[muscleGroup]
+      } else {
+        next[muscleGroup] = updated
+      }
+      return next
+    })
+  }
+
+  const updateEquipmentProfile = (id: string, changes: Partial<EquipmentProfile>) => {
+    setEquipmentProfiles(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p))
+  }
+
+  const toggleEquipment = (profileId: string, item: Equipment) => {
+    setEquipmentProfiles(prev => prev.map(p => {
+      if (p.id !== profileId) return p
+      const equipment = p.equipment.includes(item)
+        ? p.equipment.filter(e => e !== item)
+        : [...p.equipment, item]
+      return { ...p, equipment }
+    }))
+  }
+
+  const addEquipmentProfile = () => {
+    setEquipmentProfiles(prev => [
+      ...prev,
+      { id: crypto.randomUUID(), name: '', equipment: ['bodyweight'] },
+    ])
   }
 
-  // Calculate BMR using Mifflin-St Jeor equation
-  const calculateBMR = (): number | null => {
-    if (!profile?.weight_kg || !profile?.height_cm || !profile?.date_of_birth) return null
-    const age = calculateAge(profile.date_of_birth)
-    if (!age) return null
-    
-    // Using male formula as default (can add gender later)
-    // BMR = (10 × weight in kg) + (6.25 × height in cm) - (5 × age) + 5
-    const bmr = (10 * profile.weight_kg) + (6.25 * profile.height_cm) - (5 * age) + 5
-    return Math.round(bmr)
+  const updateLimitation = (id: string, changes: Partial<Limitation>) => {
+    setLimitations(prev => prev.map(l => l.id === id ? { ...l, ...changes } : l))
   }
 
-  // Calculate TDEE
-  const calculateTDEE = (): number | null => {
-    const bmr = calculateBMR()
-    if (!bmr || !profile?.activity_level) return null
-    
-    const activity = activityLevels.find(a => a.value === profile.activity_level)
-    if (!activity) return null
-    
-    return Math.round(bmr * activity.multiplier)
+  const addLimitation = () => {
+    setLimitations(prev => [
+      ...prev,
+      {
+        id: crypto.randomUUID(),
+        body_area: 'shoulder',
+        severity: 'moderate',
+        avoid: [],
+        start_date: getTodayKey(),
+        end_date: null,
+      },
+    ])
   }
 
   const handleSave = async () => {
+    const invalidTarget = Object.entries(volumeTargets).find(([, target]) => target.min > target.max)
+    if (invalidTarget) {
+      setError(`Minimum sets can't exceed maximum for ${invalidTarget[0]}`)
+      return
+    }
+
+    if (equipmentProfiles.some(p => !p.name.trim())) {
+      setError('Every equipment profile needs a name')
+      return
+    }
+    const emptyProfile = equipmentProfiles.find(p => p.equipment.length === 0)
+    if (emptyProfile) {
+      setError(`Pick at least one piece of equipment for ${emptyProfile.name}`)
+      return
+    }
+
+    const invalidLimitation = limitations.find(l => !l.start_date || (l.end_date && l.end_date < l.start_date))
+    if (invalidLimitation) {
+      setError(`Check the dates for your ${getBodyAreaLabel(invalidLimitation.body_area).toLowerCase()} limitation`)
+      return
+    }
+    // Movements are edited as free text - tidy them up before saving
+    const cleanedLimitations = limitations.map(l => ({
+      ...l,
+      avoid: l.avoid.map(movement => movement.trim()).filter(Boolean),
+      notes: l.notes?.trim() || undefined,
+    }))
+
     setSaving(true)
     setError(null)
     setSuccess(false)
@@ -141,11 +253,31 @@ export default function ProfilePage() {
           height_cm: heightCm || null,
           weight_kg: weightKg || null,
           date_of_birth: dateOfBirth || null,
+          gender: sex || null,
+          body_fat_pct: bodyFatPct || null,
+          bmr_formula: bmrFormula,
+          progression_model: progressionModel,
+          one_rep_max_formula: oneRepMaxFormula,
+          volume_targets: volumeTargets,
+          reschedule_policy: reschedulePolicy,
+          reschedule_drop_days: rescheduleDropDays,
+          equipment_profiles: equipmentProfiles,
+          limitations: cleanedLimitations,
+          nutrition_targets: cleanNutritionOverrides(nutritionOverrides),
         })
         .eq('id', user.id)
 
       if (updateError) throw updateError
 
+      // Keep a weigh-in history for the bodyweight trend in weekly reports
+      if (weightKg && Number(weightKg) !== profile?.weight_kg) {
+        const { error: weightError } = await supabase
+          .from('weight_logs')
+          .insert({ user_id: user.id, weight_kg: Number(weightKg), logged_at: new Date().toISOString() })
+
+        if (weightError) console.error('Failed to log weight:', weightError)
+      }
+
       // Update local state
       setProfile(prev => prev ? {
         ...prev,
@@ -155,8 +287,20 @@ export default function ProfilePage() {
         height_cm: heightCm ? Number(heightCm) : null,
         weight_kg: weightKg ? Number(weightKg) : null,
         date_of_birth: dateOfBirth || null,
+        gender: sex || null,
+        body_fat_pct: bodyFatPct ? Number(bodyFatPct) : null,
+        bmr_formula: bmrFormula,
+        progression_model: progressionModel,
+        one_rep_max_formula: oneRepMaxFormula,
+        volume_targets: volumeTargets,
+        reschedule_policy: reschedulePolicy,
+        reschedule_drop_days: rescheduleDropDays,
+        equipment_profiles: equipmentProfiles,
+        limitations: cleanedLimitations,
+        nutrition_targets: cleanNutritionOverrides(nutritionOverrides),
       } : null)
 
+      setLimitations(cleanedLimitations)
       setSuccess(true)
       setEditing(false)
       router.refresh()
@@ -179,13 +323,27 @@ export default function ProfilePage() {
       setHeightCm(profile.height_cm || '')
       setWeightKg(profile.weight_kg || '')
       setDateOfBirth(profile.date_of_birth || '')
+      setSex(profile.gender || '')
+      setBodyFatPct(profile.body_fat_pct || '')
+      setBmrFormula(profile.bmr_formula || DEFAULT_BMR_FORMULA)
+      setProgressionModel(profile.progression_model || DEFAULT_PROGRESSION_MODEL)
+      setOneRepMaxFormula(profile.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA)
+      setVolumeTargets(profile.volume_targets || {})
+      setReschedulePolicy(profile.reschedule_policy || DEFAULT_RESCHEDULE_POLICY)
+      setRescheduleDropDays(profile.reschedule_drop_days || DEFAULT_DROP_AFTER_DAYS)
+      setEquipmentProfiles(getEquipmentProfiles(profile.equipment_profiles))
+      setLimitations(profile.limitations || [])
+      setNutritionOverrides(profile.nutrition_targets || {})
     }
     setEditing(false)
     setError(null)
   }
 
-  const bmr = calculateBMR()
-  const tdee = calculateTDEE()
+  const energy = profile ? estimateEnergy(profile) : null
+  const tdee = energy?.tdee ?? null
+  const targets = profile ? calculateNutritionTargets(profile) : null
+  // What the targets would be without overrides - shown as input placeholders
+  const calculatedTargets = profile ? calculateNutritionTargets({ ...profile, nutrition_targets: null }) : null
   const age = calculateAge(profile?.date_of_birth || null)
 
   if (loading) {
@@ -229,15 +387,15 @@ export default function ProfilePage() {
       )}
 
       {/* Stats Cards */}
-      {(bmr || tdee) && (
+      {energy && (
         <div className="grid grid-cols-2 gap-4">
-          {bmr && (
-            <div className="p-4 rounded-xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20">
-              <p className="text-sm text-slate-400">BMR</p>
-              <p className="text-2xl font-bold text-white">{bmr}</p>
-              <p className="text-xs text-slate-500">calories/day at rest</p>
-            </div>
-          )}
+          <div className="p-4 rounded-xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20">
+            <p className="text-sm text-slate-400">BMR</p>
+            <p className="text-2xl font-bold text-white">{energy.bmr}</p>
+            <p className="text-xs text-slate-500">
+              calories/day at rest · {getBMRFormulaLabel(energy.formula)}
+            </p>
+          </div>
           {tdee && (
             <div className="p-4 rounded-xl bg-gradient-to-br from-violet-500/10 to-purple-500/10 border border-violet-500/20">
               <p className="text-sm text-slate-400">TDEE</p>
@@ -304,7 +462,7 @@ export default function ProfilePage() {
               className="w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
             >
               <option value="">Select...</option>
-              {activityLevels.map((level) => (
+              {ACTIVITY_LEVELS.map((level) => (
                 <option key={level.value} value={level.value}>
                   {level.label}
                 </option>
@@ -312,7 +470,7 @@ export default function ProfilePage() {
             </select>
           ) : (
             <p className="text-white font-medium">
-              {activityLevels.find(l => l.value === profile?.activity_level)?.label || '—'}
+              {ACTIVITY_LEVELS.find(l => l.value === profile?.activity_level)?.label || '—'}
             </p>
           )}
         </div>
@@ -379,6 +537,453 @@ export default function ProfilePage() {
             </p>
           )}
         </div>
+
+        {/* Sex */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Sex</label>
+          {editing ? (
+            <div className="grid grid-cols-3 gap-2">
+              {SEX_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  onClick={() => setSex(option.value)}
+                  className={`p-3 rounded-lg border text-sm text-white transition-all ${
+                    sex === option.value
+                      ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white font-medium">
+              {SEX_OPTIONS.find(o => o.value === profile?.gender)?.label || '—'}
+            </p>
+          )}
+        </div>
+
+        {/* Body Fat */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Body Fat (optional)</label>
+          {editing ? (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min="3"
+                max="60"
+                step="0.1"
+                value={bodyFatPct}
+                onChange={(e) => setBodyFatPct(e.target.value ? Number(e.target.value) : '')}
+                className="w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+              />
+              <span className="text-slate-400 text-sm">%</span>
+            </div>
+          ) : (
+            <p className="text-white font-medium">{profile?.body_fat_pct ? `${profile.body_fat_pct}%` : '—'}</p>
+          )}
+        </div>
+
+        {/* BMR Formula */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">BMR Formula</label>
+          {editing ? (
+            <div className="space-y-2">
+              {BMR_FORMULAS.map((formula) => (
+                <button
+                  key={formula.value}
+                  type="button"
+                  onClick={() => setBmrFormula(formula.value)}
+                  className={`w-full p-3 rounded-lg border text-left transition-all ${
+                    bmrFormula === formula.value
+                      ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                  }`}
+                >
+                  <p className="text-sm text-white">{formula.label}</p>
+                  <p className="text-xs text-slate-400">{formula.description}</p>
+                </button>
+              ))}
+              {bmrFormula === 'katch_mcardle' && !bodyFatPct && (
+                <p className="text-xs text-amber-400">
+                  Add your body fat % to use Katch-McArdle - Mifflin-St Jeor is used until then.
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-white font-medium">
+              {getBMRFormulaLabel(profile?.bmr_formula || DEFAULT_BMR_FORMULA)}
+              {energy && energy.formula !== (profile?.bmr_formula || DEFAULT_BMR_FORMULA) && (
+                <span className="text-slate-400 font-normal"> · using {getBMRFormulaLabel(energy.formula)} (no body fat %)</span>
+              )}
+            </p>
+          )}
+        </div>
+
+        {/* Progression Model */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Progression Model</label>
+          {editing ? (
+            <div className="space-y-2">
+              {PROGRESSION_MODELS.map((model) => (
+                <button
+                  key={model.value}
+                  type="button"
+                  onClick={() => setProgressionModel(model.value)}
+                  className={`w-full p-3 rounded-lg border text-left transition-all ${
+                    progressionModel === model.value
+                      ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                  }`}
+                >
+                  <p className="text-sm text-white">{model.label}</p>
+                  <p className="text-xs text-slate-400">{model.description}</p>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white font-medium">
+              {PROGRESSION_MODELS.find(m => m.value === (profile?.progression_model || DEFAULT_PROGRESSION_MODEL))?.label}
+            </p>
+          )}
+        </div>
+
+        {/* 1RM Formula */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Estimated 1RM Formula</label>
+          {editing ? (
+            <div className="grid grid-cols-2 gap-2">
+              {ONE_REP_MAX_FORMULAS.map((formula) => (
+                <button
+                  key={formula.value}
+                  type="button"
+                  onClick={() => setOneRepMaxFormula(formula.value)}
+                  className={`p-3 rounded-lg border text-left transition-all ${
+                    oneRepMaxFormula === formula.value
+                      ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                  }`}
+                >
+                  <p className="text-sm text-white">{formula.label}</p>
+                  <p className="text-xs text-slate-400">{formula.description}</p>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white font-medium">
+              {ONE_REP_MAX_FORMULAS.find(f => f.value === (profile?.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA))?.label}
+            </p>
+          )}
+        </div>
+
+        {/* Missed Workouts */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Missed Workouts</label>
+          {editing ? (
+            <div className="space-y-2">
+              {RESCHEDULE_POLICIES.map((policy) => (
+                <button
+                  key={policy.value}
+                  type="button"
+                  onClick={() => setReschedulePolicy(policy.value)}
+                  className={`w-full p-3 rounded-lg border text-left transition-all ${
+                    reschedulePolicy === policy.value
+                      ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                      : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                  }`}
+                >
+                  <p className="text-sm text-white">{policy.label}</p>
+                  <p className="text-xs text-slate-400">{policy.description}</p>
+                </button>
+              ))}
+              {reschedulePolicy === 'drop_after_days' && (
+                <div className="flex items-center gap-2 pt-1">
+                  <span className="text-slate-400 text-sm">Drop after</span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={14}
+                    value={rescheduleDropDays}
+                    onChange={(e) => setRescheduleDropDays(Math.min(14, Math.max(1, Number(e.target.value) || 1)))}
+                    className="w-20 px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                  <span className="text-slate-400 text-sm">days</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-white font-medium">
+              {RESCHEDULE_POLICIES.find(p => p.value === (profile?.reschedule_policy || DEFAULT_RESCHEDULE_POLICY))?.label}
+              {profile?.reschedule_policy === 'drop_after_days' && (
+                <span className="text-slate-400 font-normal"> · {profile.reschedule_drop_days || DEFAULT_DROP_AFTER_DAYS} days</span>
+              )}
+            </p>
+          )}
+        </div>
+
+        {/* Nutrition Targets */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Daily Nutrition Targets</label>
+          {editing ? (
+            <div className="space-y-2">
+              <p className="text-xs text-slate-500">
+                Calculated from your TDEE and goal. Enter a number to set your own, or leave blank.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {NUTRITION_TARGET_FIELDS.map((field) => (
+                  <div key={field.key}>
+                    <span className="block text-xs text-slate-400 mb-1">{field.label} ({field.unit})</span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={nutritionOverrides[field.key] ?? ''}
+                      placeholder={calculatedTargets ? String(calculatedTargets[field.key]) : '—'}
+                      onChange={(e) => setNutritionOverrides(prev => ({
+                        ...prev,
+                        [field.key]: e.target.value ? Number(e.target.value) : '',
+                      }))}
+                      className="w-full px-3 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ) : targets ? (
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {NUTRITION_TARGET_FIELDS.map((field) => (
+                <div key={field.key}>
+                  <p className="text-white font-medium">
+                    {targets[field.key].toLocaleString()} {field.unit}
+                  </p>
+                  <p className="text-xs text-slate-500">
+                    {field.label}{targets.overridden.includes(field.key) ? ' · custom' : ''}
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-white font-medium">Add your height, weight, date of birth and activity level</p>
+          )}
+        </div>
+
+        {/* Weekly Volume Targets */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Weekly Volume Targets (hard sets)</label>
+          {editing ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-2">
+              {MUSCLE_GROUPS.map((muscle) => {
+                const target = volumeTargets[muscle] || DEFAULT_VOLUME_TARGET
+                return (
+                  <div key={muscle} className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-white capitalize">{muscle}</span>
+                    <div className="flex items-center gap-1.5">
+                      <input
+                        type="number"
+                        min="0"
+                        value={target.min}
+                        onChange={(e) => updateVolumeTarget(muscle, 'min', Number(e.target.value))}
+                        className="w-16 px-2 py-1 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      />
+                      <span className="text-slate-500">–</span>
+                      <input
+                        type="number"
+                        min="0"
+                        value={target.max}
+                        onChange={(e) => updateVolumeTarget(muscle, 'max', Number(e.target.value))}
+                        className="w-16 px-2 py-1 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-center text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                      />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          ) : (
+            <div className="text-white font-medium">
+              <p>Default: {DEFAULT_VOLUME_TARGET.min}–{DEFAULT_VOLUME_TARGET.max} sets/week</p>
+              {Object.entries(profile?.volume_targets || {}).map(([muscle, target]) => (
+                <p key={muscle} className="text-sm text-slate-300 capitalize">
+                  {muscle}: {target.min}–{target.max}
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Equipment Profiles */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Equipment Profiles</label>
+          {editing ? (
+            <div className="space-y-3">
+              {equipmentProfiles.map((equipmentProfile) => (
+                <div key={equipmentProfile.id} className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/50 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={equipmentProfile.name}
+                      onChange={(e) => updateEquipmentProfile(equipmentProfile.id, { name: e.target.value })}
+                      placeholder="e.g. Hotel gym"
+                      className="flex-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    />
+                    {equipmentProfiles.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setEquipmentProfiles(prev => prev.filter(p => p.id !== equipmentProfile.id))}
+                        className="px-2 py-1 text-sm text-slate-400 hover:text-red-400 transition-colors"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-1.5">
+                    {EQUIPMENT.map((item) => (
+                      <button
+                        key={item.value}
+                        type="button"
+                        onClick={() => toggleEquipment(equipmentProfile.id, item.value)}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                          equipmentProfile.equipment.includes(item.value)
+                            ? 'bg-emerald-500/20 text-emerald-400'
+                            : 'bg-slate-800/50 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {item.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addEquipmentProfile}
+                className="text-sm text-emerald-400 hover:text-emerald-300"
+              >
+                + Add profile
+              </button>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {getEquipmentProfiles(profile?.equipment_profiles).map((equipmentProfile) => (
+                <p key={equipmentProfile.id} className="text-white font-medium">
+                  {equipmentProfile.name}
+                  <span className="text-sm text-slate-400 font-normal"> · {formatEquipment(equipmentProfile.equipment)}</span>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Injuries & Limitations */}
+        <div className="p-4">
+          <label className="block text-sm text-slate-400 mb-1">Injuries & Limitations</label>
+          {editing ? (
+            <div className="space-y-3">
+              {limitations.map((limitation) => (
+                <div key={limitation.id} className="p-3 rounded-lg bg-slate-800/30 border border-slate-700/50 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <select
+                      value={limitation.body_area}
+                      onChange={(e) => updateLimitation(limitation.id, { body_area: e.target.value as Limitation['body_area'] })}
+                      className="flex-1 px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                    >
+                      {BODY_AREAS.map((area) => (
+                        <option key={area.value} value={area.value}>{area.label}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => setLimitations(prev => prev.filter(l => l.id !== limitation.id))}
+                      className="px-2 py-1 text-sm text-slate-400 hover:text-red-400 transition-colors"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                  <div className="grid grid-cols-3 gap-1.5">
+                    {SEVERITIES.map((severity) => (
+                      <button
+                        key={severity.value}
+                        type="button"
+                        onClick={() => updateLimitation(limitation.id, { severity: severity.value })}
+                        title={severity.description}
+                        className={`px-2.5 py-1 rounded-lg text-xs font-medium transition-colors ${
+                          limitation.severity === severity.value
+                            ? 'bg-emerald-500/20 text-emerald-400'
+                            : 'bg-slate-800/50 text-slate-400 hover:text-white'
+                        }`}
+                      >
+                        {severity.label}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-500">
+                    {SEVERITIES.find(s => s.value === limitation.severity)?.description}
+                  </p>
+                  <input
+                    type="text"
+                    value={limitation.avoid.join(',')}
+                    onChange={(e) => updateLimitation(limitation.id, { avoid: e.target.value.split(',') })}
+                    placeholder="Movements to avoid, e.g. overhead press, dips"
+                    className="w-full px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                  <input
+                    type="text"
+                    value={limitation.notes || ''}
+                    onChange={(e) => updateLimitation(limitation.id, { notes: e.target.value })}
+                    placeholder="Notes (optional)"
+                    className="w-full px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <span className="text-xs text-slate-400">From</span>
+                      <input
+                        type="date"
+                        value={limitation.start_date}
+                        onChange={(e) => updateLimitation(limitation.id, { start_date: e.target.value })}
+                        className="w-full px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 [color-scheme:dark]"
+                      />
+                    </div>
+                    <div>
+                      <span className="text-xs text-slate-400">Until (optional)</span>
+                      <input
+                        type="date"
+                        value={limitation.end_date || ''}
+                        onChange={(e) => updateLimitation(limitation.id, { end_date: e.target.value || null })}
+                        className="w-full px-3 py-1.5 bg-slate-800/50 border border-slate-700/50 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500/50 [color-scheme:dark]"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={addLimitation}
+                className="text-sm text-emerald-400 hover:text-emerald-300"
+              >
+                + Add limitation
+              </button>
+            </div>
+          ) : (profile?.limitations || []).length > 0 ? (
+            <div className="space-y-1">
+              {(profile?.limitations || []).map((limitation) => {
+                const active = isLimitationActive(limitation, getTodayKey())
+                return (
+                  <p key={limitation.id} className={`font-medium ${active ? 'text-white' : 'text-slate-500'}`}>
+                    {getBodyAreaLabel(limitation.body_area)}
+                    <span className="text-sm text-slate-400 font-normal">
+                      {' '}· {limitation.severity}
+                      {limitation.avoid.length > 0 && ` · avoid ${limitation.avoid.join(', ')}`}
+                      {limitation.end_date ? ` · until ${limitation.end_date}` : ''}
+                      {!active && ' (inactive)'}
+                    </span>
+                  </p>
+                )
+              })}
+            </div>
+          ) : (
+            <p className="text-white font-medium">None</p>
+          )}
+        </div>
       </div>
 
       {/* Edit Actions */}
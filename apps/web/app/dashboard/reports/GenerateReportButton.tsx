@@ -0,0 +1,59 @@
+'use client'
+
+/**
+ * Generate Report Button
+ *
+ * Builds last week's report on demand (POST /api/reports/weekly) and
+ * opens it. Reports normally arrive with the Monday cron - this is for
+ * new users and for refreshing after logging late.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+
+type Props = {
+  label: string
+}
+
+export function GenerateReportButton({ label }: Props) {
+  const [generating, setGenerating] = useState(false)
+  const [error, setError] = useState<{ message: string; quota: boolean } | null>(null)
+  const router = useRouter()
+
+  const handleGenerate = async () => {
+    setGenerating(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/reports/weekly', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        setError({ message: data.error || 'Failed to generate report', quota: data.code === 'quota_exceeded' })
+        return
+      }
+
+      router.push(`/dashboard/reports/${data.report.id}`)
+      router.refresh()
+    } catch {
+      setError({ message: 'Failed to generate report', quota: false })
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-end gap-2">
+      <button
+        onClick={handleGenerate}
+        disabled={generating}
+        className="px-4 py-2 rounded-xl bg-gradient-to-r from-emerald-500 to-cyan-500 text-sm font-semibold text-slate-950 hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {generating ? 'Generating...' : label}
+      </button>
+      {error && (
+        <p className={`text-sm ${error.quota ? 'text-amber-300' : 'text-red-400'}`}>{error.message}</p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,31 @@
+'use client'
+
+/**
+ * Report Actions
+ *
+ * Export buttons for a weekly report: Markdown download and the
+ * browser's print dialog, which doubles as "Save as PDF".
+ */
+
+type Props = {
+  reportId: string
+}
+
+export function ReportActions({ reportId }: Props) {
+  return (
+    <div className="flex gap-2 print:hidden">
+      <a
+        href={`/api/reports/weekly/${reportId}/markdown`}
+        className="px-4 py-2 rounded-xl bg-slate-800/50 text-sm font-medium text-white hover:bg-slate-800 transition-colors"
+      >
+        Markdown
+      </a>
+      <button
+        onClick={() => window.print()}
+        className="px-4 py-2 rounded-xl bg-slate-800/50 text-sm font-medium text-white hover:bg-slate-800 transition-colors"
+      >
+        Print / PDF
+      </button>
+    </div>
+  )
+}
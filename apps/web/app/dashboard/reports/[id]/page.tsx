@@ -0,0 +1,194 @@
+/**
+ * Weekly Report Detail Page
+ *
+ * One stored weekly review: the coach's commentary, then sessions,
+ * volume per muscle group, PRs, nutrition and bodyweight.
+ * Prints cleanly (dark-on-white, no sidebar) for PDF export.
+ */
+
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { formatWeekRange, type WeeklyReport } from '@/lib/weeklyReport'
+import { ReportActions } from './ReportActions'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+const VOLUME_STATUS_COLORS = {
+  under: 'text-amber-400',
+  within: 'text-emerald-400',
+  over: 'text-cyan-400',
+}
+
+function StatCard({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
+      <p className="text-sm text-slate-400">{label}</p>
+      <p className="text-2xl font-bold text-white">{value}</p>
+      {detail && <p className="text-xs text-slate-500">{detail}</p>}
+    </div>
+  )
+}
+
+export default async function WeeklyReportPage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: report, error } = await supabase
+    .from('weekly_reports')
+    .select('*')
+    .eq('id', id)
+    .single()
+
+  if (error || !report) {
+    notFound()
+  }
+
+  const { data, commentary, week_start } = report as WeeklyReport
+  const { sessions, volume, records, nutrition, bodyweight } = data
+  const trainedGroups = volume.by_muscle_group.filter(group => group.hard_sets > 0 || group.status === 'under')
+
+  return (
+    <div className="print-report max-w-3xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Link
+            href="/dashboard/reports"
+            className="p-2 rounded-lg hover:bg-slate-800 transition-colors print:hidden"
+          >
+            <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+            </svg>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold text-white">Weekly Review</h1>
+            <p className="text-slate-400 text-sm">{formatWeekRange(week_start)}</p>
+          </div>
+        </div>
+        <ReportActions reportId={id} />
+      </div>
+
+      {/* Coach's Take */}
+      {commentary && (
+        <div className="rounded-2xl bg-gradient-to-br from-emerald-500/10 to-cyan-500/10 border border-emerald-500/20 p-6">
+          <h2 className="text-lg font-semibold text-white mb-2">Coach&apos;s Take</h2>
+          <p className="text-slate-300 leading-relaxed whitespace-pre-wrap">{commentary}</p>
+        </div>
+      )}
+
+      {/* Training */}
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <StatCard
+          label="Sessions"
+          value={sessions.planned > 0 ? `${sessions.completed}/${sessions.planned}` : `${sessions.logged}`}
+          detail={sessions.planned > 0
+            ? `${sessions.skipped} skipped, ${sessions.missed} missed`
+            : 'None planned'}
+        />
+        <StatCard label="Workouts logged" value={`${sessions.logged}`} />
+        <StatCard label="Total volume" value={`${volume.total_kg.toLocaleString('en-US')} kg`} />
+      </div>
+
+      {/* Volume by Muscle Group */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Volume by Muscle Group</h2>
+        {trainedGroups.length === 0 ? (
+          <p className="text-sm text-slate-500">No hard sets logged this week.</p>
+        ) : (
+          <div className="space-y-2">
+            {trainedGroups.map(group => (
+              <div key={group.muscle_group} className="flex items-center justify-between text-sm">
+                <span className="text-slate-300 capitalize">{group.muscle_group}</span>
+                <span className="text-slate-400">
+                  <span className={VOLUME_STATUS_COLORS[group.status]}>{group.hard_sets}</span>
+                  {' '}/ {group.target.min}–{group.target.max} sets
+                  {' · '}
+                  {Math.round(group.tonnage).toLocaleString('en-US')} kg
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Personal Records */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Personal Records</h2>
+        {records.length === 0 ? (
+          <p className="text-sm text-slate-500">No new records this week.</p>
+        ) : (
+          <ul className="space-y-2">
+            {records.map((record, index) => (
+              <li key={index} className="flex items-center justify-between text-sm">
+                <span className="text-white">🏆 {record.exercise}</span>
+                <span className="text-slate-400">
+                  {record.description}
+                  {' · '}
+                  {new Date(record.achieved_at).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Nutrition */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+        <h2 className="text-lg font-semibold text-white mb-4">Nutrition</h2>
+        {nutrition.days_logged === 0 ? (
+          <p className="text-sm text-slate-500">No food logged this week.</p>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+            <div>
+              <p className="text-2xl font-bold text-white">{nutrition.avg_calories.toLocaleString('en-US')}</p>
+              <p className="text-sm text-slate-400">
+                Avg calories{nutrition.calorie_target ? ` / ${nutrition.calorie_target.toLocaleString('en-US')}` : ''}
+              </p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-emerald-400">{nutrition.avg_protein_g}g</p>
+              <p className="text-sm text-slate-400">
+                Avg protein{nutrition.protein_target_g ? ` / ${nutrition.protein_target_g}g` : ''}
+              </p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-cyan-400">{nutrition.days_logged}/7</p>
+              <p className="text-sm text-slate-400">Days logged</p>
+            </div>
+            <div>
+              <p className="text-2xl font-bold text-amber-400">
+                {nutrition.calorie_target ? `${nutrition.days_on_target}/${nutrition.days_logged}` : '—'}
+              </p>
+              <p className="text-sm text-slate-400">Days on target</p>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Bodyweight */}
+      <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-6">
+        <h2 className="text-lg font-semibold text-white mb-2">Bodyweight</h2>
+        {bodyweight.end_kg === null ? (
+          <p className="text-sm text-slate-500">No bodyweight recorded.</p>
+        ) : (
+          <p className="text-slate-300">
+            <span className="text-2xl font-bold text-white">{bodyweight.end_kg} kg</span>
+            {bodyweight.change_kg !== null && bodyweight.weigh_ins > 0 && (
+              <span className="ml-2 text-sm text-slate-400">
+                {bodyweight.change_kg > 0 ? '+' : ''}{bodyweight.change_kg} kg this week
+                {' · '}
+                {bodyweight.weigh_ins} weigh-in{bodyweight.weigh_ins === 1 ? '' : 's'}
+              </span>
+            )}
+            {bodyweight.weigh_ins === 0 && (
+              <span className="ml-2 text-sm text-slate-400">No weigh-ins this week</span>
+            )}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+/**
+ * Weekly Reports Page
+ *
+ * Lists the user's stored weekly reviews, newest first.
+ * A new one is generated every Monday for the week before
+ * (see /api/reports/weekly/cron).
+ */
+
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { getRequestTimeZone } from '@/lib/timezone'
+import { formatWeekRange, getPreviousWeekStartKey, type WeeklyReportData } from '@/lib/weeklyReport'
+import { GenerateReportButton } from './GenerateReportButton'
+
+type ReportSummary = {
+  id: string
+  week_start: string
+  data: WeeklyReportData
+  commentary: string | null
+}
+
+export default async function ReportsPage() {
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const { data: reports, error } = await supabase
+    .from('weekly_reports')
+    .select('id, week_start, data, commentary')
+    .eq('user_id', user!.id)
+    .order('week_start', { ascending: false })
+    .limit(26)
+
+  const lastWeekKey = getPreviousWeekStartKey(await getRequestTimeZone())
+  const hasLastWeek = (reports || []).some(report => report.week_start === lastWeekKey)
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-white">Weekly Reports</h1>
+          <p className="mt-2 text-slate-400">
+            A review of each training week, ready every Monday morning.
+          </p>
+        </div>
+        <GenerateReportButton label={hasLastWeek ? 'Regenerate Last Week' : 'Generate Last Week'} />
+      </div>
+
+      {/* Error State */}
+      {error && (
+        <div className="p-4 rounded-xl bg-red-500/10 border border-red-500/20 text-red-400">
+          Error loading reports: {error.message}
+        </div>
+      )}
+
+      {!reports || reports.length === 0 ? (
+        <div className="rounded-2xl bg-slate-900/50 border border-slate-800/50 p-8 text-center">
+          <p className="text-white font-medium">No reports yet</p>
+          <p className="mt-1 text-sm text-slate-400">
+            Your first weekly review arrives next Monday - or generate last week&apos;s now.
+          </p>
+        </div>
+      ) : (
+        <ul className="space-y-3">
+          {(reports as ReportSummary[]).map(report => (
+            <li key={report.id}>
+              <Link
+                href={`/dashboard/reports/${report.id}`}
+                className="block rounded-2xl bg-slate-900/50 border border-slate-800/50 p-5 hover:border-emerald-500/30 transition-colors"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <p className="font-semibold text-white">{formatWeekRange(report.week_start)}</p>
+                  <p className="text-sm text-slate-400">
+                    {report.data.sessions.completed}/{report.data.sessions.planned} sessions
+                    {' · '}
+                    {report.data.volume.total_kg.toLocaleString('en-US')} kg
+                    {report.data.records.length > 0 && ` · ${report.data.records.length} PR${report.data.records.length === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                {report.commentary && (
+                  <p className="mt-2 text-sm text-slate-400 line-clamp-2">{report.commentary}</p>
+                )}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
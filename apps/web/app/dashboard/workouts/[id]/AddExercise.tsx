@@ -8,6 +8,7 @@
 
 import { useState, useEffect } from 'react'
 import { createClient } from '@/lib/supabase/client'
+import { detectSessionRecords } from '@/lib/analytics'
 import { useRouter } from 'next/navigation'
 
 interface Exercise {
@@ -83,6 +84,9 @@ export function AddExercise({ sessionId }: AddExerciseProps) {
 
       await supabase.from('workout_sets').insert(setsToInsert)
 
+      // Detect new personal records for this session
+      await detectSessionRecords(sessionId)
+
       // Reset and close
       setIsOpen(false)
       setSelectedExercise(null)
@@ -4,11 +4,21 @@
  * Editable Sets Component
  * 
  * Card-level editing - click edit on the card header to modify all sets at once.
+ * View mode shows each set's estimated 1RM and any personal records hit.
  */
 
 import { useState } from 'react'
 import { createClient } from '@/lib/supabase/client'
 import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import {
+  calculateVolume,
+  detectSessionRecords,
+  estimateOneRepMax,
+  formatRecord,
+  type OneRepMaxFormula,
+  type RecordType,
+} from '@/lib/analytics'
 
 interface Set {
   id: string
@@ -17,12 +27,22 @@ interface Set {
   weight_kg: number | null
 }
 
+interface ExerciseRecord {
+  id: string
+  record_type: RecordType
+  value: number
+  weight_kg: number | null
+  reps: number | null
+}
+
 interface EditableSetsProps {
   sessionId: string
   exerciseId: string
   exerciseName: string
   muscleGroup: string
   equipment: string | null
+  formula: OneRepMaxFormula
+  records: ExerciseRecord[]
   initialSets: Set[]
 }
 
@@ -32,6 +52,8 @@ export function EditableSets({
   exerciseName,
   muscleGroup,
   equipment,
+  formula,
+  records,
   initialSets,
 }: EditableSetsProps) {
   const [sets, setSets] = useState<Set[]>(initialSets)
@@ -43,7 +65,7 @@ export function EditableSets({
   const supabase = createClient()
   const router = useRouter()
 
-  const exerciseVolume = sets.reduce((sum, set) => sum + (set.reps * (set.weight_kg || 0)), 0)
+  const exerciseVolume = calculateVolume(sets)
 
   const startEditing = () => {
     setEditedSets([...sets])
@@ -124,6 +146,9 @@ export function EditableSets({
         }
       }
 
+      // Detect new personal records for this session
+      await detectSessionRecords(sessionId)
+
       setSets(editedSets.map((s, i) => ({ ...s, id: s.id.startsWith('new-') ? `saved-${i}` : s.id })))
       setIsEditing(false)
       router.refresh()
@@ -140,10 +165,29 @@ export function EditableSets({
       <div className={`px-4 py-3 ${isEditing ? 'bg-emerald-500/10' : 'bg-slate-800/30'} border-b ${isEditing ? 'border-emerald-500/20' : 'border-slate-800/50'}`}>
         <div className="flex items-center justify-between">
           <div>
-            <h3 className="font-medium text-white">{exerciseName}</h3>
+            <h3 className="font-medium text-white">
+              <Link
+                href={`/dashboard/exercises/${exerciseId}`}
+                className="hover:text-emerald-400 transition-colors"
+              >
+                {exerciseName}
+              </Link>
+            </h3>
             <p className="text-xs text-slate-400">
               {muscleGroup} {equipment && `• ${equipment}`}
             </p>
+            {records.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mt-1.5">
+                {records.map(record => (
+                  <span
+                    key={record.id}
+                    className="text-xs px-2 py-0.5 rounded bg-amber-500/20 text-amber-400 border border-amber-500/30"
+                  >
+                    🏆 {formatRecord(record)}
+                  </span>
+                ))}
+              </div>
+            )}
           </div>
           <div className="flex items-center gap-3">
             <div className="text-right">
@@ -246,16 +290,19 @@ export function EditableSets({
         ) : (
           // View Mode
           <>
-            <div className="grid grid-cols-3 gap-2 text-xs font-medium text-slate-400 mb-2 px-2">
+            <div className="grid grid-cols-4 gap-2 text-xs font-medium text-slate-400 mb-2 px-2">
               <div>SET</div>
               <div className="text-center">WEIGHT</div>
               <div className="text-center">REPS</div>
+              <div className="text-center">E1RM</div>
             </div>
             
             {sets
               .sort((a, b) => a.set_number - b.set_number)
-              .map((set) => (
-                <div key={set.id} className="grid grid-cols-3 gap-2 py-2 px-2 rounded-lg hover:bg-slate-800/30">
+              .map((set) => {
+                const estimate = estimateOneRepMax(set.weight_kg, set.reps, formula)
+                return (
+                <div key={set.id} className="grid grid-cols-4 gap-2 py-2 px-2 rounded-lg hover:bg-slate-800/30">
                   <div className="flex items-center">
                     <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-slate-800 text-slate-300 text-sm">
                       {set.set_number}
@@ -267,8 +314,12 @@ export function EditableSets({
                   <div className="text-center text-white">
                     {set.reps}
                   </div>
+                  <div className="text-center text-slate-400">
+                    {estimate ? `${estimate} kg` : '—'}
+                  </div>
                 </div>
-              ))}
+                )
+              })}
           </>
         )}
       </div>
@@ -1,7 +1,8 @@
 /**
  * Workout Detail Page
  * 
- * Shows the details of a specific workout session.
+ * Shows the details of a specific workout session,
+ * including estimated 1RMs and any personal records set.
  * Server component - fetches data directly from Supabase.
  */
 
@@ -11,11 +12,27 @@ import Link from 'next/link'
 import { DeleteWorkoutButton } from './DeleteWorkoutButton'
 import { EditableSets } from './EditableSets'
 import { AddExercise } from './AddExercise'
+import {
+  calculateVolume,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  type OneRepMaxFormula,
+  type RecordType,
+} from '@/lib/analytics'
 
 type Props = {
   params: Promise<{ id: string }>
 }
 
+type SessionSet = {
+  id: string
+  set_number: number
+  reps: number
+  weight_kg: number | null
+  rpe: number | null
+  notes: string | null
+  exercise: { id: string; name: string; muscle_group: string; equipment: string | null }
+}
+
 export default async function WorkoutDetailPage({ params }: Props) {
   const { id } = await params
   const supabase = await createClient()
@@ -47,10 +64,27 @@ export default async function WorkoutDetailPage({ params }: Props) {
     notFound()
   }
 
+  // Personal records set in this session
+  const { data: records } = await supabase
+    .from('personal_records')
+    .select('id, exercise_id, record_type, value, weight_kg, reps')
+    .eq('session_id', session.id)
+
+  // User's preferred 1RM formula
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('one_rep_max_formula')
+    .eq('id', session.user_id)
+    .maybeSingle()
+
+  const formula: OneRepMaxFormula = profile?.one_rep_max_formula || DEFAULT_ONE_REP_MAX_FORMULA
+
+  const workoutSets: SessionSet[] = session.workout_sets
+
   // Group sets by exercise
-  const exerciseGroups = session.workout_sets.reduce<Record<string, {
-    exercise: { id: string; name: string; muscle_group: string; equipment: string | null }
-    sets: typeof session.workout_sets
+  const exerciseGroups = workoutSets.reduce<Record<string, {
+    exercise: SessionSet['exercise']
+    sets: SessionSet[]
   }>>((acc, set) => {
     const exerciseId = set.exercise.id
     if (!acc[exerciseId]) {
@@ -64,9 +98,9 @@ export default async function WorkoutDetailPage({ params }: Props) {
   }, {})
 
   // Calculate stats
-  const totalSets = session.workout_sets.length
-  const totalReps = session.workout_sets.reduce((sum, set) => sum + set.reps, 0)
-  const totalVolume = session.workout_sets.reduce((sum, set) => sum + (set.reps * (set.weight_kg || 0)), 0)
+  const totalSets = workoutSets.length
+  const totalReps = workoutSets.reduce((sum, set) => sum + set.reps, 0)
+  const totalVolume = calculateVolume(workoutSets)
   const exerciseCount = Object.keys(exerciseGroups).length
 
   // Format dates
@@ -127,6 +161,15 @@ export default async function WorkoutDetailPage({ params }: Props) {
         </div>
       </div>
 
+      {/* Personal Records */}
+      {records && records.length > 0 && (
+        <div className="p-4 rounded-xl bg-amber-500/10 border border-amber-500/20">
+          <p className="text-sm font-medium text-amber-400">
+            🏆 {records.length} new personal record{records.length === 1 ? '' : 's'} this session
+          </p>
+        </div>
+      )}
+
       {/* Notes */}
       {session.notes && (
         <div className="p-4 rounded-xl bg-slate-900/50 border border-slate-800/50">
@@ -147,6 +190,10 @@ export default async function WorkoutDetailPage({ params }: Props) {
             exerciseName={exercise.name}
             muscleGroup={exercise.muscle_group}
             equipment={exercise.equipment}
+            formula={formula}
+            records={(records || [])
+              .filter(r => r.exercise_id === exercise.id)
+              .map(r => ({ ...r, record_type: r.record_type as RecordType }))}
             initialSets={sets.map(s => ({
               id: s.id,
               set_number: s.set_number,
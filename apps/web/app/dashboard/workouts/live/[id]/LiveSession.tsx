@@ -0,0 +1,452 @@
+'use client'
+
+/**
+ * Live Session Component
+ *
+ * Walks through the planned exercises one at a time.
+ * Every logged set is written to workout_sets immediately, and the
+ * workout_sessions row is linked to its planned_workouts row by id.
+ * Sets belong to a plan entry by its position (workout_sets.plan_entry), so
+ * an exercise planned twice keeps its entries' sets apart.
+ * Logging a set auto-starts the rest timer for that exercise.
+ */
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/client'
+import { detectSessionRecords } from '@/lib/analytics'
+import { formatPrescription, parseRepRange, type Prescription } from '@/lib/progression'
+import { RestTimer, startRestTimer } from './RestTimer'
+
+export interface LiveExercise {
+  name: string
+  sets: number
+  reps: string
+  rest_seconds: number
+  notes?: string
+  exercise_id?: string
+  prescription?: Prescription
+}
+
+export interface LoggedSet {
+  id: string
+  exercise_id: string
+  plan_entry: number | null
+  set_number: number
+  reps: number
+  weight_kg: number | null
+}
+
+interface LiveSessionProps {
+  plannedWorkoutId: string
+  workoutName: string
+  fallbackMuscleGroup: string
+  exercises: LiveExercise[]
+  initialSessionId: string | null
+  initialSets: LoggedSet[]
+}
+
+// Default inputs for an exercise: repeat the last logged set, else use the prescription
+function getDefaultInputs(exercise: LiveExercise | undefined, setsForExercise: LoggedSet[]) {
+  const lastSet = setsForExercise[setsForExercise.length - 1]
+  if (lastSet) {
+    return { weight: lastSet.weight_kg?.toString() ?? '', reps: lastSet.reps.toString() }
+  }
+  if (!exercise) return { weight: '', reps: '' }
+
+  return {
+    weight: exercise.prescription?.target_weight_kg?.toString() ?? '',
+    reps: (exercise.prescription?.target_reps ?? parseRepRange(exercise.reps).min).toString(),
+  }
+}
+
+export function LiveSession({
+  plannedWorkoutId,
+  workoutName,
+  fallbackMuscleGroup,
+  exercises,
+  initialSessionId,
+  initialSets,
+}: LiveSessionProps) {
+  const [sessionId, setSessionId] = useState<string | null>(initialSessionId)
+  const [loggedSets, setLoggedSets] = useState<LoggedSet[]>(initialSets)
+  const [exerciseIds, setExerciseIds] = useState<(string | undefined)[]>(exercises.map(e => e.exercise_id))
+  const [currentIndex, setCurrentIndex] = useState(0)
+  const [weight, setWeight] = useState(() => getDefaultInputs(exercises[0], initialSets.filter(s => s.plan_entry === 0)).weight)
+  const [reps, setReps] = useState(() => getDefaultInputs(exercises[0], initialSets.filter(s => s.plan_entry === 0)).reps)
+  const [saving, setSaving] = useState(false)
+  const [finishing, setFinishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const supabase = createClient()
+  const router = useRouter()
+
+  const currentExercise = exercises[currentIndex]
+  const setsFor = (index: number) =>
+    loggedSets.filter(s => s.plan_entry === index).sort((a, b) => a.set_number - b.set_number)
+  const currentSets = setsFor(currentIndex)
+
+  const goToExercise = (index: number) => {
+    if (index < 0 || index >= exercises.length) return
+    const defaults = getDefaultInputs(exercises[index], setsFor(index))
+    setCurrentIndex(index)
+    setWeight(defaults.weight)
+    setReps(defaults.reps)
+    setError(null)
+  }
+
+  // Create the workout_sessions row on the first logged set
+  const ensureSession = async (): Promise<string> => {
+    if (sessionId) return sessionId
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) throw new Error('Not authenticated')
+
+    // The plan may have been finished or skipped in another tab
+    const { data: plan } = await supabase
+      .from('planned_workouts')
+      .select('status')
+      .eq('id', plannedWorkoutId)
+      .single()
+
+    if (plan?.status === 'completed' || plan?.status === 'skipped') {
+      throw new Error(`This workout is already ${plan.status}`)
+    }
+
+    const { data: session, error: sessionError } = await supabase
+      .from('workout_sessions')
+      .insert({
+        user_id: user.id,
+        name: workoutName,
+        started_at: new Date().toISOString(),
+        planned_workout_id: plannedWorkoutId,
+      })
+      .select('id')
+      .single()
+
+    if (sessionError || !session) throw sessionError || new Error('Failed to start session')
+
+    setSessionId(session.id)
+    return session.id
+  }
+
+  // Planned exercises that don't exist in the database yet are created on first use
+  const ensureExerciseId = async (index: number): Promise<string> => {
+    const existingId = exerciseIds[index]
+    if (existingId) return existingId
+
+    const { data: newExercise, error: newExerciseError } = await supabase
+      .from('exercises')
+      .insert({
+        name: exercises[index].name,
+        muscle_group: fallbackMuscleGroup,
+        equipment: 'other',
+      })
+      .select('id')
+      .single()
+
+    if (newExerciseError || !newExercise) throw newExerciseError || new Error('Failed to create exercise')
+
+    setExerciseIds(prev => prev.map((id, i) => (i === index ? newExercise.id : id)))
+    return newExercise.id
+  }
+
+  const logSet = async () => {
+    const repsValue = parseInt(reps)
+    if (!repsValue || repsValue <= 0) {
+      setError('Enter the reps you completed')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const activeSessionId = await ensureSession()
+      const exerciseId = await ensureExerciseId(currentIndex)
+      // Numbered per exercise across the session, so an exercise planned twice doesn't repeat numbers
+      const setNumber = loggedSets.filter(s => s.exercise_id === exerciseId).length + 1
+
+      const { data: newSet, error: insertError } = await supabase
+        .from('workout_sets')
+        .insert({
+          session_id: activeSessionId,
+          exercise_id: exerciseId,
+          plan_entry: currentIndex,
+          set_number: setNumber,
+          reps: repsValue,
+          weight_kg: weight ? parseFloat(weight) : null,
+        })
+        .select('id, exercise_id, plan_entry, set_number, reps, weight_kg')
+        .single()
+
+      if (insertError || !newSet) throw insertError || new Error('Failed to log set')
+
+      setLoggedSets(prev => [...prev, newSet])
+      startRestTimer(currentExercise.rest_seconds, currentExercise.name)
+    } catch (err) {
+      console.error('Error logging set:', err)
+      setError(err instanceof Error ? err.message : 'Failed to log set')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const removeSet = async (set: LoggedSet) => {
+    try {
+      const { error: deleteError } = await supabase
+        .from('workout_sets')
+        .delete()
+        .eq('id', set.id)
+
+      if (deleteError) throw deleteError
+
+      // Renumber the sets that came after the removed one
+      const laterSets = loggedSets.filter(s => s.exercise_id === set.exercise_id && s.set_number > set.set_number)
+      for (const later of laterSets) {
+        await supabase
+          .from('workout_sets')
+          .update({ set_number: later.set_number - 1 })
+          .eq('id', later.id)
+      }
+
+      setLoggedSets(prev => prev
+        .filter(s => s.id !== set.id)
+        .map(s => (s.exercise_id === set.exercise_id && s.set_number > set.set_number
+          ? { ...s, set_number: s.set_number - 1 }
+          : s)))
+    } catch (err) {
+      console.error('Error removing set:', err)
+      setError('Failed to remove set')
+    }
+  }
+
+  const finishWorkout = async () => {
+    if (!sessionId || loggedSets.length === 0) {
+      setError('Log at least one set before finishing')
+      return
+    }
+
+    setFinishing(true)
+    setError(null)
+
+    try {
+      const completedAt = new Date().toISOString()
+
+      const { error: sessionError } = await supabase
+        .from('workout_sessions')
+        .update({ completed_at: completedAt })
+        .eq('id', sessionId)
+
+      if (sessionError) throw sessionError
+
+      const { error: planError } = await supabase
+        .from('planned_workouts')
+        .update({ status: 'completed', completed_at: completedAt })
+        .eq('id', plannedWorkoutId)
+
+      if (planError) throw planError
+
+      // Detect new personal records for this session
+      await detectSessionRecords(sessionId)
+
+      router.push(`/dashboard/workouts/${sessionId}`)
+      router.refresh()
+    } catch (err) {
+      console.error('Error finishing workout:', err)
+      setError(err instanceof Error ? err.message : 'Failed to finish workout')
+      setFinishing(false)
+    }
+  }
+
+  if (exercises.length === 0) {
+    return (
+      <div className="max-w-2xl mx-auto text-center py-16">
+        <h1 className="text-xl font-bold text-white mb-2">No exercises planned</h1>
+        <p className="text-slate-400 mb-6">Add exercises to today&apos;s plan before starting a session.</p>
+        <Link href="/dashboard" className="text-emerald-400 hover:text-emerald-300">
+          Back to Dashboard
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      {/* Header */}
+      <div className="flex items-center gap-4">
+        <Link
+          href="/dashboard"
+          className="p-2 rounded-lg hover:bg-slate-800 transition-colors"
+        >
+          <svg className="w-5 h-5 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+          </svg>
+        </Link>
+        <div>
+          <h1 className="text-2xl font-bold text-white">{workoutName}</h1>
+          <p className="text-slate-400 text-sm">
+            Exercise {currentIndex + 1} of {exercises.length} • {loggedSets.length} sets logged
+          </p>
+        </div>
+      </div>
+
+      {/* Exercise Progress */}
+      <div className="flex gap-1.5">
+        {exercises.map((exercise, i) => {
+          const done = setsFor(i).length >= exercise.sets
+          return (
+            <button
+              key={i}
+              onClick={() => goToExercise(i)}
+              title={exercise.name}
+              className={`h-2 flex-1 rounded-full transition-colors ${
+                i === currentIndex
+                  ? 'bg-gradient-to-r from-emerald-400 to-cyan-400'
+                  : done
+                  ? 'bg-emerald-500/50'
+                  : 'bg-slate-800 hover:bg-slate-700'
+              }`}
+            />
+          )
+        })}
+      </div>
+
+      {/* Rest Timer */}
+      <RestTimer />
+
+      {/* Current Exercise */}
+      <div className="rounded-xl bg-slate-900/50 border border-emerald-500/30 overflow-hidden">
+        <div className="px-4 py-3 bg-emerald-500/10 border-b border-emerald-500/20">
+          <div className="flex items-center justify-between">
+            <div className="min-w-0">
+              <h2 className="font-semibold text-white truncate">{currentExercise.name}</h2>
+              {currentExercise.notes && (
+                <p className="text-xs text-slate-400 truncate">{currentExercise.notes}</p>
+              )}
+            </div>
+            <div className="text-right shrink-0">
+              <p className="text-sm font-medium text-white">
+                {currentExercise.prescription?.target_weight_kg != null
+                  ? formatPrescription(currentExercise.sets, currentExercise.prescription)
+                  : `${currentExercise.sets} × ${currentExercise.reps}`}
+              </p>
+              <p className="text-xs text-slate-400">{currentExercise.rest_seconds}s rest</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-3">
+          {/* Logged Sets */}
+          {currentSets.length > 0 && (
+            <div>
+              <div className="grid grid-cols-12 gap-2 text-xs font-medium text-slate-400 mb-2 px-1">
+                <div className="col-span-2">SET</div>
+                <div className="col-span-4 text-center">WEIGHT</div>
+                <div className="col-span-4 text-center">REPS</div>
+                <div className="col-span-2"></div>
+              </div>
+              {currentSets.map((set, i) => (
+                <div key={set.id} className="grid grid-cols-12 gap-2 py-1.5 items-center">
+                  <div className="col-span-2">
+                    <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-emerald-500/20 text-emerald-400 text-sm font-medium">
+                      {i + 1}
+                    </span>
+                  </div>
+                  <div className="col-span-4 text-center text-white">
+                    {set.weight_kg ? `${set.weight_kg} kg` : '—'}
+                  </div>
+                  <div className="col-span-4 text-center text-white">{set.reps}</div>
+                  <div className="col-span-2 flex justify-end">
+                    <button
+                      onClick={() => removeSet(set)}
+                      className="p-1.5 rounded-lg text-slate-500 hover:text-red-400 hover:bg-red-500/10 transition-colors"
+                      title="Remove set"
+                    >
+                      <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {/* Next Set Input */}
+          <div className="grid grid-cols-12 gap-2 items-end pt-1">
+            <div className="col-span-2">
+              <span className="inline-flex items-center justify-center w-7 h-7 rounded-md bg-slate-800 text-slate-300 text-sm">
+                {currentSets.length + 1}
+              </span>
+            </div>
+            <div className="col-span-4">
+              <label className="block text-xs text-slate-400 mb-1 text-center">Weight (kg)</label>
+              <input
+                type="number"
+                value={weight}
+                onChange={(e) => setWeight(e.target.value)}
+                placeholder="—"
+                step="0.5"
+                min="0"
+                className="w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+              />
+            </div>
+            <div className="col-span-4">
+              <label className="block text-xs text-slate-400 mb-1 text-center">Reps</label>
+              <input
+                type="number"
+                value={reps}
+                onChange={(e) => setReps(e.target.value)}
+                placeholder="0"
+                min="0"
+                className="w-full px-2 py-2 bg-slate-800 border border-slate-700 rounded-lg text-white text-center placeholder-slate-500 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+              />
+            </div>
+            <div className="col-span-2">
+              <button
+                onClick={logSet}
+                disabled={saving}
+                className="w-full py-2 rounded-lg bg-emerald-500 text-slate-950 font-medium hover:bg-emerald-400 disabled:opacity-50 transition-colors text-sm"
+              >
+                {saving ? '...' : 'Log'}
+              </button>
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-400">{error}</p>
+          )}
+        </div>
+
+        {/* Exercise Navigation */}
+        <div className="flex gap-2 p-4 border-t border-slate-800/50">
+          <button
+            onClick={() => goToExercise(currentIndex - 1)}
+            disabled={currentIndex === 0}
+            className="flex-1 py-2 px-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            ← Previous
+          </button>
+          <button
+            onClick={() => goToExercise(currentIndex + 1)}
+            disabled={currentIndex === exercises.length - 1}
+            className="flex-1 py-2 px-3 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-30 disabled:cursor-not-allowed transition-colors text-sm"
+          >
+            Next →
+          </button>
+        </div>
+      </div>
+
+      {/* Finish */}
+      <button
+        onClick={finishWorkout}
+        disabled={finishing || loggedSets.length === 0}
+        className="w-full py-3 px-4 bg-gradient-to-r from-emerald-500 to-cyan-500 text-slate-950 font-semibold rounded-xl hover:from-emerald-400 hover:to-cyan-400 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+      >
+        {finishing ? 'Saving...' : 'Finish Workout'}
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,205 @@
+'use client'
+
+/**
+ * Rest Timer Component
+ *
+ * Counts down the prescribed rest between sets.
+ *
+ * WHY LOCALSTORAGE?
+ * The timer stores an absolute end time rather than "seconds left", so it
+ * keeps counting correctly across page reloads, tab switches and a phone
+ * screen turning off mid-rest.
+ *
+ * When rest ends we fire a browser Notification (if allowed) and vibrate.
+ * Android Chrome only allows notifications through a service worker
+ * (`new Notification()` throws there), so we prefer the registration
+ * when there is one.
+ */
+
+import { useEffect, useSyncExternalStore } from 'react'
+
+const STORAGE_KEY = 'filo:rest-timer'
+const ADJUST_STEP_SECONDS = 15
+
+// Don't notify for timers that ran out long ago (e.g. reopening the tab an hour later)
+const STALE_AFTER_MS = 60 * 1000
+
+type StoredTimer = {
+  endsAt: number
+  duration: number
+  label: string
+}
+
+// --- Timer store (localStorage + in-tab listeners) ---
+
+const listeners = new Set<() => void>()
+
+function subscribeTimer(callback: () => void) {
+  listeners.add(callback)
+  window.addEventListener('storage', callback)
+  return () => {
+    listeners.delete(callback)
+    window.removeEventListener('storage', callback)
+  }
+}
+
+function getTimerSnapshot() {
+  return localStorage.getItem(STORAGE_KEY)
+}
+
+function getServerTimerSnapshot() {
+  return null
+}
+
+function writeTimer(timer: StoredTimer | null) {
+  if (timer) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(timer))
+  } else {
+    localStorage.removeItem(STORAGE_KEY)
+  }
+  listeners.forEach(listener => listener())
+}
+
+function parseTimer(raw: string | null): StoredTimer | null {
+  if (!raw) return null
+  try {
+    return JSON.parse(raw) as StoredTimer
+  } catch {
+    return null
+  }
+}
+
+// --- Clock store (ticks once per second while mounted) ---
+
+function subscribeClock(callback: () => void) {
+  const interval = setInterval(callback, 250)
+  return () => clearInterval(interval)
+}
+
+function getClockSnapshot() {
+  return Math.floor(Date.now() / 1000)
+}
+
+function getServerClockSnapshot() {
+  return 0
+}
+
+/**
+ * Start (or restart) the rest countdown
+ * Call from a user gesture so the notification permission prompt is allowed.
+ */
+export function startRestTimer(seconds: number, label: string) {
+  if (seconds <= 0) return
+
+  if ('Notification' in window && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {
+      // Permission prompt dismissed - vibration still works
+    })
+  }
+
+  writeTimer({
+    endsAt: Date.now() + seconds * 1000,
+    duration: seconds,
+    label,
+  })
+}
+
+async function showNotification(title: string, body: string) {
+  const registration = 'serviceWorker' in navigator
+    ? await navigator.serviceWorker.getRegistration()
+    : undefined
+
+  if (registration) {
+    await registration.showNotification(title, { body })
+  } else {
+    new Notification(title, { body })
+  }
+}
+
+function notifyRestOver(label: string) {
+  if ('vibrate' in navigator) {
+    navigator.vibrate([200, 100, 200])
+  }
+  if ('Notification' in window && Notification.permission === 'granted') {
+    showNotification('Rest over 💪', `Time for your next set of ${label}`).catch(() => {
+      // Notifications unsupported here - the vibration above still fired
+    })
+  }
+}
+
+export function RestTimer() {
+  const rawTimer = useSyncExternalStore(subscribeTimer, getTimerSnapshot, getServerTimerSnapshot)
+  const nowSeconds = useSyncExternalStore(subscribeClock, getClockSnapshot, getServerClockSnapshot)
+
+  const timer = parseTimer(rawTimer)
+  const remaining = timer ? Math.max(0, Math.ceil(timer.endsAt / 1000 - nowSeconds)) : 0
+
+  // Fire the notification once when the countdown hits zero
+  useEffect(() => {
+    const expired = parseTimer(rawTimer)
+    if (!expired || nowSeconds === 0 || expired.endsAt > nowSeconds * 1000) return
+
+    // Clear first so a failing notification can't leave the timer stuck
+    writeTimer(null)
+
+    const overdueMs = nowSeconds * 1000 - expired.endsAt
+    if (overdueMs < STALE_AFTER_MS) {
+      notifyRestOver(expired.label)
+    }
+  }, [rawTimer, nowSeconds])
+
+  if (!timer || remaining <= 0) return null
+
+  const adjust = (deltaSeconds: number) => {
+    const endsAt = Math.max(Date.now() + 1000, timer.endsAt + deltaSeconds * 1000)
+    writeTimer({
+      ...timer,
+      endsAt,
+      duration: Math.max(1, timer.duration + deltaSeconds),
+    })
+  }
+
+  const minutes = Math.floor(remaining / 60)
+  const seconds = remaining % 60
+  const progress = Math.min(100, (remaining / timer.duration) * 100)
+
+  return (
+    <div className="rounded-xl bg-cyan-500/10 border border-cyan-500/30 overflow-hidden">
+      <div className="p-4 flex items-center justify-between gap-4">
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-cyan-400">Resting</p>
+          <p className="text-3xl font-bold text-white tabular-nums">
+            {minutes}:{seconds.toString().padStart(2, '0')}
+          </p>
+          <p className="text-xs text-slate-400 truncate">Next: {timer.label}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => adjust(-ADJUST_STEP_SECONDS)}
+            className="px-3 py-2 rounded-lg bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white text-sm font-medium transition-colors"
+          >
+            −{ADJUST_STEP_SECONDS}s
+          </button>
+          <button
+            onClick={() => adjust(ADJUST_STEP_SECONDS)}
+            className="px-3 py-2 rounded-lg bg-slate-800/50 text-slate-300 hover:bg-slate-800 hover:text-white text-sm font-medium transition-colors"
+          >
+            +{ADJUST_STEP_SECONDS}s
+          </button>
+          <button
+            onClick={() => writeTimer(null)}
+            className="px-3 py-2 rounded-lg text-cyan-400 hover:text-white hover:bg-cyan-500/20 text-sm font-medium transition-colors"
+          >
+            Skip
+          </button>
+        </div>
+      </div>
+      <div className="h-1 bg-slate-800">
+        <div
+          className="h-full bg-gradient-to-r from-emerald-400 to-cyan-400 transition-all duration-1000 ease-linear"
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </div>
+  )
+}
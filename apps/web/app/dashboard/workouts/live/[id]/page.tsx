@@ -0,0 +1,100 @@
+/**
+ * Live Workout Session Page
+ *
+ * In-gym view for today's planned workout. Walks through each planned
+ * exercise and logs actual weight/reps set by set.
+ * Server component - loads the plan and any sets already logged against it,
+ * so the session can be resumed after a reload. Completed and skipped plans
+ * can't be started: undo the status on the dashboard first.
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { findBestMatch, type Exercise as DBExercise } from '@/lib/fuzzyMatch'
+import { LiveSession, type LiveExercise, type LoggedSet } from './LiveSession'
+
+type Props = {
+  params: Promise<{ id: string }>
+}
+
+export default async function LiveWorkoutPage({ params }: Props) {
+  const { id } = await params
+  const supabase = await createClient()
+
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) {
+    redirect('/auth')
+  }
+
+  // Fetch the planned workout this session belongs to
+  const { data: plannedWorkout, error } = await supabase
+    .from('planned_workouts')
+    .select('*, split:workout_splits(*)')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .single()
+
+  if (error || !plannedWorkout) {
+    notFound()
+  }
+
+  // Find a session already started for this plan (resume support)
+  const { data: session } = await supabase
+    .from('workout_sessions')
+    .select(`
+      id,
+      workout_sets (
+        id,
+        exercise_id,
+        plan_entry,
+        set_number,
+        reps,
+        weight_kg
+      )
+    `)
+    .eq('planned_workout_id', plannedWorkout.id)
+    .maybeSingle()
+
+  // A finished plan opens its logged session instead of starting another
+  if (plannedWorkout.status === 'completed' && session) {
+    redirect(`/dashboard/workouts/${session.id}`)
+  }
+
+  if (plannedWorkout.status === 'completed' || plannedWorkout.status === 'skipped') {
+    return (
+      <div className="max-w-2xl mx-auto text-center py-16">
+        <h1 className="text-xl font-bold text-white mb-2">This workout is already {plannedWorkout.status}</h1>
+        <p className="text-slate-400 mb-6">Undo it on the dashboard to start a session.</p>
+        <Link href="/dashboard" className="text-emerald-400 hover:text-emerald-300">
+          Back to Dashboard
+        </Link>
+      </div>
+    )
+  }
+
+  // Resolve planned exercises to database exercises where we can
+  const { data: dbExercises } = await supabase
+    .from('exercises')
+    .select('id, name, muscle_group, equipment')
+
+  const exerciseList: DBExercise[] = dbExercises || []
+
+  const exercises: LiveExercise[] = (plannedWorkout.exercises || []).map((exercise: LiveExercise) => ({
+    ...exercise,
+    exercise_id: exercise.exercise_id || findBestMatch(exercise.name, exerciseList, 70).exercise?.id,
+  }))
+
+  const loggedSets: LoggedSet[] = session?.workout_sets || []
+
+  return (
+    <LiveSession
+      plannedWorkoutId={plannedWorkout.id}
+      workoutName={plannedWorkout.split?.name || 'Workout'}
+      fallbackMuscleGroup={plannedWorkout.split?.muscle_groups?.[0] || 'other'}
+      exercises={exercises}
+      initialSessionId={session?.id || null}
+      initialSets={loggedSets}
+    />
+  )
+}
@@ -8,11 +8,14 @@
  * - Adding/removing exercises
  * - Adding/removing sets
  * - Real-time form state
+ * Each exercise shows its last few performances as a reference.
  */
 
 import { useState, useEffect } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { detectSessionRecords } from '@/lib/analytics'
+import { RecentPerformances } from '../../components/RecentPerformances'
 
 type Exercise = {
   id: string
@@ -203,6 +206,9 @@ export default function NewWorkoutPage() {
 
       if (setsError) throw setsError
 
+      // Detect new personal records for this session
+      await detectSessionRecords(session.id)
+
       // Success! Redirect to the workout detail page
       router.push(`/dashboard/workouts/${session.id}`)
       router.refresh()
@@ -298,6 +304,11 @@ export default function NewWorkoutPage() {
                 </button>
               </div>
 
+              {/* Last Performances */}
+              <div className="px-4 pt-3">
+                <RecentPerformances exerciseId={group.exercise_id} />
+              </div>
+
               {/* Sets */}
               <div className="p-4 space-y-2">
                 {/* Header Row */}
@@ -33,24 +33,8 @@ import {
   verticalListSortingStrategy,
 } from '@dnd-kit/sortable'
 import { CSS } from '@dnd-kit/utilities'
-
-// Available muscle groups to choose from
-const MUSCLE_GROUPS = [
-  'chest',
-  'back', 
-  'shoulders',
-  'biceps',
-  'triceps',
-  'forearms',
-  'quads',
-  'hamstrings',
-  'glutes',
-  'calves',
-  'abs',
-  'obliques',
-  'lower back',
-  'traps',
-]
+import { MUSCLE_GROUPS } from '@/lib/weeklyVolume'
+import { WEEKDAYS } from '@/lib/schedule'
 
 // Color options for splits
 const COLORS = [
@@ -106,6 +90,42 @@ interface Split {
   order_in_rotation: number
   is_rest_day: boolean
   color: string
+  pinned_days: number[] // Weekdays this split always falls on (0 = Sunday), empty = rotates
+}
+
+const formatPinnedDays = (days: number[]) =>
+  WEEKDAYS.filter(d => days.includes(d.value)).map(d => d.label).join(' · ')
+
+// Weekday chips for pinning a split to fixed days
+function WeekdayPicker({
+  selected,
+  onChange,
+}: {
+  selected: number[]
+  onChange: (days: number[]) => void
+}) {
+  const toggle = (day: number) => {
+    onChange(selected.includes(day) ? selected.filter(d => d !== day) : [...selected, day])
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {WEEKDAYS.map(day => (
+        <button
+          key={day.value}
+          type="button"
+          onClick={() => toggle(day.value)}
+          className={`w-12 py-1.5 rounded-lg text-sm transition-all ${
+            selected.includes(day.value)
+              ? 'bg-cyan-500/20 text-cyan-300 border border-cyan-500/40'
+              : 'bg-slate-950/30 text-slate-400 border border-slate-700/30 hover:text-white'
+          }`}
+        >
+          {day.label}
+        </button>
+      ))}
+    </div>
+  )
 }
 
 // Sortable Split Card Component with inline editing
@@ -131,6 +151,7 @@ function SortableSplitCard({
   const [editMuscles, setEditMuscles] = useState<string[]>(split.muscle_groups)
   const [editColor, setEditColor] = useState(split.color)
   const [editIsRest, setEditIsRest] = useState(split.is_rest_day)
+  const [editPinnedDays, setEditPinnedDays] = useState<number[]>(split.pinned_days)
 
   const {
     attributes,
@@ -157,6 +178,7 @@ function SortableSplitCard({
       muscle_groups: editIsRest ? [] : editMuscles,
       color: editColor,
       is_rest_day: editIsRest,
+      pinned_days: editPinnedDays,
     })
     setIsEditing(false)
   }
@@ -166,6 +188,7 @@ function SortableSplitCard({
     setEditMuscles(split.muscle_groups)
     setEditColor(split.color)
     setEditIsRest(split.is_rest_day)
+    setEditPinnedDays(split.pinned_days)
     setIsEditing(false)
   }
 
@@ -246,6 +269,14 @@ function SortableSplitCard({
           </div>
         )}
 
+        {/* Pinned Weekdays */}
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-2">
+            Pin to Days (optional - otherwise it rotates)
+          </label>
+          <WeekdayPicker selected={editPinnedDays} onChange={setEditPinnedDays} />
+        </div>
+
         {/* Color Picker */}
         <div>
           <label className="block text-xs font-medium text-slate-400 mb-2">
@@ -313,6 +344,11 @@ function SortableSplitCard({
                 Rest Day
               </span>
             )}
+            {split.pinned_days.length > 0 && (
+              <span className="text-xs text-cyan-300 bg-cyan-500/10 px-2 py-0.5 rounded">
+                📌 {formatPinnedDays(split.pinned_days)}
+              </span>
+            )}
           </div>
           <h3 className="font-semibold text-white mt-1">{split.name}</h3>
           {split.muscle_groups.length > 0 && (
@@ -384,6 +420,7 @@ export default function WorkoutSetupPage() {
   const [formMuscles, setFormMuscles] = useState<string[]>([])
   const [formColor, setFormColor] = useState('emerald')
   const [formIsRest, setFormIsRest] = useState(false)
+  const [formPinnedDays, setFormPinnedDays] = useState<number[]>([])
   
   const router = useRouter()
   const supabase = createClient()
@@ -422,6 +459,7 @@ export default function WorkoutSetupPage() {
       const splitsWithIds = (data || []).map((s, i) => ({
         ...s,
         id: s.id || `split-${i}`,
+        pinned_days: s.pinned_days || [],
       }))
       setSplits(splitsWithIds)
     } catch (err) {
@@ -440,6 +478,7 @@ export default function WorkoutSetupPage() {
       order_in_rotation: i + 1,
       is_rest_day: false,
       color: s.color,
+      pinned_days: [],
     }))
     setSplits(newSplits)
   }
@@ -449,6 +488,7 @@ export default function WorkoutSetupPage() {
     setFormMuscles([])
     setFormColor('emerald')
     setFormIsRest(false)
+    setFormPinnedDays([])
     setShowAddForm(false)
   }
 
@@ -462,6 +502,7 @@ export default function WorkoutSetupPage() {
       order_in_rotation: splits.length + 1,
       is_rest_day: formIsRest,
       color: formColor,
+      pinned_days: formPinnedDays,
     }
     
     setSplits([...splits, newSplit])
@@ -526,6 +567,15 @@ export default function WorkoutSetupPage() {
       return
     }
 
+    // Each weekday can only be pinned to one split
+    for (const day of WEEKDAYS) {
+      const pinnedTo = splits.filter(s => s.pinned_days.includes(day.value))
+      if (pinnedTo.length > 1) {
+        setError(`${day.label} is pinned to both ${pinnedTo[0].name} and ${pinnedTo[1].name}`)
+        return
+      }
+    }
+
     setSaving(true)
     setError(null)
 
@@ -550,6 +600,7 @@ export default function WorkoutSetupPage() {
             order_in_rotation: s.order_in_rotation,
             is_rest_day: s.is_rest_day,
             color: s.color,
+            pinned_days: s.pinned_days,
           }))
         )
 
@@ -713,6 +764,14 @@ export default function WorkoutSetupPage() {
             </div>
           )}
 
+          {/* Pinned Weekdays */}
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Pin to Days <span className="text-slate-500 font-normal">(optional - otherwise it rotates)</span>
+            </label>
+            <WeekdayPicker selected={formPinnedDays} onChange={setFormPinnedDays} />
+          </div>
+
           {/* Color */}
           <div>
             <label className="block text-sm font-medium text-slate-300 mb-2">
@@ -797,7 +856,8 @@ export default function WorkoutSetupPage() {
           </li>
           <li className="flex items-start gap-2">
             <span className="text-emerald-400">2.</span>
-            Each day, Filo will tell you which split is next
+            Each day, Filo will tell you which split is next. Splits pinned to weekdays
+            always land on those days; the rest rotate through the other days
           </li>
           <li className="flex items-start gap-2">
             <span className="text-emerald-400">3.</span>
@@ -805,7 +865,7 @@ export default function WorkoutSetupPage() {
           </li>
           <li className="flex items-start gap-2">
             <span className="text-emerald-400">4.</span>
-            The AI will suggest exercises based on your split's muscle groups
+            The AI will suggest exercises based on your split&apos;s muscle groups
           </li>
         </ul>
       </div>
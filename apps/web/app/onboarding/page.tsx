@@ -18,6 +18,7 @@
 import { useState } from 'react'
 import { useRouter } from 'next/navigation'
 import { createClient } from '@/lib/supabase/client'
+import { SEX_OPTIONS, estimateEnergy, getBMRFormulaLabel, type Sex } from '@/lib/energy'
 
 // Define the steps and their data
 type OnboardingData = {
@@ -27,6 +28,8 @@ type OnboardingData = {
   height_cm: number | null
   weight_kg: number | null
   date_of_birth: string
+  gender: Sex | ''
+  body_fat_pct: number | null
 }
 
 const initialData: OnboardingData = {
@@ -36,6 +39,8 @@ const initialData: OnboardingData = {
   height_cm: null,
   weight_kg: null,
   date_of_birth: '',
+  gender: '',
+  body_fat_pct: null,
 }
 
 // Step configuration
@@ -55,6 +60,9 @@ export default function OnboardingPage() {
   const router = useRouter()
   const supabase = createClient()
 
+  // Live preview on the stats step, same math as the profile page
+  const energy = estimateEnergy(data)
+
   const updateData = (updates: Partial<OnboardingData>) => {
     setData(prev => ({ ...prev, ...updates }))
   }
@@ -64,7 +72,7 @@ export default function OnboardingPage() {
       case 0: return data.display_name.trim().length >= 2
       case 1: return data.fitness_goal !== ''
       case 2: return data.activity_level !== ''
-      case 3: return data.height_cm && data.weight_kg && data.date_of_birth
+      case 3: return data.height_cm && data.weight_kg && data.date_of_birth && data.gender !== ''
       default: return false
     }
   }
@@ -100,12 +108,23 @@ export default function OnboardingPage() {
           height_cm: data.height_cm,
           weight_kg: data.weight_kg,
           date_of_birth: data.date_of_birth,
+          gender: data.gender || null,
+          body_fat_pct: data.body_fat_pct,
           onboarding_completed: true,
         })
         .eq('id', user.id)
 
       if (updateError) throw updateError
 
+      // First weigh-in for the bodyweight trend in weekly reports
+      if (data.weight_kg) {
+        const { error: weightError } = await supabase
+          .from('weight_logs')
+          .insert({ user_id: user.id, weight_kg: data.weight_kg, logged_at: new Date().toISOString() })
+
+        if (weightError) console.error('Failed to log weight:', weightError)
+      }
+
       // Redirect to dashboard
       router.push('/dashboard')
       router.refresh()
@@ -265,6 +284,49 @@ export default function OnboardingPage() {
                     className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all [color-scheme:dark]"
                   />
                 </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1.5">Sex</label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {SEX_OPTIONS.map((option) => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => updateData({ gender: option.value })}
+                        className={`p-2.5 rounded-xl border text-xs text-white transition-all ${
+                          data.gender === option.value
+                            ? 'bg-emerald-500/10 border-emerald-500/50 ring-1 ring-emerald-500/50'
+                            : 'bg-slate-800/30 border-slate-700/50 hover:bg-slate-800/50'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-slate-300 mb-1.5">
+                    Body Fat % <span className="text-slate-500 font-normal">(optional)</span>
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={data.body_fat_pct || ''}
+                    onChange={(e) => updateData({ body_fat_pct: e.target.value ? Number(e.target.value) : null })}
+                    placeholder="20"
+                    className="w-full px-3 py-2.5 bg-slate-800/50 border border-slate-700/50 rounded-xl text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50 transition-all"
+                  />
+                </div>
+                {energy && (
+                  <div className="p-3 rounded-xl bg-emerald-500/10 border border-emerald-500/20 text-sm">
+                    <p className="text-slate-300">
+                      ~<span className="font-semibold text-white">{energy.bmr}</span> kcal at rest
+                      {energy.tdee && (
+                        <>, ~<span className="font-semibold text-white">{energy.tdee}</span> with activity</>
+                      )}
+                    </p>
+                    <p className="text-xs text-slate-500">{getBMRFormulaLabel(energy.formula)} - you can change the formula in your profile</p>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,66 @@
+/**
+ * AI Response Cache
+ *
+ * Insights and daily plans only change when the data behind them does,
+ * so asking again with the same data returns the stored answer instead
+ * of another model call:
+ *
+ *   const key = hashCacheKey([type, provider.model, fingerprint])
+ *   const cached = await getCachedResponse<string>(supabase, user.id, type, key)
+ *
+ * The key is a hash of everything the prompt is built from. When a new
+ * workout or food log is written the fingerprint changes, the stored key
+ * no longer matches, and the next request regenerates - no explicit
+ * invalidation needed.
+ *
+ * One row per user and kind in ai_cache; a new answer replaces the old one.
+ * Cache failures never fail the request - they just mean a model call.
+ */
+
+import { createHash } from 'crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type AICacheKind = 'insight' | 'daily_plan'
+
+export function hashCacheKey(parts: unknown[]): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex')
+}
+
+export async function getCachedResponse<T>(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: AICacheKind,
+  key: string
+): Promise<T | null> {
+  const { data, error } = await supabase
+    .from('ai_cache')
+    .select('content')
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error reading AI cache:', error)
+    return null
+  }
+
+  return (data?.content as T) ?? null
+}
+
+export async function cacheResponse(
+  supabase: SupabaseClient,
+  userId: string,
+  kind: AICacheKind,
+  key: string,
+  content: unknown
+): Promise<void> {
+  const { error } = await supabase
+    .from('ai_cache')
+    .upsert(
+      { user_id: userId, kind, key, content, created_at: new Date().toISOString() },
+      { onConflict: 'user_id,kind' }
+    )
+
+  if (error) console.error('Error writing AI cache:', error)
+}
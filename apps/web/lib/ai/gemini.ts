@@ -0,0 +1,65 @@
+/**
+ * Google Gemini Provider
+ *
+ * ENV: GOOGLE_GEMINI_API_KEY, optional AI_MODEL (default gemini-2.5-flash)
+ */
+
+import { GoogleGenerativeAI, type UsageMetadata } from '@google/generative-ai'
+import { withJSON, type AIProvider, type GenerateOptions } from './provider'
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash'
+
+export function createGeminiProvider(apiKey: string, model: string = DEFAULT_GEMINI_MODEL): AIProvider {
+  const genAI = new GoogleGenerativeAI(apiKey)
+
+  const getModel = (options: GenerateOptions) => genAI.getGenerativeModel({
+    model,
+    systemInstruction: options.system,
+    generationConfig: {
+      temperature: options.temperature,
+      maxOutputTokens: options.maxTokens,
+    },
+  })
+
+  const reportUsage = (options: GenerateOptions, usage: UsageMetadata | undefined) => {
+    options.onUsage?.({
+      inputTokens: usage?.promptTokenCount ?? 0,
+      outputTokens: usage?.candidatesTokenCount ?? 0,
+    })
+  }
+
+  return withJSON({
+    name: 'gemini',
+    model,
+    async generateText(prompt, options = {}) {
+      const result = await getModel(options).generateContent(prompt, { signal: options.signal })
+      reportUsage(options, result.response.usageMetadata)
+      return result.response.text()
+    },
+    async *streamText(prompt, options = {}) {
+      const result = await getModel(options).generateContentStream(prompt, { signal: options.signal })
+      for await (const chunk of result.stream) {
+        const text = chunk.text()
+        if (text) yield text
+      }
+      reportUsage(options, (await result.response).usageMetadata)
+    },
+    async *streamChat(messages, options = {}) {
+      const history = messages.slice(0, -1).map(message => ({
+        // Gemini calls the assistant 'model'
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: message.content }],
+      }))
+      const latest = messages[messages.length - 1]?.content || ''
+
+      const result = await getModel(options)
+        .startChat({ history })
+        .sendMessageStream(latest, { signal: options.signal })
+      for await (const chunk of result.stream) {
+        const text = chunk.text()
+        if (text) yield text
+      }
+      reportUsage(options, (await result.response).usageMetadata)
+    },
+  })
+}
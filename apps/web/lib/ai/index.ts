@@ -0,0 +1,52 @@
+/**
+ * AI Provider Selection
+ *
+ * USE THIS IN: Route Handlers that call an LLM
+ *
+ *   const ai = getAIProvider()
+ *   if (!ai) { ...fallback... }
+ *   const text = await ai.generateText(prompt)
+ *
+ * ENV:
+ * - AI_PROVIDER: 'gemini' | 'openai' | 'mock'
+ *   Without it, whichever API key is set is used (Gemini first).
+ * - AI_MODEL: overrides the provider's default model
+ * - GOOGLE_GEMINI_API_KEY / OPENAI_API_KEY
+ *
+ * Returns null when nothing is configured, so routes can fall back.
+ */
+
+import { createGeminiProvider } from './gemini'
+import { createOpenAIProvider } from './openai'
+import { createMockProvider } from './mock'
+import type { AIProvider, AIProviderName } from './provider'
+
+export type { AIProvider, AIProviderName, ChatMessage, GenerateOptions, TokenUsage } from './provider'
+
+export function getAIProviderName(): AIProviderName | null {
+  const configured = process.env.AI_PROVIDER?.toLowerCase()
+  if (configured === 'gemini' || configured === 'openai' || configured === 'mock') {
+    return configured
+  }
+
+  if (process.env.GOOGLE_GEMINI_API_KEY) return 'gemini'
+  if (process.env.OPENAI_API_KEY) return 'openai'
+  return null
+}
+
+export function getAIProvider(): AIProvider | null {
+  const model = process.env.AI_MODEL || undefined
+
+  switch (getAIProviderName()) {
+    case 'gemini':
+      if (!process.env.GOOGLE_GEMINI_API_KEY) return null
+      return createGeminiProvider(process.env.GOOGLE_GEMINI_API_KEY, model)
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) return null
+      return createOpenAIProvider(process.env.OPENAI_API_KEY, model)
+    case 'mock':
+      return createMockProvider()
+    default:
+      return null
+  }
+}
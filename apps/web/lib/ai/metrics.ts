@@ -0,0 +1,122 @@
+/**
+ * AI Output Metrics
+ *
+ * One row per AI call in ai_output_metrics (route, provider, outcome,
+ * attempts, errors) so we can see how often output needs repairing,
+ * retrying, or falls back to the built-in exercises.
+ *
+ * Recording never throws - a metrics failure shouldn't break a route.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AIOutcome, StructuredResult } from './structured'
+
+export type AIRoute = 'workout' | 'alternatives' | 'validate_replacement'
+
+export interface AIOutcomeSummary {
+  route: AIRoute
+  total: number
+  valid: number
+  repaired: number
+  retried: number
+  fallback: number
+  fallback_rate: number
+}
+
+const OUTCOMES: AIOutcome[] = ['valid', 'repaired', 'retried', 'fallback']
+
+export async function recordAIOutcome(
+  supabase: SupabaseClient,
+  {
+    userId,
+    route,
+    provider,
+    outcome,
+    attempts = 0,
+    errors = [],
+  }: {
+    userId: string
+    route: AIRoute
+    provider: string | null
+    outcome: AIOutcome
+    attempts?: number
+    errors?: string[]
+  }
+): Promise<void> {
+  try {
+    const { error } = await supabase
+      .from('ai_output_metrics')
+      .insert({
+        user_id: userId,
+        route,
+        provider,
+        outcome,
+        attempts,
+        errors: errors.slice(0, 10),
+      })
+
+    if (error) console.error('Error recording AI outcome:', error)
+  } catch (error) {
+    console.error('Error recording AI outcome:', error)
+  }
+}
+
+/**
+ * Shorthand for recording a generateStructured() result
+ */
+export function recordStructuredOutcome(
+  supabase: SupabaseClient,
+  userId: string,
+  route: AIRoute,
+  provider: string,
+  result: StructuredResult<unknown>
+): Promise<void> {
+  return recordAIOutcome(supabase, {
+    userId,
+    route,
+    provider,
+    outcome: result.outcome,
+    attempts: result.attempts,
+    errors: result.errors,
+  })
+}
+
+/**
+ * Outcome counts per route since a date
+ */
+export async function getAIOutcomeSummary(
+  supabase: SupabaseClient,
+  userId: string,
+  since: string
+): Promise<AIOutcomeSummary[]> {
+  const { data, error } = await supabase
+    .from('ai_output_metrics')
+    .select('route, outcome')
+    .eq('user_id', userId)
+    .gte('created_at', since)
+
+  if (error) throw error
+
+  const byRoute = new Map<AIRoute, AIOutcomeSummary>()
+  for (const row of data || []) {
+    const summary = byRoute.get(row.route) || {
+      route: row.route,
+      total: 0,
+      valid: 0,
+      repaired: 0,
+      retried: 0,
+      fallback: 0,
+      fallback_rate: 0,
+    }
+    summary.total++
+    if (OUTCOMES.includes(row.outcome)) {
+      summary[row.outcome as AIOutcome]++
+    }
+    byRoute.set(row.route, summary)
+  }
+
+  return Array.from(byRoute.values()).map(summary => ({
+    ...summary,
+    fallback_rate: summary.total > 0 ? Math.round((summary.fallback / summary.total) * 100) / 100 : 0,
+  }))
+}
@@ -0,0 +1,111 @@
+/**
+ * Offline Mock Provider
+ *
+ * Deterministic responses without any network calls - for tests and
+ * local development without an API key (AI_PROVIDER=mock).
+ *
+ * Recognizes the prompts our routes send and answers in the shape each
+ * expects; the same prompt always gets the same response.
+ */
+
+import { estimateTokens, withJSON, type AIProvider } from './provider'
+
+const MOCK_CHUNK_SIZE = 24
+
+// Bodyweight picks so equipment and injury filters rarely empty the list
+const MOCK_EXERCISES: Record<string, string> = {
+  chest: 'Push-ups',
+  back: 'Inverted Rows',
+  shoulders: 'Pike Push-ups',
+  biceps: 'Band Curls',
+  triceps: 'Bench Dips',
+  quads: 'Bodyweight Squats',
+  hamstrings: 'Single-Leg Glute Bridges',
+  glutes: 'Glute Bridges',
+  calves: 'Bodyweight Calf Raises',
+  abs: 'Plank',
+}
+
+function mockWorkout(prompt: string) {
+  const groups = prompt.match(/muscle groups: ([^.\n]+)/)?.[1]
+    ?.split(',')
+    .map(group => group.trim().toLowerCase()) || []
+  const names = groups.map(group => MOCK_EXERCISES[group]).filter(Boolean)
+
+  return (names.length > 0 ? names : ['Burpees']).map(name => ({
+    name,
+    sets: 3,
+    reps: '10-12',
+    rest_seconds: 60,
+    notes: 'Mock exercise',
+  }))
+}
+
+function mockResponse(prompt: string): string {
+  if (prompt.includes('"isGood"')) {
+    return JSON.stringify({ isGood: true, feedback: 'Looks like a reasonable swap!', suggestion: null })
+  }
+
+  if (prompt.includes('alternative exercises')) {
+    return JSON.stringify([
+      { name: 'Push-ups', sets: 3, reps: '12-15', rest_seconds: 60, reason: 'Bodyweight alternative' },
+      { name: 'Dumbbell Floor Press', sets: 3, reps: '10-12', rest_seconds: 75, reason: 'Dumbbell alternative' },
+      { name: 'Band Chest Press', sets: 3, reps: '12-15', rest_seconds: 60, reason: 'Band alternative' },
+    ])
+  }
+
+  if (prompt.includes('JSON array')) {
+    return JSON.stringify(mockWorkout(prompt))
+  }
+
+  if (prompt.includes("Today's Focus")) {
+    return [
+      "**Today's Focus:** Stay consistent",
+      '**Workout:** Follow today\'s planned workout',
+      '**Nutrition Target:** Hit your protein goal',
+      '**Tip:** Get 7-9 hours of sleep tonight',
+    ].join('\n\n')
+  }
+
+  return 'Consistency beats intensity - keep showing up and the results will follow! 💪'
+}
+
+export function createMockProvider(): AIProvider {
+  return withJSON({
+    name: 'mock',
+    model: 'mock',
+    async generateText(prompt, options = {}) {
+      const response = mockResponse(prompt)
+      options.onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(response) })
+      return response
+    },
+    async *streamText(prompt, options = {}) {
+      // Small fixed-size chunks, like a real token stream
+      const response = mockResponse(prompt)
+      for (let i = 0; i < response.length && !options.signal?.aborted; i += MOCK_CHUNK_SIZE) {
+        yield response.slice(i, i + MOCK_CHUNK_SIZE)
+      }
+      options.onUsage?.({ inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(response) })
+    },
+    async *streamChat(messages, options = {}) {
+      const question = messages[messages.length - 1]?.content || ''
+      let reply = `Good question! You asked: "${question.trim()}". `
+        + 'Keep training consistently, hit your protein target and recover well. 💪'
+
+      // Exercise the confirm flow for coach actions (dates default to today)
+      if (/\bskip\b/i.test(question)) {
+        reply += ' I can mark today\'s workout as skipped for you.<action>{"type":"skip_workout"}</action>'
+      }
+
+      // Word by word so the UI's streaming path gets exercised
+      for (const word of reply.split(/(?<= )/)) {
+        if (options.signal?.aborted) return
+        yield word
+      }
+      options.onUsage?.({
+        inputTokens: estimateTokens(messages.map(message => message.content).join('\n')),
+        outputTokens: estimateTokens(reply),
+      })
+    },
+  })
+}
@@ -0,0 +1,77 @@
+/**
+ * OpenAI Provider
+ *
+ * ENV: OPENAI_API_KEY, optional AI_MODEL (default gpt-4o-mini)
+ */
+
+import OpenAI from 'openai'
+import { withJSON, type AIProvider, type GenerateOptions } from './provider'
+
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini'
+
+export function createOpenAIProvider(apiKey: string, model: string = DEFAULT_OPENAI_MODEL): AIProvider {
+  const client = new OpenAI({ apiKey })
+
+  const reportUsage = (options: GenerateOptions, usage: OpenAI.CompletionUsage) => {
+    options.onUsage?.({ inputTokens: usage.prompt_tokens, outputTokens: usage.completion_tokens })
+  }
+
+  return withJSON({
+    name: 'openai',
+    model,
+    async generateText(prompt, options = {}) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(options.system ? [{ role: 'system' as const, content: options.system }] : []),
+          { role: 'user' as const, content: prompt },
+        ],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+      }, { signal: options.signal })
+
+      if (completion.usage) reportUsage(options, completion.usage)
+      return completion.choices[0]?.message?.content || ''
+    },
+    async *streamText(prompt, options = {}) {
+      const stream = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(options.system ? [{ role: 'system' as const, content: options.system }] : []),
+          { role: 'user' as const, content: prompt },
+        ],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: true,
+        // Adds a final chunk with token usage
+        stream_options: { include_usage: true },
+      }, { signal: options.signal })
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content
+        if (text) yield text
+        if (chunk.usage) reportUsage(options, chunk.usage)
+      }
+    },
+    async *streamChat(messages, options = {}) {
+      const stream = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(options.system ? [{ role: 'system' as const, content: options.system }] : []),
+          ...messages.map(message => ({ role: message.role, content: message.content })),
+        ],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        stream: true,
+        // Adds a final chunk with token usage
+        stream_options: { include_usage: true },
+      }, { signal: options.signal })
+
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content
+        if (text) yield text
+        if (chunk.usage) reportUsage(options, chunk.usage)
+      }
+    },
+  })
+}
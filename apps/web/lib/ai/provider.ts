@@ -0,0 +1,85 @@
+/**
+ * AI Provider Interface
+ *
+ * What every LLM backend (Gemini, OpenAI, the offline mock) implements.
+ * Routes only talk to this interface - see getAIProvider() in ./index.
+ */
+
+export type AIProviderName = 'gemini' | 'openai' | 'mock'
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+export interface GenerateOptions {
+  // Instructions sent separately from the prompt where the backend supports it
+  system?: string
+  temperature?: number
+  maxTokens?: number
+  // Aborts the request, e.g. when the client disconnects
+  signal?: AbortSignal
+  // Called with the token counts once the backend reports them
+  onUsage?: (usage: TokenUsage) => void
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface AIProvider {
+  name: AIProviderName
+  model: string
+  generateText(prompt: string, options?: GenerateOptions): Promise<string>
+  // Same as generateText, yielding the response as it's generated
+  streamText(prompt: string, options?: GenerateOptions): AsyncIterable<string>
+  // Multi-turn conversation, yielding the reply as it's generated.
+  // The last message is the one being answered.
+  streamChat(messages: ChatMessage[], options?: GenerateOptions): AsyncIterable<string>
+  // Null when the response has no parseable JSON in it
+  generateJSON<T = unknown>(prompt: string, options?: GenerateOptions): Promise<T | null>
+}
+
+/**
+ * Rough token count for backends that don't report usage (~4 characters a token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Pull the first JSON array or object out of a model response
+ *
+ * Models often wrap JSON in prose or ```json fences, so this takes
+ * everything from the first opening bracket to the last matching closer.
+ */
+export function extractJSON<T = unknown>(text: string): T | null {
+  const arrayStart = text.indexOf('[')
+  const objectStart = text.indexOf('{')
+  if (arrayStart === -1 && objectStart === -1) return null
+
+  const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart)
+  const start = isArray ? arrayStart : objectStart
+  const end = text.lastIndexOf(isArray ? ']' : '}')
+  if (end <= start) return null
+
+  try {
+    return JSON.parse(text.slice(start, end + 1)) as T
+  } catch {
+    return null
+  }
+}
+
+/**
+ * generateJSON on top of a backend's generateText
+ */
+export function withJSON(provider: Omit<AIProvider, 'generateJSON'>): AIProvider {
+  return {
+    ...provider,
+    async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions) {
+      const text = await provider.generateText(prompt, options)
+      return extractJSON<T>(text)
+    },
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * AI Output Schemas
+ *
+ * Validators for the JSON our routes ask models for. Each one checks
+ * types and ranges and repairs what it safely can:
+ * - numbers sent as strings are coerced ("4" -> 4)
+ * - out-of-range values are clamped (sets 1-10, rest 15-600s)
+ * - items missing a required field are dropped
+ *
+ * Anything it can't repair comes back as errors with a null value,
+ * which triggers a retry (see ./structured).
+ */
+
+export interface ValidationResult<T> {
+  value: T | null
+  errors: string[]
+  repaired: boolean
+}
+
+export type Schema<T> = (input: unknown) => ValidationResult<T>
+
+export const SETS_RANGE = { min: 1, max: 10 }
+export const REST_SECONDS_RANGE = { min: 15, max: 600 }
+
+export interface GeneratedExercise {
+  name: string
+  sets: number
+  reps: string
+  rest_seconds: number
+  notes?: string
+}
+
+export interface GeneratedAlternative extends GeneratedExercise {
+  reason: string
+}
+
+export interface ReplacementValidation {
+  isGood: boolean
+  feedback: string
+  suggestion: string | null
+}
+
+// ============================================
+// FIELD HELPERS
+// ============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isFinite(value)) return value
+  if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) return Number(value)
+  return null
+}
+
+function clamp(value: number, range: { min: number; max: number }): number {
+  return Math.min(range.max, Math.max(range.min, Math.round(value)))
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined
+}
+
+// ============================================
+// SCHEMAS
+// ============================================
+
+function validateExercise(input: unknown, index: number): ValidationResult<GeneratedExercise> {
+  const errors: string[] = []
+  let repaired = false
+
+  if (!isObject(input)) {
+    return { value: null, errors: [`[${index}] is not an object`], repaired }
+  }
+
+  const name = optionalString(input.name)
+  if (!name) errors.push(`[${index}].name is missing`)
+
+  const sets = toNumber(input.sets)
+  if (sets === null) errors.push(`[${index}].sets is not a number`)
+
+  // Reps are a string so ranges like "8-12" work
+  const reps = typeof input.reps === 'number' ? String(input.reps) : optionalString(input.reps)
+  if (!reps) errors.push(`[${index}].reps is missing`)
+
+  const rest = toNumber(input.rest_seconds)
+  if (rest === null) errors.push(`[${index}].rest_seconds is not a number`)
+
+  if (errors.length > 0 || !name || sets === null || !reps || rest === null) {
+    return { value: null, errors, repaired }
+  }
+
+  const value: GeneratedExercise = {
+    name,
+    sets: clamp(sets, SETS_RANGE),
+    reps,
+    rest_seconds: clamp(rest, REST_SECONDS_RANGE),
+  }
+  const notes = optionalString(input.notes)
+  if (notes) value.notes = notes
+
+  repaired = value.sets !== input.sets
+    || value.rest_seconds !== input.rest_seconds
+    || value.reps !== input.reps
+
+  return { value, errors, repaired }
+}
+
+/**
+ * Validate each item, dropping ones that can't be repaired
+ */
+function validateList<T>(
+  input: unknown,
+  validateItem: (item: unknown, index: number) => ValidationResult<T>
+): ValidationResult<T[]> {
+  if (!Array.isArray(input)) {
+    return { value: null, errors: ['expected a JSON array'], repaired: false }
+  }
+
+  const results = input.map(validateItem)
+  const value = results.flatMap(result => (result.value ? [result.value] : []))
+  const errors = results.flatMap(result => result.errors)
+
+  if (value.length === 0) {
+    return { value: null, errors: errors.length > 0 ? errors : ['array is empty'], repaired: false }
+  }
+
+  // Dropped items count as a repair
+  return {
+    value,
+    errors: [],
+    repaired: errors.length > 0 || results.some(result => result.repaired),
+  }
+}
+
+export const generatedWorkoutSchema: Schema<GeneratedExercise[]> = (input) =>
+  validateList(input, validateExercise)
+
+export const alternativesSchema: Schema<GeneratedAlternative[]> = (input) =>
+  validateList(input, (item, index) => {
+    const result = validateExercise(item, index)
+    if (!result.value) return { ...result, value: null }
+
+    const reason = isObject(item) ? optionalString(item.reason) : undefined
+    return {
+      value: { ...result.value, reason: reason || 'Similar movement pattern' },
+      errors: [],
+      repaired: result.repaired || !reason,
+    }
+  })
+
+export const replacementValidationSchema: Schema<ReplacementValidation> = (input) => {
+  if (!isObject(input)) {
+    return { value: null, errors: ['expected a JSON object'], repaired: false }
+  }
+
+  let repaired = false
+  let isGood: boolean
+  if (typeof input.isGood === 'boolean') {
+    isGood = input.isGood
+  } else if (input.isGood === 'true' || input.isGood === 'false') {
+    isGood = input.isGood === 'true'
+    repaired = true
+  } else {
+    return { value: null, errors: ['isGood is not a boolean'], repaired }
+  }
+
+  const feedback = optionalString(input.feedback)
+  if (!feedback) {
+    return { value: null, errors: ['feedback is missing'], repaired }
+  }
+
+  const suggestion = optionalString(input.suggestion) || null
+  if (input.suggestion !== undefined && input.suggestion !== null && !suggestion) repaired = true
+
+  return { value: { isGood, feedback, suggestion }, errors: [], repaired }
+}
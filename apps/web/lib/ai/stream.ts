@@ -0,0 +1,172 @@
+/**
+ * Server-Sent Events
+ *
+ * Streaming for AI routes that would otherwise block until the model
+ * finishes. Each event is a name plus a JSON payload:
+ *
+ *   event: chunk
+ *   data: {"text":"Great week"}
+ *
+ * SERVER: return createEventStream(async (send) => { ... })
+ * CLIENT: await readEventStream(response, (event, data) => { ... })
+ *
+ * Also parses a streaming JSON array element by element, so workout
+ * generation can show each exercise as soon as the model finishes it.
+ */
+
+export type SendEvent = (event: string, data: unknown) => void
+
+/**
+ * Run a producer and stream what it sends as an SSE response
+ *
+ * The producer gets an AbortSignal that fires when the client goes
+ * away, so it can stop calling the model. Errors thrown by the
+ * producer are sent as an 'error' event.
+ */
+export function createEventStream(
+  produce: (send: SendEvent, signal: AbortSignal) => Promise<void>,
+  requestSignal?: AbortSignal
+): Response {
+  const encoder = new TextEncoder()
+  const abort = new AbortController()
+  requestSignal?.addEventListener('abort', () => abort.abort())
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send: SendEvent = (event, data) => {
+        if (abort.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`))
+      }
+
+      try {
+        await produce(send, abort.signal)
+      } catch (error) {
+        if (!abort.signal.aborted) {
+          console.error('Event stream error:', error)
+          send('error', { error: 'Something went wrong' })
+        }
+      } finally {
+        if (!abort.signal.aborted) controller.close()
+      }
+    },
+    cancel() {
+      abort.abort()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
+/**
+ * Read an SSE response, calling onEvent for each event as it arrives
+ *
+ * Resolves when the stream ends. Aborting the fetch() that produced
+ * the response stops reading - it rejects with an AbortError.
+ */
+export async function readEventStream(
+  response: Response,
+  onEvent: (event: string, data: unknown) => void
+): Promise<void> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true })
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary)
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      let event = 'message'
+      let data = ''
+      for (const line of raw.split('\n')) {
+        if (line.startsWith('event: ')) event = line.slice(7)
+        else if (line.startsWith('data: ')) data += line.slice(6)
+      }
+
+      try {
+        onEvent(event, data ? JSON.parse(data) : null)
+      } catch (error) {
+        // A bad payload shouldn't end the stream
+        if (error instanceof SyntaxError) continue
+        throw error
+      }
+    }
+  }
+}
+
+/**
+ * Incrementally parse a JSON array arriving in chunks
+ *
+ * push() returns the top-level elements completed by that chunk,
+ * parsed. Text before the opening bracket (prose, ```json fences)
+ * is skipped; elements that fail to parse are dropped.
+ */
+export function createJSONArrayParser() {
+  let started = false
+  let depth = 0
+  let inString = false
+  let escaped = false
+  let element = ''
+
+  return {
+    push(chunk: string): unknown[] {
+      const completed: unknown[] = []
+
+      for (const char of chunk) {
+        if (!started) {
+          if (char === '[') started = true
+          continue
+        }
+
+        // Only objects and arrays inside the top-level array are collected
+        if (depth === 0) {
+          if (char === '{' || char === '[') {
+            depth = 1
+            element = char
+          }
+          continue
+        }
+
+        element += char
+
+        if (inString) {
+          if (escaped) escaped = false
+          else if (char === '\\') escaped = true
+          else if (char === '"') inString = false
+          continue
+        }
+
+        if (char === '"') inString = true
+        else if (char === '{' || char === '[') depth++
+        else if (char === '}' || char === ']') {
+          depth--
+          if (depth === 0) {
+            try {
+              completed.push(JSON.parse(element))
+            } catch {
+              // Malformed element - the full-response validation decides what to do
+            }
+            element = ''
+          }
+        }
+      }
+
+      return completed
+    },
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Structured Output
+ *
+ * Ask the provider for JSON, validate it against a schema and retry
+ * with the validation errors when it can't be repaired.
+ *
+ * OUTCOMES (recorded by ./metrics):
+ * - valid: first response passed as-is
+ * - repaired: first response passed after coercing/clamping fields
+ * - retried: a retry was needed
+ * - fallback: no usable output - the route used its built-in fallback
+ *
+ * Provider errors (network, rate limits) are thrown, not retried.
+ *
+ * With onItem, the first attempt is streamed and each array element is
+ * passed to it as soon as it's complete and valid (retries aren't streamed).
+ */
+
+import { extractJSON, type AIProvider, type GenerateOptions } from './provider'
+import type { Schema } from './schemas'
+import { createJSONArrayParser } from './stream'
+
+export type AIOutcome = 'valid' | 'repaired' | 'retried' | 'fallback'
+
+export interface StructuredResult<T> {
+  value: T | null
+  outcome: AIOutcome
+  attempts: number
+  errors: string[]
+}
+
+export const DEFAULT_RETRIES = 1
+
+export interface StructuredOptions<T> extends GenerateOptions {
+  retries?: number
+  onItem?: (item: T extends Array<infer Item> ? Item : never) => void
+}
+
+/**
+ * Stream a response, reporting each valid array element as it completes
+ */
+async function streamJSON<T>(
+  ai: AIProvider,
+  prompt: string,
+  schema: Schema<T>,
+  onItem: NonNullable<StructuredOptions<T>['onItem']>,
+  options: GenerateOptions
+): Promise<unknown> {
+  const parser = createJSONArrayParser()
+  let text = ''
+
+  for await (const chunk of ai.streamText(prompt, options)) {
+    text += chunk
+    for (const element of parser.push(chunk)) {
+      // Validate the element alone, as a one-item list
+      const checked = schema([element]).value
+      if (Array.isArray(checked) && checked.length > 0) onItem(checked[0])
+    }
+  }
+
+  return extractJSON(text)
+}
+
+export async function generateStructured<T>(
+  ai: AIProvider,
+  prompt: string,
+  schema: Schema<T>,
+  { retries = DEFAULT_RETRIES, onItem, ...options }: StructuredOptions<T> = {}
+): Promise<StructuredResult<T>> {
+  let attemptPrompt = prompt
+  let errors: string[] = []
+
+  for (let attempt = 1; attempt <= retries + 1; attempt++) {
+    const raw = onItem && attempt === 1
+      ? await streamJSON(ai, attemptPrompt, schema, onItem, options)
+      : await ai.generateJSON(attemptPrompt, options)
+    const result = raw === null
+      ? { value: null, errors: ['response contained no JSON'], repaired: false }
+      : schema(raw)
+
+    if (result.value !== null) {
+      const outcome: AIOutcome = attempt > 1 ? 'retried' : result.repaired ? 'repaired' : 'valid'
+      return { value: result.value, outcome, attempts: attempt, errors: [] }
+    }
+
+    // Tell the model what was wrong and ask again
+    errors = result.errors
+    attemptPrompt = `${prompt}
+
+Your previous response was invalid: ${errors.slice(0, 5).join('; ')}.
+Return ONLY valid JSON in exactly the requested format.`
+  }
+
+  return { value: null, outcome: 'fallback', attempts: retries + 1, errors }
+}
@@ -0,0 +1,413 @@
+/**
+ * AI Usage & Quotas
+ *
+ * Our own per-user budget for each AI route, instead of waiting for the
+ * provider to rate-limit us:
+ *
+ *   const quota = await checkAIQuota(supabase, user.id, 'coach')
+ *   if (!quota.allowed) return quotaExceededResponse(quota)
+ *   const ai = trackAIUsage(provider, user.id, 'coach')
+ *
+ * Every model call made through a tracked provider is recorded in ai_usage
+ * (model, tokens, latency, success). Calls from the same route request share
+ * a request_id, so a retry doesn't use up a second request from the budget.
+ *
+ * Users can only read their own ai_usage rows, so usage is written with the
+ * service role (lib/supabase/admin). Without SUPABASE_SERVICE_ROLE_KEY
+ * nothing is recorded and quotas aren't enforced.
+ *
+ * A request's first call reserves its row (status 'pending') before the model
+ * is called, so quick back-to-back requests already see each other in the
+ * quota. The row is completed with tokens and latency once the call returns.
+ *
+ * Quota checks fail open - if usage can't be read, the request goes ahead.
+ */
+
+import { NextResponse } from 'next/server'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from '@/lib/supabase/admin'
+import type { AIProvider, GenerateOptions, TokenUsage } from './provider'
+
+export type AIUsageRoute = 'coach' | 'coach_chat' | 'workout' | 'exercise' | 'weekly_report'
+
+export const AI_QUOTAS: Record<AIUsageRoute, { label: string; perMinute: number; perDay: number }> = {
+  coach: { label: 'coach insight', perMinute: 5, perDay: 30 },
+  coach_chat: { label: 'coach chat', perMinute: 10, perDay: 100 },
+  workout: { label: 'workout generation', perMinute: 3, perDay: 10 },
+  exercise: { label: 'exercise suggestion', perMinute: 10, perDay: 100 },
+  weekly_report: { label: 'weekly report', perMinute: 2, perDay: 5 },
+}
+
+export type QuotaCheck =
+  | { allowed: true }
+  | { allowed: false; window: 'minute' | 'day'; limit: number; retryAfterSeconds: number; message: string }
+
+export interface AICall {
+  latencyMs: number
+  inputTokens: number
+  outputTokens: number
+  success: boolean
+}
+
+export interface AIUsageTotals {
+  requests: number
+  calls: number
+  input_tokens: number
+  output_tokens: number
+  avg_latency_ms: number
+  error_rate: number
+}
+
+export interface AIUsageSummary {
+  totals: AIUsageTotals
+  byRoute: Array<AIUsageTotals & { route: string }>
+  byModel: Array<AIUsageTotals & { model: string }>
+  byUser: Array<AIUsageTotals & { user_id: string }>
+}
+
+// Rows per request when reading usage for the admin summary
+const SUMMARY_PAGE_SIZE = 1000
+
+function startOfToday(): Date {
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  return today
+}
+
+// ============================================
+// QUOTAS
+// ============================================
+
+export async function checkAIQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  route: AIUsageRoute
+): Promise<QuotaCheck> {
+  const quota = AI_QUOTAS[route]
+  const dayStart = startOfToday()
+
+  const { data, error } = await supabase
+    .from('ai_usage')
+    .select('request_id, created_at')
+    .eq('user_id', userId)
+    .eq('route', route)
+    .gte('created_at', dayStart.toISOString())
+
+  if (error) {
+    console.error('Error checking AI quota:', error)
+    return { allowed: true }
+  }
+
+  // Earliest call of each request
+  const requests = new Map<string, number>()
+  for (const row of data || []) {
+    const time = new Date(row.created_at).getTime()
+    const seen = requests.get(row.request_id)
+    if (seen === undefined || time < seen) requests.set(row.request_id, time)
+  }
+
+  if (requests.size >= quota.perDay) {
+    const tomorrow = new Date(dayStart)
+    tomorrow.setDate(tomorrow.getDate() + 1)
+    return {
+      allowed: false,
+      window: 'day',
+      limit: quota.perDay,
+      retryAfterSeconds: Math.ceil((tomorrow.getTime() - Date.now()) / 1000),
+      message: `You've used all ${quota.perDay} of today's ${quota.label} requests. They reset at midnight.`,
+    }
+  }
+
+  const minuteAgo = Date.now() - 60 * 1000
+  const lastMinute = Array.from(requests.values()).filter(time => time > minuteAgo).sort((a, b) => a - b)
+
+  if (lastMinute.length >= quota.perMinute) {
+    // Free again once the oldest request in the window is a minute old
+    const retryAfterSeconds = Math.max(1, Math.ceil((lastMinute[0] - minuteAgo) / 1000))
+    return {
+      allowed: false,
+      window: 'minute',
+      limit: quota.perMinute,
+      retryAfterSeconds,
+      message: `You're going a bit fast - try again in ${retryAfterSeconds}s.`,
+    }
+  }
+
+  return { allowed: true }
+}
+
+/**
+ * 429 with a message the UI can show as-is
+ */
+export function quotaExceededResponse(quota: Exclude<QuotaCheck, { allowed: true }>): NextResponse {
+  return NextResponse.json(
+    {
+      error: quota.message,
+      code: 'quota_exceeded',
+      window: quota.window,
+      retryAfter: quota.retryAfterSeconds,
+    },
+    { status: 429, headers: { 'Retry-After': String(quota.retryAfterSeconds) } }
+  )
+}
+
+// ============================================
+// USAGE RECORDING
+// ============================================
+
+/**
+ * Wrap a provider so every call reports its latency and token usage
+ *
+ * `onStart` runs before each call and returns the callback that receives
+ * the finished call. Both are awaited.
+ */
+export function meterAIProvider(
+  ai: AIProvider,
+  onStart: () => Promise<(call: AICall) => Promise<void>>
+): AIProvider {
+  const track = async (options: GenerateOptions = {}) => {
+    const onCall = await onStart()
+    const started = Date.now()
+    let usage: TokenUsage | null = null
+
+    return {
+      options: {
+        ...options,
+        onUsage: (reported: TokenUsage) => {
+          usage = reported
+          options.onUsage?.(reported)
+        },
+      },
+      finish(success: boolean) {
+        return onCall({
+          latencyMs: Date.now() - started,
+          inputTokens: usage?.inputTokens ?? 0,
+          outputTokens: usage?.outputTokens ?? 0,
+          success,
+        })
+      },
+    }
+  }
+
+  return {
+    ...ai,
+    async generateText(prompt, options) {
+      const call = await track(options)
+      let success = false
+      try {
+        const text = await ai.generateText(prompt, call.options)
+        success = true
+        return text
+      } finally {
+        await call.finish(success)
+      }
+    },
+    async generateJSON<T = unknown>(prompt: string, options?: GenerateOptions) {
+      const call = await track(options)
+      let success = false
+      try {
+        const json = await ai.generateJSON<T>(prompt, call.options)
+        success = true
+        return json
+      } finally {
+        await call.finish(success)
+      }
+    },
+    async *streamText(prompt, options) {
+      const call = await track(options)
+      let success = false
+      try {
+        yield* ai.streamText(prompt, call.options)
+        success = true
+      } finally {
+        await call.finish(success)
+      }
+    },
+    async *streamChat(messages, options) {
+      const call = await track(options)
+      let success = false
+      try {
+        yield* ai.streamChat(messages, call.options)
+        success = true
+      } finally {
+        await call.finish(success)
+      }
+    },
+  }
+}
+
+type UsageOwner = {
+  user_id: string
+  route: AIUsageRoute
+  request_id: string
+  provider: string
+  model: string
+}
+
+/**
+ * Insert a pending ai_usage row ahead of a call. Returns its id, or null
+ * if it couldn't be written (the call then records a row of its own).
+ */
+async function reserveAIUsage(supabase: SupabaseClient, owner: UsageOwner): Promise<string | null> {
+  try {
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .insert({ ...owner, status: 'pending' })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Error reserving AI usage:', error)
+      return null
+    }
+    return data.id
+  } catch (error) {
+    console.error('Error reserving AI usage:', error)
+    return null
+  }
+}
+
+/**
+ * Record a finished call, completing the reserved row when there is one
+ */
+export async function recordAIUsage(
+  supabase: SupabaseClient,
+  owner: UsageOwner,
+  call: AICall,
+  reservedId: string | null = null
+): Promise<void> {
+  const usage = {
+    status: 'complete',
+    input_tokens: call.inputTokens,
+    output_tokens: call.outputTokens,
+    latency_ms: call.latencyMs,
+    success: call.success,
+  }
+
+  try {
+    const { error } = reservedId
+      ? await supabase.from('ai_usage').update(usage).eq('id', reservedId)
+      : await supabase.from('ai_usage').insert({ ...owner, ...usage })
+
+    if (error) console.error('Error recording AI usage:', error)
+  } catch (error) {
+    console.error('Error recording AI usage:', error)
+  }
+}
+
+/**
+ * A provider whose calls are recorded against this user and route
+ *
+ * Create one per route request - its calls share a request_id.
+ */
+export function trackAIUsage(ai: AIProvider, userId: string, route: AIUsageRoute): AIProvider {
+  const supabase = createAdminClient()
+  if (!supabase) {
+    console.error('SUPABASE_SERVICE_ROLE_KEY is not set - AI usage is not recorded')
+    return ai
+  }
+
+  const owner: UsageOwner = {
+    user_id: userId,
+    route,
+    request_id: crypto.randomUUID(),
+    provider: ai.name,
+    model: ai.model,
+  }
+  let reserved = false
+
+  return meterAIProvider(ai, async () => {
+    // Only the first call reserves - retries share the request
+    let reservedId: string | null = null
+    if (!reserved) {
+      reserved = true
+      reservedId = await reserveAIUsage(supabase, owner)
+    }
+    return call => recordAIUsage(supabase, owner, call, reservedId)
+  })
+}
+
+// ============================================
+// REPORTING
+// ============================================
+
+type UsageRow = {
+  user_id: string
+  route: string
+  request_id: string
+  provider: string
+  model: string
+  input_tokens: number | null
+  output_tokens: number | null
+  latency_ms: number | null
+  success: boolean | null
+  status: 'pending' | 'complete'
+}
+
+function summarize(rows: UsageRow[]): AIUsageTotals {
+  // Pending rows are calls still running (or cut off) - they use up quota but have no results yet
+  const finished = rows.filter(row => row.status !== 'pending')
+  const calls = finished.length
+  const latency = finished.reduce((sum, row) => sum + (row.latency_ms || 0), 0)
+  const failures = finished.filter(row => !row.success).length
+
+  return {
+    requests: new Set(rows.map(row => row.request_id)).size,
+    calls,
+    input_tokens: finished.reduce((sum, row) => sum + (row.input_tokens || 0), 0),
+    output_tokens: finished.reduce((sum, row) => sum + (row.output_tokens || 0), 0),
+    avg_latency_ms: calls > 0 ? Math.round(latency / calls) : 0,
+    error_rate: calls > 0 ? Math.round((failures / calls) * 100) / 100 : 0,
+  }
+}
+
+function groupBy(rows: UsageRow[], key: (row: UsageRow) => string): Map<string, UsageRow[]> {
+  const groups = new Map<string, UsageRow[]>()
+  for (const row of rows) {
+    const group = groups.get(key(row)) || []
+    group.push(row)
+    groups.set(key(row), group)
+  }
+  return groups
+}
+
+/**
+ * Consumption across all users since a date
+ *
+ * Needs a client that can read every user's rows (see lib/supabase/admin).
+ */
+export async function getAIUsageSummary(
+  supabase: SupabaseClient,
+  since: string,
+  topUsers: number = 10
+): Promise<AIUsageSummary> {
+  // PostgREST caps each response, so read the range a page at a time
+  const rows: UsageRow[] = []
+  for (let from = 0; ; from += SUMMARY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('ai_usage')
+      .select('user_id, route, request_id, provider, model, input_tokens, output_tokens, latency_ms, success, status')
+      .gte('created_at', since)
+      .order('created_at')
+      .order('id')
+      .range(from, from + SUMMARY_PAGE_SIZE - 1)
+
+    if (error) throw error
+
+    rows.push(...(data || []))
+    if (!data || data.length < SUMMARY_PAGE_SIZE) break
+  }
+  const byTokens = (a: AIUsageTotals, b: AIUsageTotals) =>
+    (b.input_tokens + b.output_tokens) - (a.input_tokens + a.output_tokens)
+
+  return {
+    totals: summarize(rows),
+    byRoute: Array.from(groupBy(rows, row => row.route), ([route, group]) => ({ route, ...summarize(group) }))
+      .sort(byTokens),
+    byModel: Array.from(groupBy(rows, row => `${row.provider}/${row.model}`), ([model, group]) => ({ model, ...summarize(group) }))
+      .sort(byTokens),
+    byUser: Array.from(groupBy(rows, row => row.user_id), ([user_id, group]) => ({ user_id, ...summarize(group) }))
+      .sort(byTokens)
+      .slice(0, topUsers),
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Training Analytics
+ *
+ * Shared math for workout sets:
+ * - Estimated one-rep max (Epley or Brzycki)
+ * - Volume (reps × weight)
+ * - Personal record detection against previous sessions
+ * - detectSessionRecords: the client call that (re)detects a session's records
+ */
+
+export type OneRepMaxFormula = 'epley' | 'brzycki'
+
+export const ONE_REP_MAX_FORMULAS: Array<{ value: OneRepMaxFormula; label: string; description: string }> = [
+  { value: 'epley', label: 'Epley', description: 'weight × (1 + reps / 30)' },
+  { value: 'brzycki', label: 'Brzycki', description: 'weight × 36 / (37 − reps)' },
+]
+
+export const DEFAULT_ONE_REP_MAX_FORMULA: OneRepMaxFormula = 'epley'
+
+export type RecordType = 'heaviest_weight' | 'best_e1rm' | 'most_reps' | 'best_volume'
+
+export const RECORD_LABELS: Record<RecordType, string> = {
+  heaviest_weight: 'Heaviest',
+  best_e1rm: 'Best e1RM',
+  most_reps: 'Most Reps',
+  best_volume: 'Best Volume',
+}
+
+export interface AnalyticsSet {
+  id?: string
+  exercise_id: string
+  session_id?: string
+  reps: number
+  weight_kg: number | null
+}
+
+// An exercise's earlier sessions, reduced to what record detection compares against
+export interface ExerciseBests {
+  // Most reps done at each weight (bodyweight sets at weight 0)
+  sets: Array<{ reps: number; weight_kg: number | null }>
+  // Best single-session volume
+  best_volume: number
+}
+
+export interface DetectedRecord {
+  exercise_id: string
+  record_type: RecordType
+  value: number
+  weight_kg: number | null
+  reps: number | null
+}
+
+/**
+ * Estimated one-rep max for a single set
+ * Returns null for bodyweight/unweighted sets.
+ */
+export function estimateOneRepMax(
+  weightKg: number | null,
+  reps: number,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number | null {
+  if (!weightKg || weightKg <= 0 || reps <= 0) return null
+  if (reps === 1) return weightKg
+
+  // Brzycki breaks down at very high reps, so fall back to Epley there
+  const estimate = formula === 'brzycki' && reps < 37
+    ? weightKg * 36 / (37 - reps)
+    : weightKg * (1 + reps / 30)
+
+  return Math.round(estimate * 10) / 10
+}
+
+/**
+ * Total volume (reps × weight) for a list of sets
+ */
+export function calculateVolume(sets: Array<{ reps: number; weight_kg: number | null }>): number {
+  return sets.reduce((sum, set) => sum + (set.reps * (set.weight_kg || 0)), 0)
+}
+
+/**
+ * Best estimated 1RM across a list of sets
+ */
+export function bestOneRepMax(
+  sets: Array<{ reps: number; weight_kg: number | null }>,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): number | null {
+  let best: number | null = null
+  for (const set of sets) {
+    const estimate = estimateOneRepMax(set.weight_kg, set.reps, formula)
+    if (estimate != null && (best == null || estimate > best)) best = estimate
+  }
+  return best
+}
+
+function groupByExercise<T extends AnalyticsSet>(sets: T[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const set of sets) {
+    const group = groups.get(set.exercise_id) || []
+    group.push(set)
+    groups.set(set.exercise_id, group)
+  }
+  return groups
+}
+
+/**
+ * Compare one session's sets against earlier bests and return new records
+ *
+ * Exercises without any history are skipped - the first time you do a lift
+ * everything would be a "record", which isn't useful.
+ */
+export function detectPersonalRecords(
+  sessionSets: AnalyticsSet[],
+  history: Map<string, ExerciseBests>,
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): DetectedRecord[] {
+  const records: DetectedRecord[] = []
+
+  for (const [exerciseId, sets] of groupByExercise(sessionSets)) {
+    const previous = history.get(exerciseId)?.sets
+    if (!previous || previous.length === 0) continue
+
+    const weighted = sets.filter(s => s.weight_kg && s.weight_kg > 0 && s.reps > 0)
+    const previousWeighted = previous.filter(s => s.weight_kg && s.weight_kg > 0 && s.reps > 0)
+
+    // Heaviest weight
+    if (weighted.length > 0) {
+      const top = weighted.reduce((best, s) => ((s.weight_kg as number) > (best.weight_kg as number) ? s : best))
+      const previousTop = Math.max(0, ...previousWeighted.map(s => s.weight_kg as number))
+      if ((top.weight_kg as number) > previousTop) {
+        records.push({ exercise_id: exerciseId, record_type: 'heaviest_weight', value: top.weight_kg as number, weight_kg: top.weight_kg, reps: top.reps })
+      }
+    }
+
+    // Best estimated 1RM
+    let bestSet: AnalyticsSet | null = null
+    let bestEstimate = 0
+    for (const set of weighted) {
+      const estimate = estimateOneRepMax(set.weight_kg, set.reps, formula) || 0
+      if (estimate > bestEstimate) {
+        bestEstimate = estimate
+        bestSet = set
+      }
+    }
+    const previousBestEstimate = bestOneRepMax(previousWeighted, formula) || 0
+    if (bestSet && bestEstimate > previousBestEstimate) {
+      records.push({ exercise_id: exerciseId, record_type: 'best_e1rm', value: bestEstimate, weight_kg: bestSet.weight_kg, reps: bestSet.reps })
+    }
+
+    // Most reps at a weight we've used before (bodyweight sets count as weight 0)
+    const bestRepsAtWeight = new Map<number, number>()
+    for (const set of sets) {
+      const weight = set.weight_kg || 0
+      bestRepsAtWeight.set(weight, Math.max(bestRepsAtWeight.get(weight) || 0, set.reps))
+    }
+    for (const [weight, reps] of bestRepsAtWeight) {
+      const previousAtWeight = previous.filter(s => (s.weight_kg || 0) === weight)
+      if (previousAtWeight.length === 0) continue
+      const previousMost = Math.max(...previousAtWeight.map(s => s.reps))
+      if (reps > previousMost) {
+        records.push({ exercise_id: exerciseId, record_type: 'most_reps', value: reps, weight_kg: weight || null, reps })
+      }
+    }
+
+    // Best single-session volume for this exercise
+    const volume = calculateVolume(sets)
+    const previousBestVolume = history.get(exerciseId)?.best_volume || 0
+    if (volume > 0 && volume > previousBestVolume) {
+      records.push({ exercise_id: exerciseId, record_type: 'best_volume', value: Math.round(volume), weight_kg: null, reps: null })
+    }
+  }
+
+  return records
+}
+
+/**
+ * Short label for a record badge, e.g. "Heaviest 100 kg"
+ */
+export function formatRecord(record: { record_type: RecordType; value: number; weight_kg: number | null; reps: number | null }): string {
+  switch (record.record_type) {
+    case 'heaviest_weight':
+      return `${RECORD_LABELS.heaviest_weight} ${record.value} kg`
+    case 'best_e1rm':
+      return `${RECORD_LABELS.best_e1rm} ${record.value} kg`
+    case 'most_reps':
+      return `${RECORD_LABELS.most_reps} ${record.value}${record.weight_kg ? ` @ ${record.weight_kg} kg` : ''}`
+    case 'best_volume':
+      return `${RECORD_LABELS.best_volume} ${record.value.toLocaleString()} kg`
+  }
+}
+
+/**
+ * Ask the server to (re)detect personal records for a saved session
+ *
+ * Call after a session's sets are saved. The sets are already stored,
+ * so a failure here is logged rather than thrown.
+ */
+export async function detectSessionRecords(sessionId: string): Promise<void> {
+  try {
+    const response = await fetch('/api/records', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId }),
+    })
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}))
+      console.error('Error detecting records:', data.error || response.statusText)
+    }
+  } catch (error) {
+    console.error('Error detecting records:', error)
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Coach Context
+ *
+ * The user data block every coach prompt is built on: profile, this
+ * week's workouts and volume per muscle group, active injuries, and
+ * today's / this week's nutrition.
+ *
+ * Shared by the one-shot coach route (insight, daily plan) and the
+ * chat route so follow-up questions see the same numbers.
+ *
+ * The fingerprint is a hash of the rows the context was built from -
+ * it changes whenever a workout, set or food log is added or edited,
+ * so it can key cached responses (see lib/ai/cache).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateWeeklyVolume, formatVolumeSummary } from './weeklyVolume'
+import { formatLimitationsForPrompt, getActiveLimitations } from './limitations'
+import { addDays, getDayStart, getTodayKey } from './schedule'
+import { hashCacheKey } from './ai/cache'
+import { calculateNutritionTargets } from './nutritionTargets'
+import { SEX_OPTIONS, estimateEnergy, getBMRFormulaLabel } from './energy'
+
+export interface CoachStats {
+  workoutsThisWeek: number
+  totalVolumeThisWeek: number
+  todayCalories: number
+  todayProtein: number
+  avgDailyCalories: number
+  avgDailyProtein: number
+}
+
+export interface CoachContext {
+  context: string
+  stats: CoachStats
+  fingerprint: string
+}
+
+export async function buildCoachContext(
+  supabase: SupabaseClient,
+  userId: string,
+  timeZone: string | null = null
+): Promise<CoachContext> {
+  // Fetch user's profile
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', userId)
+    .single()
+
+  // Get date ranges (days as the user sees them)
+  const todayKey = getTodayKey(timeZone)
+  const today = getDayStart(todayKey, timeZone)
+  const tomorrow = getDayStart(addDays(todayKey, 1), timeZone)
+  const weekAgo = getDayStart(addDays(todayKey, -7), timeZone)
+
+  // Fetch recent workouts (last 7 days)
+  const { data: recentWorkouts } = await supabase
+    .from('workout_sessions')
+    .select(`
+      id,
+      name,
+      started_at,
+      workout_sets (
+        id,
+        reps,
+        weight_kg,
+        rpe,
+        exercise:exercises (
+          name,
+          muscle_group
+        )
+      )
+    `)
+    .eq('user_id', userId)
+    .gte('started_at', weekAgo.toISOString())
+    .order('started_at', { ascending: false })
+
+  // Fetch today's nutrition
+  const { data: todayNutrition } = await supabase
+    .from('food_logs')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('logged_at', today.toISOString())
+    .lt('logged_at', tomorrow.toISOString())
+
+  // Fetch recent nutrition (last 7 days)
+  const { data: recentNutrition } = await supabase
+    .from('food_logs')
+    .select('id, calories, protein_g, carbs_g, fat_g, logged_at')
+    .eq('user_id', userId)
+    .gte('logged_at', weekAgo.toISOString())
+
+  // Calculate stats
+  const workoutsThisWeek = recentWorkouts?.length || 0
+  const totalVolumeThisWeek = recentWorkouts?.reduce((total, session) => {
+    const sessionVolume = session.workout_sets?.reduce((sum: number, set: { reps: number; weight_kg: number | null }) => {
+      return sum + (set.reps * (set.weight_kg || 0))
+    }, 0) || 0
+    return total + sessionVolume
+  }, 0) || 0
+
+  const todayCalories = todayNutrition?.reduce((sum, log) => sum + (log.calories || 0), 0) || 0
+  const todayProtein = todayNutrition?.reduce((sum, log) => sum + (log.protein_g || 0), 0) || 0
+
+  // Calculate weekly averages
+  const weeklyCalories = recentNutrition?.reduce((sum, log) => sum + (log.calories || 0), 0) || 0
+  const weeklyProtein = recentNutrition?.reduce((sum, log) => sum + (log.protein_g || 0), 0) || 0
+  const daysWithLogs = new Set(recentNutrition?.map(log => log.logged_at.split('T')[0])).size || 1
+  const avgDailyCalories = Math.round(weeklyCalories / daysWithLogs)
+  const avgDailyProtein = Math.round(weeklyProtein / daysWithLogs)
+  const targets = profile ? calculateNutritionTargets(profile) : null
+  const energy = profile ? estimateEnergy(profile) : null
+
+  // Hard sets and tonnage per muscle group this week
+  const weeklyVolume = calculateWeeklyVolume(
+    recentWorkouts?.flatMap(workout => workout.workout_sets || []) || [],
+    profile?.volume_targets
+  )
+
+  const context = `
+USER PROFILE:
+- Name: ${profile?.display_name || 'User'}
+- Goal: ${profile?.fitness_goal?.replace('_', ' ') || 'Not set'}
+- Activity Level: ${profile?.activity_level?.replace('_', ' ') || 'Not set'}
+- Height: ${profile?.height_cm ? `${profile.height_cm} cm` : 'Not set'}
+- Weight: ${profile?.weight_kg ? `${profile.weight_kg} kg` : 'Not set'}
+- Sex: ${SEX_OPTIONS.find(option => option.value === profile?.gender)?.label || 'Not set'}
+- Body fat: ${profile?.body_fat_pct ? `${profile.body_fat_pct}%` : 'Not set'}
+- BMR: ${energy ? `${energy.bmr} kcal (${getBMRFormulaLabel(energy.formula)})` : 'Not enough data'}
+- TDEE: ${energy?.tdee ? `${energy.tdee} kcal` : 'Not enough data'}
+
+THIS WEEK'S ACTIVITY:
+- Workouts completed: ${workoutsThisWeek}
+- Total volume lifted: ${Math.round(totalVolumeThisWeek)} kg
+
+WEEKLY VOLUME BY MUSCLE GROUP:
+${formatVolumeSummary(weeklyVolume)}
+
+INJURIES & LIMITATIONS (never recommend movements that load these):
+${formatLimitationsForPrompt(getActiveLimitations(profile?.limitations, todayKey))}
+
+DAILY NUTRITION TARGETS:
+${targets
+  ? `- Calories: ${targets.calories}\n- Protein: ${targets.protein_g}g\n- Carbs: ${targets.carbs_g}g\n- Fat: ${targets.fat_g}g`
+  : '- Not enough profile data to calculate'}
+
+TODAY'S NUTRITION:
+- Calories: ${todayCalories}
+- Protein: ${Math.round(todayProtein)}g
+
+WEEKLY NUTRITION AVERAGES:
+- Avg daily calories: ${avgDailyCalories}
+- Avg daily protein: ${avgDailyProtein}g
+`
+
+  // Today's date too - the week-long windows move with it
+  const fingerprint = hashCacheKey([todayKey, profile, recentWorkouts, todayNutrition, recentNutrition])
+
+  return {
+    context,
+    fingerprint,
+    stats: {
+      workoutsThisWeek,
+      totalVolumeThisWeek: Math.round(totalVolumeThisWeek),
+      todayCalories,
+      todayProtein: Math.round(todayProtein),
+      avgDailyCalories,
+      avgDailyProtein,
+    },
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Coach Tools
+ *
+ * Changes the chat coach can propose to the user's plan and food log.
+ * The model never writes anything itself - it appends proposals to its
+ * reply as tagged JSON:
+ *
+ *   <action>{"type":"skip_workout","date":"2026-01-05"}</action>
+ *
+ * The chat route strips these out and saves them on the message as
+ * pending; nothing changes until the user confirms one in the UI
+ * (POST /api/ai/coach/actions).
+ *
+ * Safe to import from client components - no database access here.
+ */
+
+import { SETS_RANGE, type ValidationResult } from './ai/schemas'
+import { MEAL_TYPES, type MealType } from './savedFoods'
+
+export type CoachAction =
+  | { type: 'swap_exercise'; date: string; from: string; to: string }
+  | { type: 'adjust_sets_reps'; date: string; exercise: string; sets?: number; reps?: string }
+  | { type: 'reschedule_day'; from_date: string; to_date: string }
+  | {
+      type: 'log_food'
+      name: string
+      meal_type: MealType
+      calories: number
+      protein_g: number
+      carbs_g: number
+      fat_g: number
+    }
+  | { type: 'skip_workout'; date: string }
+
+export type CoachActionStatus = 'pending' | 'applied' | 'dismissed'
+
+// Saved on coach_messages.actions
+export interface CoachProposal {
+  action: CoachAction
+  status: CoachActionStatus
+}
+
+// TodaysWorkout reloads when this fires after an applied action
+export const PLAN_UPDATED_EVENT = 'filo:plan-updated'
+
+// Proposals per reply - anything beyond is ignored
+export const MAX_ACTIONS_PER_REPLY = 3
+
+const ACTION_PATTERN = /<action>([\s\S]*?)<\/action>/g
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/**
+ * Tool descriptions for the chat system prompt
+ */
+export function formatToolsForPrompt(todayKey: string): string {
+  return `ACTIONS YOU CAN PROPOSE (today is ${todayKey}; dates are YYYY-MM-DD):
+- {"type":"swap_exercise","date":"...","from":"<exercise in the plan>","to":"<replacement>"}
+- {"type":"adjust_sets_reps","date":"...","exercise":"<exercise in the plan>","sets":3,"reps":"8-10"}
+- {"type":"reschedule_day","from_date":"...","to_date":"..."}
+- {"type":"log_food","name":"...","meal_type":"breakfast|lunch|dinner|snack|other","calories":0,"protein_g":0,"carbs_g":0,"fat_g":0}
+- {"type":"skip_workout","date":"..."}
+
+Only propose an action when the user asks for a change. Put each one at the very end of
+your reply as <action>{...}</action> (at most ${MAX_ACTIONS_PER_REPLY}). Nothing is changed until the
+user confirms, so say what you're proposing rather than claiming it's done.`
+}
+
+// ============================================
+// VALIDATION
+// ============================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function shortText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim().slice(0, 100) : null
+}
+
+function amount(value: unknown): number {
+  const number = typeof value === 'string' ? Number(value) : value
+  return typeof number === 'number' && Number.isFinite(number) && number > 0 ? Math.round(number) : 0
+}
+
+function dateKey(value: unknown, fallback: string): string | null {
+  if (value === undefined || value === null || value === '') return fallback
+  return typeof value === 'string' && DATE_PATTERN.test(value) ? value : null
+}
+
+/**
+ * Check a proposed action's shape. Dates default to today.
+ */
+export function parseCoachAction(input: unknown, todayKey: string): ValidationResult<CoachAction> {
+  const invalid = (error: string): ValidationResult<CoachAction> => ({ value: null, errors: [error], repaired: false })
+  if (!isObject(input)) return invalid('action is not an object')
+
+  switch (input.type) {
+    case 'swap_exercise': {
+      const date = dateKey(input.date, todayKey)
+      const from = shortText(input.from)
+      const to = shortText(input.to)
+      if (!date || !from || !to) return invalid('swap_exercise needs from, to and a valid date')
+      return { value: { type: 'swap_exercise', date, from, to }, errors: [], repaired: false }
+    }
+
+    case 'adjust_sets_reps': {
+      const date = dateKey(input.date, todayKey)
+      const exercise = shortText(input.exercise)
+      const sets = amount(input.sets)
+      const reps = typeof input.reps === 'number' ? String(input.reps) : shortText(input.reps)
+      if (!date || !exercise || (!sets && !reps)) {
+        return invalid('adjust_sets_reps needs an exercise, sets or reps, and a valid date')
+      }
+
+      const action: CoachAction = { type: 'adjust_sets_reps', date, exercise }
+      if (sets) action.sets = Math.min(SETS_RANGE.max, Math.max(SETS_RANGE.min, sets))
+      if (reps) action.reps = reps
+      return { value: action, errors: [], repaired: false }
+    }
+
+    case 'reschedule_day': {
+      const fromDate = dateKey(input.from_date, todayKey)
+      const toDate = dateKey(input.to_date, '')
+      if (!fromDate || !toDate || fromDate === toDate) {
+        return invalid('reschedule_day needs two different valid dates')
+      }
+      return { value: { type: 'reschedule_day', from_date: fromDate, to_date: toDate }, errors: [], repaired: false }
+    }
+
+    case 'log_food': {
+      const name = shortText(input.name)
+      if (!name) return invalid('log_food needs a name')
+
+      const mealType = MEAL_TYPES.includes(input.meal_type as MealType) ? input.meal_type as MealType : 'other'
+      return {
+        value: {
+          type: 'log_food',
+          name,
+          meal_type: mealType,
+          calories: amount(input.calories),
+          protein_g: amount(input.protein_g),
+          carbs_g: amount(input.carbs_g),
+          fat_g: amount(input.fat_g),
+        },
+        errors: [],
+        repaired: mealType !== input.meal_type,
+      }
+    }
+
+    case 'skip_workout': {
+      const date = dateKey(input.date, todayKey)
+      if (!date) return invalid('skip_workout needs a valid date')
+      return { value: { type: 'skip_workout', date }, errors: [], repaired: false }
+    }
+
+    default:
+      return invalid(`unknown action type: ${String(input.type)}`)
+  }
+}
+
+/**
+ * Separate a reply's text from its proposed actions
+ *
+ * Also hides an <action> block that's still streaming in, so the UI
+ * never flashes half a JSON object.
+ */
+export function splitCoachReply(reply: string, todayKey: string): { text: string; actions: CoachAction[] } {
+  const actions: CoachAction[] = []
+
+  for (const match of reply.matchAll(ACTION_PATTERN)) {
+    if (actions.length >= MAX_ACTIONS_PER_REPLY) break
+    try {
+      const parsed = parseCoachAction(JSON.parse(match[1]), todayKey)
+      if (parsed.value) actions.push(parsed.value)
+    } catch {
+      // Malformed JSON - drop the proposal, keep the text
+    }
+  }
+
+  let text = reply.replace(ACTION_PATTERN, '')
+  const unclosed = text.indexOf('<action')
+  if (unclosed !== -1) text = text.slice(0, unclosed)
+
+  return { text: text.trim(), actions }
+}
+
+function formatDay(date: string, todayKey: string): string {
+  return date === todayKey ? 'today' : date
+}
+
+/**
+ * One-line summary for the confirm card
+ */
+export function describeCoachAction(action: CoachAction, todayKey: string): string {
+  switch (action.type) {
+    case 'swap_exercise':
+      return `Swap ${action.from} → ${action.to} (${formatDay(action.date, todayKey)})`
+    case 'adjust_sets_reps': {
+      const changes = [action.sets && `${action.sets} sets`, action.reps && `${action.reps} reps`].filter(Boolean)
+      return `Set ${action.exercise} to ${changes.join(' × ')} (${formatDay(action.date, todayKey)})`
+    }
+    case 'reschedule_day':
+      return `Move ${formatDay(action.from_date, todayKey)}'s workout to ${formatDay(action.to_date, todayKey)}`
+    case 'log_food':
+      return `Log ${action.name} (${action.meal_type}) - ${action.calories} kcal, ${action.protein_g}g protein`
+    case 'skip_workout':
+      return `Mark ${formatDay(action.date, todayKey)}'s workout as skipped`
+  }
+}
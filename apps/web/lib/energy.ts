@@ -0,0 +1,166 @@
+/**
+ * Energy Expenditure
+ *
+ * BMR (calories burned at rest) and TDEE (with daily activity) from the
+ * user's profile stats. The one place this math lives - used by
+ * onboarding, the profile page, coach prompts and nutrition targets.
+ *
+ * FORMULAS (profiles.bmr_formula):
+ * - mifflin_st_jeor: the default, most accurate for most people
+ * - harris_benedict: the revised (Roza & Shizgal) version
+ * - katch_mcardle: from lean body mass - needs body fat %, otherwise
+ *   falls back to Mifflin-St Jeor
+ *
+ * Sex (profiles.gender) picks the male or female constants. "Prefer not
+ * to say" uses the average of the two.
+ */
+
+export type ActivityLevel = 'sedentary' | 'lightly_active' | 'active' | 'very_active'
+
+export const ACTIVITY_LEVELS: Array<{ value: ActivityLevel; label: string; multiplier: number }> = [
+  { value: 'sedentary', label: 'Sedentary', multiplier: 1.2 },
+  { value: 'lightly_active', label: 'Lightly Active', multiplier: 1.375 },
+  { value: 'active', label: 'Active', multiplier: 1.55 },
+  { value: 'very_active', label: 'Very Active', multiplier: 1.725 },
+]
+
+export type Sex = 'male' | 'female' | 'unspecified'
+
+export const SEX_OPTIONS: Array<{ value: Sex; label: string }> = [
+  { value: 'male', label: 'Male' },
+  { value: 'female', label: 'Female' },
+  { value: 'unspecified', label: 'Prefer not to say' },
+]
+
+export type BMRFormula = 'mifflin_st_jeor' | 'harris_benedict' | 'katch_mcardle'
+
+export const BMR_FORMULAS: Array<{ value: BMRFormula; label: string; description: string }> = [
+  { value: 'mifflin_st_jeor', label: 'Mifflin-St Jeor', description: 'Best general estimate from height, weight, age and sex' },
+  { value: 'harris_benedict', label: 'Harris-Benedict', description: 'The classic formula, slightly higher for most people' },
+  { value: 'katch_mcardle', label: 'Katch-McArdle', description: 'From lean body mass - most accurate if you know your body fat %' },
+]
+
+export const DEFAULT_BMR_FORMULA: BMRFormula = 'mifflin_st_jeor'
+
+// Profile columns the calculations read, for select() calls
+export const ENERGY_PROFILE_COLUMNS = 'weight_kg, height_cm, date_of_birth, activity_level, gender, body_fat_pct, bmr_formula'
+
+export interface EnergyProfile {
+  weight_kg: number | null
+  height_cm: number | null
+  date_of_birth: string | null
+  activity_level: string | null
+  gender?: string | null
+  body_fat_pct?: number | null
+  bmr_formula?: string | null
+}
+
+export interface EnergyEstimate {
+  bmr: number
+  tdee: number | null
+  // The formula actually used (Katch-McArdle falls back without body fat)
+  formula: BMRFormula
+}
+
+/**
+ * Age in whole years from a 'YYYY-MM-DD' date of birth
+ */
+export function calculateAge(dob: string | null): number | null {
+  if (!dob) return null
+  // Parse YYYY-MM-DD without timezone issues
+  const [year, month, day] = dob.split('-').map(Number)
+  const birthDate = new Date(year, month - 1, day) // month is 0-indexed
+  const today = new Date()
+  let age = today.getFullYear() - birthDate.getFullYear()
+  const monthDiff = today.getMonth() - birthDate.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
+    age--
+  }
+  return age
+}
+
+function getSex(profile: EnergyProfile): Sex {
+  return profile.gender === 'male' || profile.gender === 'female' ? profile.gender : 'unspecified'
+}
+
+function hasBodyFat(profile: EnergyProfile): profile is EnergyProfile & { body_fat_pct: number } {
+  return typeof profile.body_fat_pct === 'number' && profile.body_fat_pct > 0 && profile.body_fat_pct < 70
+}
+
+/**
+ * The formula that will be used for this profile
+ */
+export function resolveBMRFormula(profile: EnergyProfile): BMRFormula {
+  const formula = BMR_FORMULAS.some(f => f.value === profile.bmr_formula)
+    ? profile.bmr_formula as BMRFormula
+    : DEFAULT_BMR_FORMULA
+
+  if (formula === 'katch_mcardle' && !hasBodyFat(profile)) return DEFAULT_BMR_FORMULA
+  return formula
+}
+
+// Male and female results, averaged for "prefer not to say"
+function bySex(sex: Sex, male: number, female: number): number {
+  if (sex === 'male') return male
+  if (sex === 'female') return female
+  return (male + female) / 2
+}
+
+export function calculateBMR(profile: EnergyProfile): number | null {
+  const weight = profile.weight_kg
+  if (!weight) return null
+
+  const formula = resolveBMRFormula(profile)
+
+  if (formula === 'katch_mcardle' && hasBodyFat(profile)) {
+    // BMR = 370 + (21.6 × lean body mass in kg)
+    const leanMass = weight * (1 - profile.body_fat_pct / 100)
+    return Math.round(370 + 21.6 * leanMass)
+  }
+
+  const height = profile.height_cm
+  const age = calculateAge(profile.date_of_birth)
+  if (!height || !age) return null
+
+  const sex = getSex(profile)
+
+  if (formula === 'harris_benedict') {
+    return Math.round(bySex(
+      sex,
+      88.362 + (13.397 * weight) + (4.799 * height) - (5.677 * age),
+      447.593 + (9.247 * weight) + (3.098 * height) - (4.330 * age)
+    ))
+  }
+
+  // BMR = (10 × weight in kg) + (6.25 × height in cm) - (5 × age) + 5 (male) / - 161 (female)
+  const base = (10 * weight) + (6.25 * height) - (5 * age)
+  return Math.round(bySex(sex, base + 5, base - 161))
+}
+
+export function calculateTDEE(profile: EnergyProfile): number | null {
+  const bmr = calculateBMR(profile)
+  if (!bmr || !profile.activity_level) return null
+
+  const activity = ACTIVITY_LEVELS.find(a => a.value === profile.activity_level)
+  if (!activity) return null
+
+  return Math.round(bmr * activity.multiplier)
+}
+
+/**
+ * BMR, TDEE and the formula used, or null without enough data
+ */
+export function estimateEnergy(profile: EnergyProfile): EnergyEstimate | null {
+  const bmr = calculateBMR(profile)
+  if (!bmr) return null
+
+  return {
+    bmr,
+    tdee: calculateTDEE(profile),
+    formula: resolveBMRFormula(profile),
+  }
+}
+
+export function getBMRFormulaLabel(formula: BMRFormula): string {
+  return BMR_FORMULAS.find(f => f.value === formula)?.label || formula
+}
@@ -0,0 +1,136 @@
+/**
+ * Equipment Profiles
+ *
+ * Named sets of available equipment (gym, home, travel...) stored on
+ * profiles.equipment_profiles. The one picked for the day constrains
+ * generated exercises and suggested alternatives.
+ *
+ * Exercises are checked against exercises.equipment when they match the
+ * database, otherwise the equipment is guessed from the exercise name.
+ * Anything we can't place (or equipment we don't track) is allowed.
+ */
+
+import { findBestMatch, type Exercise as DBExercise } from '@/lib/fuzzyMatch'
+
+export type Equipment =
+  | 'barbell'
+  | 'dumbbell'
+  | 'kettlebell'
+  | 'cable'
+  | 'machine'
+  | 'bands'
+  | 'bodyweight'
+
+export interface EquipmentProfile {
+  id: string
+  name: string
+  equipment: Equipment[]
+}
+
+export const EQUIPMENT: Array<{ value: Equipment; label: string }> = [
+  { value: 'barbell', label: 'Barbell' },
+  { value: 'dumbbell', label: 'Dumbbells' },
+  { value: 'kettlebell', label: 'Kettlebells' },
+  { value: 'cable', label: 'Cables' },
+  { value: 'machine', label: 'Machines' },
+  { value: 'bands', label: 'Bands' },
+  { value: 'bodyweight', label: 'Bodyweight' },
+]
+
+export const DEFAULT_EQUIPMENT_PROFILES: EquipmentProfile[] = [
+  {
+    id: 'gym',
+    name: 'Gym',
+    equipment: ['barbell', 'dumbbell', 'kettlebell', 'cable', 'machine', 'bands', 'bodyweight'],
+  },
+  {
+    id: 'home',
+    name: 'Home',
+    equipment: ['dumbbell', 'kettlebell', 'bands', 'bodyweight'],
+  },
+  {
+    id: 'travel',
+    name: 'Travel',
+    equipment: ['bands', 'bodyweight'],
+  },
+]
+
+// Checked in order - explicit equipment words before movement names
+const EQUIPMENT_KEYWORDS: Array<{ equipment: Equipment; keywords: string[] }> = [
+  { equipment: 'bodyweight', keywords: ['bodyweight'] },
+  { equipment: 'dumbbell', keywords: ['dumbbell', 'db ', 'goblet'] },
+  { equipment: 'kettlebell', keywords: ['kettlebell', 'kb ', 'swing'] },
+  { equipment: 'bands', keywords: ['band'] },
+  { equipment: 'cable', keywords: ['cable', 'pushdown', 'face pull', 'crossover'] },
+  { equipment: 'barbell', keywords: ['barbell', 'deadlift', 'bench press', 'overhead press', 'hip thrust', 'skull crusher'] },
+  {
+    equipment: 'machine',
+    keywords: ['machine', 'smith', 'leg press', 'leg extension', 'leg curl', 'pulldown', 'pec deck', 'hack squat', 'calf raise'],
+  },
+  {
+    equipment: 'bodyweight',
+    keywords: ['push-up', 'push up', 'pushup', 'pull-up', 'pull up', 'pullup', 'chin-up', 'chin up', 'dip', 'plank', 'inverted', 'lunge', 'glute bridge', 'crunch', 'leg raise', 'burpee'],
+  },
+  { equipment: 'dumbbell', keywords: ['curl', 'lateral raise', 'fly', 'flye', 'shrug'] },
+]
+
+const KNOWN_EQUIPMENT = new Set<string>(EQUIPMENT.map(e => e.value))
+
+/**
+ * Best guess at the equipment an exercise needs from its name
+ */
+export function guessEquipment(exerciseName: string): Equipment | null {
+  const name = `${exerciseName.toLowerCase()} `
+  const match = EQUIPMENT_KEYWORDS.find(({ keywords }) => keywords.some(k => name.includes(k)))
+  return match?.equipment || null
+}
+
+/**
+ * Equipment for an exercise - from the database when it matches, otherwise guessed
+ */
+export function getExerciseEquipment(exerciseName: string, exerciseList: DBExercise[] = []): string | null {
+  const match = exerciseList.length > 0 ? findBestMatch(exerciseName, exerciseList, 70).exercise : null
+  return match?.equipment || guessEquipment(exerciseName)
+}
+
+export function isEquipmentAvailable(equipment: string | null | undefined, available: Equipment[]): boolean {
+  if (!equipment) return true
+  const normalized = equipment.toLowerCase()
+  // 'other' and anything we don't track can't be ruled out
+  if (!KNOWN_EQUIPMENT.has(normalized)) return true
+  return available.includes(normalized as Equipment)
+}
+
+/**
+ * Keep only exercises doable with the available equipment
+ */
+export function filterByEquipment<T extends { name: string }>(
+  exercises: T[],
+  available: Equipment[],
+  exerciseList: DBExercise[] = []
+): T[] {
+  return exercises.filter(exercise =>
+    isEquipmentAvailable(getExerciseEquipment(exercise.name, exerciseList), available)
+  )
+}
+
+/**
+ * Saved profiles, or the defaults for users who haven't set any up
+ */
+export function getEquipmentProfiles(stored: EquipmentProfile[] | null | undefined): EquipmentProfile[] {
+  return stored && stored.length > 0 ? stored : DEFAULT_EQUIPMENT_PROFILES
+}
+
+export function findEquipmentProfile(
+  profiles: EquipmentProfile[],
+  id: string | null | undefined
+): EquipmentProfile | null {
+  return profiles.find(profile => profile.id === id) || null
+}
+
+export function formatEquipment(equipment: Equipment[]): string {
+  return EQUIPMENT
+    .filter(e => equipment.includes(e.value))
+    .map(e => e.label)
+    .join(', ')
+}
@@ -0,0 +1,121 @@
+/**
+ * Exercise History
+ *
+ * Loads every session that contains a given exercise and summarizes
+ * each one (top set, best e1RM, volume) for progress charts and the
+ * "last time" hints shown while planning or logging a workout.
+ *
+ * Works with both the server and browser Supabase clients.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import {
+  bestOneRepMax,
+  calculateVolume,
+  DEFAULT_ONE_REP_MAX_FORMULA,
+  type OneRepMaxFormula,
+} from '@/lib/analytics'
+
+export interface HistorySet {
+  set_number: number
+  reps: number
+  weight_kg: number | null
+}
+
+export interface ExercisePerformance {
+  session_id: string
+  session_name: string | null
+  started_at: string
+  sets: HistorySet[]
+  top_weight_kg: number | null
+  best_e1rm: number | null
+  volume: number
+}
+
+/**
+ * Summarize one session's sets for an exercise
+ */
+export function summarizePerformance(
+  session: { id: string; name: string | null; started_at: string },
+  sets: HistorySet[],
+  formula: OneRepMaxFormula = DEFAULT_ONE_REP_MAX_FORMULA
+): ExercisePerformance {
+  const sorted = [...sets].sort((a, b) => a.set_number - b.set_number)
+  const weights = sorted.map(s => s.weight_kg || 0).filter(w => w > 0)
+
+  return {
+    session_id: session.id,
+    session_name: session.name,
+    started_at: session.started_at,
+    sets: sorted,
+    top_weight_kg: weights.length > 0 ? Math.max(...weights) : null,
+    best_e1rm: bestOneRepMax(sorted, formula),
+    volume: Math.round(calculateVolume(sorted)),
+  }
+}
+
+/**
+ * Fetch a user's sessions for one exercise, newest first
+ *
+ * @param limit - Max number of sessions to return (omit for full history)
+ */
+export async function getExerciseHistory(
+  supabase: SupabaseClient,
+  userId: string,
+  exerciseId: string,
+  options: { limit?: number; formula?: OneRepMaxFormula } = {}
+): Promise<ExercisePerformance[]> {
+  // !inner keeps only sessions that contain the exercise,
+  // and the filter trims the embedded sets down to it
+  let query = supabase
+    .from('workout_sessions')
+    .select(`
+      id,
+      name,
+      started_at,
+      workout_sets!inner (
+        set_number,
+        reps,
+        weight_kg
+      )
+    `)
+    .eq('user_id', userId)
+    .eq('workout_sets.exercise_id', exerciseId)
+    .order('started_at', { ascending: false })
+
+  if (options.limit) {
+    query = query.limit(options.limit)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching exercise history:', error)
+    return []
+  }
+
+  return (data || []).map(session =>
+    summarizePerformance(session, session.workout_sets || [], options.formula)
+  )
+}
+
+/**
+ * Compact set summary, e.g. "80 kg × 8, 8, 7"
+ * Groups consecutive sets at the same weight.
+ */
+export function formatPerformanceSets(sets: HistorySet[]): string {
+  const groups: Array<{ weight: number | null; reps: number[] }> = []
+
+  for (const set of sets) {
+    const last = groups[groups.length - 1]
+    if (last && last.weight === set.weight_kg) {
+      last.reps.push(set.reps)
+    } else {
+      groups.push({ weight: set.weight_kg, reps: [set.reps] })
+    }
+  }
+
+  return groups
+    .map(group => `${group.weight ? `${group.weight} kg` : 'BW'} × ${group.reps.join(', ')}`)
+    .join(' · ')
+}
@@ -0,0 +1,167 @@
+/**
+ * Food Database
+ *
+ * Shared foods (the foods table, seeded by scripts/import-foods.mjs)
+ * with nutrients stored per 100 g, so any amount can be logged by weight:
+ *
+ *   calculateFoodMacros(food, 150) // macros for 150 g
+ *
+ * SEARCH:
+ * Two candidate queries, ranked together in the app:
+ * 1. Full-text search on the name (stemmed, so "eggs" finds "Egg, whole")
+ * 2. The closest names by pg_trgm word similarity (the search_foods_fuzzy
+ *    function), which catches typos full-text search misses ("chiken brest")
+ * Candidates are then scored word by word with Levenshtein similarity,
+ * and anything below MIN_SEARCH_SCORE is dropped.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { levenshteinSimilarity } from './fuzzyMatch'
+
+// Nutrients are per 100 g
+export interface Food {
+  id: string
+  name: string
+  brand: string | null
+  category: string | null
+  source: string
+  calories: number
+  protein_g: number
+  carbs_g: number
+  fat_g: number
+  fiber_g: number | null
+  serving_g: number | null
+  serving_label: string | null
+}
+
+export interface FoodMacros {
+  calories: number
+  protein_g: number
+  carbs_g: number
+  fat_g: number
+}
+
+export const FOOD_COLUMNS = 'id, name, brand, category, source, calories, protein_g, carbs_g, fat_g, fiber_g, serving_g, serving_label'
+
+// Rows fetched per candidate query before ranking
+const CANDIDATE_LIMIT = 100
+
+// Average per-word similarity (0-100) a result needs to be shown
+const MIN_SEARCH_SCORE = 70
+
+// Boost for rows the full-text query matched
+const FULL_TEXT_BONUS = 10
+
+/**
+ * Round to one decimal place, as gram amounts are shown
+ */
+export function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10
+}
+
+/**
+ * Macros for an amount in grams
+ */
+export function calculateFoodMacros(food: FoodMacros, grams: number): FoodMacros {
+  const factor = grams / 100
+  return {
+    calories: Math.round(food.calories * factor),
+    protein_g: roundTenth(food.protein_g * factor),
+    carbs_g: roundTenth(food.carbs_g * factor),
+    fat_g: roundTenth(food.fat_g * factor),
+  }
+}
+
+/**
+ * Macros for one serving, or null when the food has no serving size
+ */
+export function getServingMacros(food: Food): FoodMacros | null {
+  return food.serving_g ? calculateFoodMacros(food, food.serving_g) : null
+}
+
+/**
+ * e.g. "1 cup (158g)", or "100g" without a serving size
+ */
+export function formatServing(food: Food): string {
+  if (!food.serving_g) return '100g'
+  return food.serving_label
+    ? `${food.serving_label} (${food.serving_g}g)`
+    : `${food.serving_g}g`
+}
+
+function normalizeFoodText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * How well a food name matches a search, 0-100.
+ * Each search word is scored against its closest word in the name
+ * (prefixes count as a near match, so "chick" finds "chicken").
+ */
+export function scoreFoodMatch(query: string, name: string): number {
+  const queryWords = normalizeFoodText(query).split(' ').filter(Boolean)
+  const nameWords = normalizeFoodText(name).split(' ').filter(Boolean)
+  if (queryWords.length === 0 || nameWords.length === 0) return 0
+
+  const wordScores = queryWords.map(queryWord => Math.max(
+    ...nameWords.map(nameWord => {
+      if (nameWord === queryWord) return 100
+      if (nameWord.startsWith(queryWord)) return 90
+      return levenshteinSimilarity(queryWord, nameWord)
+    })
+  ))
+  const score = wordScores.reduce((sum, s) => sum + s, 0) / wordScores.length
+
+  // Prefer names where the search is the first word, and shorter names
+  // ("Banana, raw" over "Bread, banana")
+  const leadBonus = nameWords[0].startsWith(queryWords[0]) ? 5 : 0
+  const lengthPenalty = Math.max(0, nameWords.length - queryWords.length)
+
+  return Math.max(0, Math.min(100, score + leadBonus - lengthPenalty))
+}
+
+/**
+ * Search the food database, best matches first
+ */
+export async function searchFoods(
+  supabase: SupabaseClient,
+  query: string,
+  limit: number = 20
+): Promise<Food[]> {
+  const terms = normalizeFoodText(query).split(' ').filter(term => term.length >= 2)
+  if (terms.length === 0) return []
+
+  const [fullText, fuzzy] = await Promise.all([
+    supabase
+      .from('foods')
+      .select(FOOD_COLUMNS)
+      .textSearch('name', terms.join(' '), { type: 'websearch', config: 'english' })
+      .limit(CANDIDATE_LIMIT),
+    supabase
+      .rpc('search_foods_fuzzy', { p_query: terms.join(' '), p_limit: CANDIDATE_LIMIT })
+      .select(FOOD_COLUMNS),
+  ])
+
+  if (fullText.error) throw fullText.error
+  if (fuzzy.error) throw fuzzy.error
+
+  const fullTextIds = new Set((fullText.data as Food[]).map(food => food.id))
+  const candidates = new Map<string, Food>()
+  for (const food of [...(fullText.data as Food[]), ...(fuzzy.data as Food[])]) {
+    candidates.set(food.id, food)
+  }
+
+  return Array.from(candidates.values())
+    .map(food => ({
+      food,
+      score: scoreFoodMatch(query, food.name) + (fullTextIds.has(food.id) ? FULL_TEXT_BONUS : 0),
+    }))
+    .filter(match => match.score >= MIN_SEARCH_SCORE)
+    .sort((a, b) => b.score - a.score || a.food.name.localeCompare(b.food.name))
+    .slice(0, limit)
+    .map(match => match.food)
+}
@@ -1,7 +1,8 @@
 /**
  * Fuzzy String Matching Utility
  * 
- * Used to match AI-generated exercise names to exercises in the database.
+ * Used to match AI-generated exercise names to exercises in the database,
+ * and for typo-tolerant food search (lib/foods).
  * Uses Levenshtein distance and word overlap for similarity scoring.
  */
 
@@ -41,7 +42,7 @@ function levenshteinDistance(a: string, b: string): number {
 /**
  * Calculate similarity percentage based on Levenshtein distance
  */
-function levenshteinSimilarity(a: string, b: string): number {
+export function levenshteinSimilarity(a: string, b: string): number {
   const distance = levenshteinDistance(a.toLowerCase(), b.toLowerCase())
   const maxLength = Math.max(a.length, b.length)
   if (maxLength === 0) return 100
@@ -0,0 +1,157 @@
+/**
+ * Injuries & Limitations
+ *
+ * Stored on profiles.limitations as a list. A limitation is active from
+ * its start date until its end date (or indefinitely without one).
+ *
+ * Active limitations are written into every AI prompt and enforced after
+ * generation - exercises matching a movement to avoid are filtered out:
+ * - mild: only the movements the user listed
+ * - moderate: also the common aggravating movements for the body area
+ * - severe: also anything training a muscle group that loads the area
+ *   (looked up in the exercises table, so callers pass the exercise list)
+ */
+
+import { findBestMatch, type Exercise as DBExercise } from './fuzzyMatch'
+
+export type BodyArea =
+  | 'neck'
+  | 'shoulder'
+  | 'elbow'
+  | 'wrist'
+  | 'upper_back'
+  | 'lower_back'
+  | 'hip'
+  | 'knee'
+  | 'ankle'
+
+export type LimitationSeverity = 'mild' | 'moderate' | 'severe'
+
+export interface Limitation {
+  id: string
+  body_area: BodyArea
+  severity: LimitationSeverity
+  avoid: string[]
+  notes?: string
+  start_date: string
+  end_date: string | null
+}
+
+// muscles: exercises.muscle_group values that put load through the area
+export const BODY_AREAS: Array<{ value: BodyArea; label: string; aggravating: string[]; muscles: string[] }> = [
+  { value: 'neck', label: 'Neck', aggravating: ['shrug', 'behind the neck', 'neck'], muscles: ['traps'] },
+  { value: 'shoulder', label: 'Shoulder', aggravating: ['overhead press', 'shoulder press', 'behind the neck', 'upright row', 'dip', 'snatch', 'handstand'], muscles: ['shoulders'] },
+  { value: 'elbow', label: 'Elbow', aggravating: ['skull crusher', 'tricep extension', 'close grip', 'dip', 'preacher curl'], muscles: ['biceps', 'triceps', 'forearms'] },
+  { value: 'wrist', label: 'Wrist', aggravating: ['push-up', 'front squat', 'clean', 'wrist curl', 'handstand'], muscles: ['forearms'] },
+  { value: 'upper_back', label: 'Upper Back', aggravating: ['shrug', 'upright row', 'pull-over'], muscles: ['back', 'traps'] },
+  { value: 'lower_back', label: 'Lower Back', aggravating: ['deadlift', 'good morning', 'barbell row', 'bent over row', 'back squat', 'barbell squat', 'hyperextension'], muscles: ['lower back'] },
+  { value: 'hip', label: 'Hip', aggravating: ['squat', 'lunge', 'hip thrust', 'sumo'], muscles: ['glutes'] },
+  { value: 'knee', label: 'Knee', aggravating: ['squat', 'lunge', 'leg extension', 'jump', 'step-up', 'leg press'], muscles: ['quads', 'hamstrings'] },
+  { value: 'ankle', label: 'Ankle', aggravating: ['jump', 'calf raise', 'lunge', 'running'], muscles: ['calves'] },
+]
+
+export const SEVERITIES: Array<{ value: LimitationSeverity; label: string; description: string }> = [
+  { value: 'mild', label: 'Mild', description: 'Train around it - skip only what you list' },
+  { value: 'moderate', label: 'Moderate', description: 'Also skip movements that usually aggravate it' },
+  { value: 'severe', label: 'Severe', description: 'Keep all load off this area' },
+]
+
+export function getBodyAreaLabel(area: BodyArea): string {
+  return BODY_AREAS.find(a => a.value === area)?.label || area
+}
+
+function getAreaMuscles(area: BodyArea): string[] {
+  return BODY_AREAS.find(a => a.value === area)?.muscles || []
+}
+
+export function isLimitationActive(limitation: Limitation, todayKey: string): boolean {
+  if (limitation.start_date && limitation.start_date > todayKey) return false
+  return !limitation.end_date || limitation.end_date >= todayKey
+}
+
+export function getActiveLimitations(
+  limitations: Limitation[] | null | undefined,
+  todayKey: string
+): Limitation[] {
+  return (limitations || []).filter(limitation => isLimitationActive(limitation, todayKey))
+}
+
+/**
+ * Movement keywords an exercise name is checked against
+ */
+function getAvoidedMovements(limitation: Limitation): string[] {
+  const listed = limitation.avoid.map(movement => movement.trim().toLowerCase()).filter(Boolean)
+  if (limitation.severity === 'mild') return listed
+
+  const area = BODY_AREAS.find(a => a.value === limitation.body_area)
+  return [...listed, ...(area?.aggravating || [])]
+}
+
+/**
+ * The limitation an exercise conflicts with, if any
+ *
+ * Severe limitations also rule out the muscle groups that load the area,
+ * for exercises found in `exerciseList`.
+ */
+export function findContraindication(
+  exerciseName: string,
+  active: Limitation[],
+  exerciseList: DBExercise[] = []
+): Limitation | null {
+  const name = exerciseName.toLowerCase()
+  const hasSevere = active.some(limitation => limitation.severity === 'severe')
+  const muscleGroup = hasSevere && exerciseList.length > 0
+    ? findBestMatch(exerciseName, exerciseList, 70).exercise?.muscle_group.toLowerCase()
+    : undefined
+
+  return active.find(limitation => {
+    if (getAvoidedMovements(limitation).some(movement => name.includes(movement))) return true
+    if (limitation.severity !== 'severe' || !muscleGroup) return false
+
+    const area = BODY_AREAS.find(a => a.value === limitation.body_area)
+    return area?.muscles.includes(muscleGroup) || false
+  }) || null
+}
+
+/**
+ * Split exercises into ones that are safe and ones a limitation rules out
+ */
+export function filterContraindicated<T extends { name: string }>(
+  exercises: T[],
+  active: Limitation[],
+  exerciseList: DBExercise[] = []
+): { allowed: T[]; removed: Array<{ exercise: T; limitation: Limitation }> } {
+  const allowed: T[] = []
+  const removed: Array<{ exercise: T; limitation: Limitation }> = []
+
+  for (const exercise of exercises) {
+    const limitation = findContraindication(exercise.name, active, exerciseList)
+    if (limitation) {
+      removed.push({ exercise, limitation })
+    } else {
+      allowed.push(exercise)
+    }
+  }
+
+  return { allowed, removed }
+}
+
+/**
+ * Bullet list for AI prompts
+ */
+export function formatLimitationsForPrompt(active: Limitation[]): string {
+  if (active.length === 0) return '- None'
+
+  return active.map(limitation => {
+    const avoid = getAvoidedMovements(limitation)
+    const parts = [
+      `- ${getBodyAreaLabel(limitation.body_area)} (${limitation.severity})`,
+      avoid.length > 0 ? `avoid: ${avoid.join(', ')}` : null,
+      limitation.severity === 'severe'
+        ? `do not load this area at all - no ${getAreaMuscles(limitation.body_area).join(', ')} exercises`
+        : null,
+      limitation.notes ? `notes: ${limitation.notes}` : null,
+    ]
+    return parts.filter(Boolean).join(' - ')
+  }).join('\n')
+}
@@ -0,0 +1,135 @@
+/**
+ * Nutrition Targets
+ *
+ * Daily calorie, protein, carb and fat targets derived from TDEE
+ * (see lib/energy) and the user's fitness goal:
+ *
+ * - Calories: TDEE plus a goal adjustment (deficit to lose, surplus to build)
+ * - Protein: grams per kg of bodyweight, higher when cutting or building
+ * - Fat: a fixed share of calories
+ * - Carbs: whatever calories are left
+ *
+ * Any of the four can be overridden via profiles.nutrition_targets,
+ * e.g. { "calories": 2200, "protein_g": 180 }. When only calories are
+ * overridden, the macros are re-split from the manual calorie number.
+ */
+
+import { calculateTDEE, type EnergyProfile } from './energy'
+
+export type NutritionTargetKey = 'calories' | 'protein_g' | 'carbs_g' | 'fat_g'
+
+export type NutritionTargetOverrides = Partial<Record<NutritionTargetKey, number>>
+
+export interface NutritionTargets {
+  calories: number
+  protein_g: number
+  carbs_g: number
+  fat_g: number
+  // Which values came from the user rather than the calculation
+  overridden: NutritionTargetKey[]
+}
+
+export interface NutritionTargetProfile extends EnergyProfile {
+  fitness_goal: string | null
+  nutrition_targets?: NutritionTargetOverrides | null
+}
+
+export const NUTRITION_TARGET_FIELDS: Array<{ key: NutritionTargetKey; label: string; unit: string }> = [
+  { key: 'calories', label: 'Calories', unit: 'kcal' },
+  { key: 'protein_g', label: 'Protein', unit: 'g' },
+  { key: 'carbs_g', label: 'Carbs', unit: 'g' },
+  { key: 'fat_g', label: 'Fat', unit: 'g' },
+]
+
+// Calories added to TDEE per goal
+export const GOAL_CALORIE_ADJUSTMENTS: Record<string, number> = {
+  lose_weight: -500,
+  build_muscle: 300,
+  get_stronger: 200,
+  maintain: 0,
+}
+
+// Protein per kg of bodyweight per goal
+const PROTEIN_G_PER_KG: Record<string, number> = {
+  lose_weight: 2.0,
+  build_muscle: 1.8,
+  get_stronger: 1.8,
+  maintain: 1.6,
+}
+const DEFAULT_PROTEIN_G_PER_KG = 1.6
+
+// Share of calories from fat
+const FAT_CALORIE_SHARE = 0.25
+
+// Never suggest eating less than this, whatever the deficit
+const MIN_CALORIES = 1200
+
+const CALORIES_PER_GRAM = { protein: 4, carbs: 4, fat: 9 }
+
+function isValidOverride(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0
+}
+
+/**
+ * Targets for a profile, or null when there isn't enough data
+ * (no TDEE and no manual calorie target)
+ */
+export function calculateNutritionTargets(profile: NutritionTargetProfile): NutritionTargets | null {
+  const overrides = profile.nutrition_targets || {}
+  const overridden = NUTRITION_TARGET_FIELDS
+    .map(field => field.key)
+    .filter(key => isValidOverride(overrides[key]))
+
+  const tdee = calculateTDEE(profile)
+  const calculatedCalories = tdee
+    ? Math.max(MIN_CALORIES, tdee + (GOAL_CALORIE_ADJUSTMENTS[profile.fitness_goal || ''] ?? 0))
+    : null
+
+  const calories = isValidOverride(overrides.calories) ? overrides.calories : calculatedCalories
+  if (!calories) return null
+
+  const proteinPerKg = PROTEIN_G_PER_KG[profile.fitness_goal || ''] ?? DEFAULT_PROTEIN_G_PER_KG
+  const protein = isValidOverride(overrides.protein_g)
+    ? overrides.protein_g
+    : profile.weight_kg
+      ? Math.round(profile.weight_kg * proteinPerKg)
+      // No weight to scale from - fall back to a 30% share
+      : Math.round((calories * 0.3) / CALORIES_PER_GRAM.protein)
+
+  const fat = isValidOverride(overrides.fat_g)
+    ? overrides.fat_g
+    : Math.round((calories * FAT_CALORIE_SHARE) / CALORIES_PER_GRAM.fat)
+
+  const remaining = calories - protein * CALORIES_PER_GRAM.protein - fat * CALORIES_PER_GRAM.fat
+  const carbs = isValidOverride(overrides.carbs_g)
+    ? overrides.carbs_g
+    : Math.max(0, Math.round(remaining / CALORIES_PER_GRAM.carbs))
+
+  return {
+    calories: Math.round(calories),
+    protein_g: Math.round(protein),
+    carbs_g: Math.round(carbs),
+    fat_g: Math.round(fat),
+    overridden,
+  }
+}
+
+/**
+ * Keep only positive numbers, so a cleared input removes its override
+ */
+export function cleanNutritionOverrides(overrides: Partial<Record<NutritionTargetKey, number | ''>>): NutritionTargetOverrides {
+  const cleaned: NutritionTargetOverrides = {}
+  for (const { key } of NUTRITION_TARGET_FIELDS) {
+    const value = overrides[key]
+    if (isValidOverride(value)) cleaned[key] = Math.round(value)
+  }
+  return cleaned
+}
+
+/**
+ * How much of a target has been reached, 0-1 (capped at 1 for progress rings)
+ */
+export function getTargetProgress(value: number, target: number | null | undefined): number {
+  if (!target || target <= 0) return 0
+  return Math.min(1, Math.max(0, value / target))
+}
@@ -0,0 +1,111 @@
+/**
+ * Planned Workout Moves
+ *
+ * Moving a planned day to another date, shared by the schedule
+ * calendar (PATCH /api/schedule) and coach actions.
+ *
+ * RULES:
+ * - Only upcoming, not-yet-completed days move, and never into the past
+ * - If the target date has a plan, the two days swap contents so there's
+ *   always one plan per date
+ * - Otherwise the plan moves and its old date is held as rest, so it
+ *   isn't re-projected on the next load
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export interface MovablePlan {
+  id: string
+  date: string
+  split_id: string | null
+  status: string
+  exercises: unknown
+  ai_reasoning: string | null
+}
+
+// error is user-facing; status is the HTTP status to return it with
+export type MoveResult = { error: null } | { error: string; status: number }
+
+export async function movePlannedWorkout(
+  supabase: SupabaseClient,
+  userId: string,
+  plan: MovablePlan,
+  date: string,
+  todayKey: string
+): Promise<MoveResult> {
+  if (plan.date < todayKey || plan.status === 'completed') {
+    return { error: 'Past or completed days can\'t be changed', status: 400 }
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return { error: 'Invalid date', status: 400 }
+  }
+  if (date < todayKey) {
+    return { error: 'Can\'t move a workout into the past', status: 400 }
+  }
+
+  const { data: target } = await supabase
+    .from('planned_workouts')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('date', date)
+    .maybeSingle()
+
+  if (target) {
+    if (target.status === 'completed') {
+      return { error: 'That day already has a completed workout', status: 400 }
+    }
+
+    // Swap what's planned rather than the dates, so the one-plan-per-day rule always holds
+    const contents = (row: MovablePlan) => ({
+      split_id: row.split_id,
+      status: row.status,
+      exercises: row.exercises,
+      ai_reasoning: row.ai_reasoning,
+    })
+
+    const { error: firstError } = await supabase
+      .from('planned_workouts')
+      .update(contents(target))
+      .eq('id', plan.id)
+
+    const { error: secondError } = await supabase
+      .from('planned_workouts')
+      .update(contents(plan))
+      .eq('id', target.id)
+
+    if (firstError || secondError) {
+      console.error('Error swapping days:', firstError || secondError)
+      return { error: 'Failed to move workout', status: 500 }
+    }
+
+    return { error: null }
+  }
+
+  const { error: moveError } = await supabase
+    .from('planned_workouts')
+    .update({ date })
+    .eq('id', plan.id)
+
+  if (moveError) {
+    console.error('Error moving day:', moveError)
+    return { error: 'Failed to move workout', status: 500 }
+  }
+
+  // Hold the old date as rest so it isn't re-projected on the next load
+  const { error: holdError } = await supabase
+    .from('planned_workouts')
+    .insert({
+      user_id: userId,
+      split_id: plan.split_id,
+      date: plan.date,
+      status: 'rest',
+      exercises: [],
+      ai_reasoning: `Workout moved to ${date}.`,
+    })
+
+  if (holdError) {
+    console.error('Error holding moved day:', holdError)
+  }
+
+  return { error: null }
+}
@@ -0,0 +1,176 @@
+/**
+ * Progressive Overload Engine
+ *
+ * Turns what the user actually lifted last time into a concrete target
+ * for the next session (load in kg + reps per set).
+ *
+ * MODELS:
+ * - linear: add weight every session as long as the bottom of the rep range was hit
+ * - double_progression: add reps until the top of the range, then add weight and reset reps
+ * - rpe: adjust load based on how hard the last session felt (falls back to double progression without RPE data)
+ */
+
+export type ProgressionModel = 'linear' | 'double_progression' | 'rpe'
+
+export const PROGRESSION_MODELS: Array<{ value: ProgressionModel; label: string; description: string }> = [
+  { value: 'linear', label: 'Linear', description: 'Add weight every session you hit your reps' },
+  { value: 'double_progression', label: 'Double Progression', description: 'Build reps to the top of the range, then add weight' },
+  { value: 'rpe', label: 'RPE-Based', description: 'Adjust weight based on how hard your last session felt' },
+]
+
+export const DEFAULT_PROGRESSION_MODEL: ProgressionModel = 'double_progression'
+
+export interface PreviousSet {
+  set_number: number
+  reps: number
+  weight_kg: number | null
+  rpe?: number | null
+}
+
+export interface Prescription {
+  model: ProgressionModel
+  target_weight_kg: number | null
+  target_reps: number
+  weight_change_kg: number
+  last_weight_kg: number | null
+  last_reps: number | null
+  last_performed_at: string | null
+}
+
+// Muscle groups that usually tolerate bigger jumps in load
+const LOWER_BODY_GROUPS = ['quads', 'hamstrings', 'glutes', 'lower back']
+
+// Smallest jump most gyms can load (2 × 0.625 kg plates)
+const PLATE_STEP_KG = 1.25
+
+// RPE we aim for on working sets
+const TARGET_RPE = 8
+
+/**
+ * Parse a rep range string like "8-12", "10" or "10-12 each"
+ */
+export function parseRepRange(reps: string): { min: number; max: number } {
+  const numbers = (reps.match(/\d+/g) || []).map(Number)
+  if (numbers.length === 0) return { min: 10, max: 10 }
+  if (numbers.length === 1) return { min: numbers[0], max: numbers[0] }
+  return { min: Math.min(numbers[0], numbers[1]), max: Math.max(numbers[0], numbers[1]) }
+}
+
+/**
+ * Weight increment for a successful session
+ */
+export function getIncrement(muscleGroup: string | null | undefined): number {
+  if (muscleGroup && LOWER_BODY_GROUPS.includes(muscleGroup.toLowerCase())) return 5
+  return 2.5
+}
+
+/**
+ * Round a load to something that can actually be put on the bar
+ */
+export function roundToPlate(weight: number): number {
+  return Math.round(weight / PLATE_STEP_KG) * PLATE_STEP_KG
+}
+
+/**
+ * Build a prescription for the next session from the previous session's sets
+ */
+export function prescribe({
+  model,
+  reps,
+  muscleGroup,
+  previousSets,
+  performedAt = null,
+}: {
+  model: ProgressionModel
+  reps: string
+  muscleGroup?: string | null
+  previousSets: PreviousSet[]
+  performedAt?: string | null
+}): Prescription {
+  const range = parseRepRange(reps)
+  const increment = getIncrement(muscleGroup)
+
+  // Only weighted sets tell us anything about load
+  const weightedSets = previousSets.filter(s => s.weight_kg && s.weight_kg > 0 && s.reps > 0)
+
+  if (weightedSets.length === 0) {
+    return {
+      model,
+      target_weight_kg: null,
+      target_reps: range.min,
+      weight_change_kg: 0,
+      last_weight_kg: null,
+      last_reps: null,
+      last_performed_at: performedAt,
+    }
+  }
+
+  // Working weight = heaviest load used; reps = worst set at that load
+  const lastWeight = Math.max(...weightedSets.map(s => s.weight_kg as number))
+  const workingSets = weightedSets.filter(s => s.weight_kg === lastWeight)
+  const lastReps = Math.min(...workingSets.map(s => s.reps))
+
+  let targetWeight = lastWeight
+  let targetReps = range.min
+
+  if (model === 'linear') {
+    if (lastReps >= range.min) {
+      targetWeight = lastWeight + increment
+    }
+  } else if (model === 'rpe' && workingSets.some(s => s.rpe != null)) {
+    const rpes = workingSets.filter(s => s.rpe != null).map(s => s.rpe as number)
+    const avgRpe = rpes.reduce((sum, r) => sum + r, 0) / rpes.length
+
+    if (avgRpe <= TARGET_RPE - 2) {
+      targetWeight = lastWeight + increment * 2
+    } else if (avgRpe < TARGET_RPE + 0.5) {
+      targetWeight = lastWeight + increment
+    } else if (avgRpe > TARGET_RPE + 1) {
+      targetWeight = lastWeight - increment
+    }
+  } else {
+    // Double progression (also the RPE fallback when no RPE was logged)
+    if (lastReps >= range.max) {
+      targetWeight = lastWeight + increment
+    } else {
+      targetReps = Math.min(range.max, Math.max(range.min, lastReps + 1))
+    }
+  }
+
+  targetWeight = Math.max(0, roundToPlate(targetWeight))
+
+  return {
+    model,
+    target_weight_kg: targetWeight,
+    target_reps: targetReps,
+    weight_change_kg: Math.round((targetWeight - lastWeight) * 100) / 100,
+    last_weight_kg: lastWeight,
+    last_reps: lastReps,
+    last_performed_at: performedAt,
+  }
+}
+
+/**
+ * Keep a prescription in step with an edited rep range
+ * The target load stands; the target reps are pulled into the new range.
+ */
+export function retargetPrescription(prescription: Prescription, reps: string): Prescription {
+  const range = parseRepRange(reps)
+  return {
+    ...prescription,
+    target_reps: Math.min(range.max, Math.max(range.min, prescription.target_reps)),
+  }
+}
+
+/**
+ * Human readable prescription, e.g. "3 × 8 @ 82.5 kg (+2.5 kg)"
+ */
+export function formatPrescription(sets: number, prescription: Prescription): string {
+  if (prescription.target_weight_kg == null) {
+    return `${sets} × ${prescription.target_reps}`
+  }
+
+  const change = prescription.weight_change_kg
+  const changeLabel = change === 0 ? '' : ` (${change > 0 ? '+' : ''}${change} kg)`
+  return `${sets} × ${prescription.target_reps} @ ${prescription.target_weight_kg} kg${changeLabel}`
+}
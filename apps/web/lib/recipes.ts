@@ -0,0 +1,189 @@
+/**
+ * Recipes
+ *
+ * Batch-cooked meals built from the food database:
+ * - recipes: name, number of servings and (optionally) the total cooked weight
+ * - recipe_ingredients: a food and its raw weight in grams
+ *
+ * Nutrition is the sum of the ingredients, split per serving and per
+ * 100 g of the finished dish. Cooking changes weight (water cooks off,
+ * rice absorbs it), so per-gram values use the cooked weight when it's
+ * known and the raw ingredient weight otherwise.
+ *
+ * Portions are logged to food_logs with recipe_id, either as a fraction
+ * of a serving or by weighing out the cooked dish.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateFoodMacros, FOOD_COLUMNS, roundTenth, type Food, type FoodMacros } from './foods'
+import { scaleMacros, sumMacros, type MealType } from './savedFoods'
+
+export interface RecipeIngredient {
+  id?: string
+  food: Food
+  grams: number
+}
+
+export interface Recipe {
+  id: string
+  name: string
+  servings: number
+  cooked_weight_g: number | null
+  ingredients: RecipeIngredient[]
+}
+
+export interface RecipeNutrition {
+  total: FoodMacros
+  per_serving: FoodMacros
+  per_100g: FoodMacros
+  // Weight the per-gram values are based on
+  weight_g: number
+  weight_source: 'cooked' | 'raw'
+}
+
+// A portion: some servings, or grams of the cooked dish
+export type RecipePortion = { servings: number } | { grams: number }
+
+/**
+ * Total, per-serving and per-100g macros from the ingredients
+ */
+export function calculateRecipeNutrition(
+  recipe: Pick<Recipe, 'servings' | 'cooked_weight_g' | 'ingredients'>
+): RecipeNutrition {
+  const total = sumMacros(recipe.ingredients.map(ingredient => calculateFoodMacros(ingredient.food, ingredient.grams)))
+  const rawWeight = recipe.ingredients.reduce((sum, ingredient) => sum + ingredient.grams, 0)
+  const weight = recipe.cooked_weight_g || rawWeight
+  const servings = recipe.servings > 0 ? recipe.servings : 1
+
+  return {
+    total,
+    per_serving: scaleMacros(total, 1 / servings),
+    per_100g: weight > 0 ? scaleMacros(total, 100 / weight) : { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 },
+    weight_g: Math.round(weight),
+    weight_source: recipe.cooked_weight_g ? 'cooked' : 'raw',
+  }
+}
+
+/**
+ * Macros for a portion of the recipe
+ */
+export function getPortionMacros(nutrition: RecipeNutrition, portion: RecipePortion): FoodMacros {
+  return 'servings' in portion
+    ? scaleMacros(nutrition.per_serving, portion.servings)
+    : scaleMacros(nutrition.per_100g, portion.grams / 100)
+}
+
+/**
+ * Weight of a portion, when the recipe's weight is known
+ */
+export function getPortionGrams(recipe: Recipe, nutrition: RecipeNutrition, portion: RecipePortion): number | null {
+  if ('grams' in portion) return Math.round(portion.grams)
+  if (nutrition.weight_g <= 0) return null
+  return Math.round((nutrition.weight_g / (recipe.servings || 1)) * portion.servings)
+}
+
+/**
+ * The food_logs row for a portion of a recipe
+ */
+export function buildRecipeLog(
+  recipe: Recipe,
+  portion: RecipePortion,
+  options: { userId: string; mealType: MealType; loggedAt: string }
+) {
+  const nutrition = calculateRecipeNutrition(recipe)
+  const label = 'servings' in portion
+    ? `${roundTenth(portion.servings)} serving${portion.servings === 1 ? '' : 's'}`
+    : `${Math.round(portion.grams)}g`
+
+  return {
+    user_id: options.userId,
+    name: `${recipe.name} (${label})`,
+    meal_type: options.mealType,
+    ...getPortionMacros(nutrition, portion),
+    recipe_id: recipe.id,
+    quantity_g: getPortionGrams(recipe, nutrition, portion),
+    logged_at: options.loggedAt,
+  }
+}
+
+const RECIPE_SELECT = `id, name, servings, cooked_weight_g, recipe_ingredients (id, grams, position, foods (${FOOD_COLUMNS}))`
+
+// Supabase returns the embedded food as an object or a single-item array
+type FoodRef = Food | Food[] | null
+
+type RecipeRow = {
+  id: string
+  name: string
+  servings: number
+  cooked_weight_g: number | null
+  recipe_ingredients: Array<{ id: string; grams: number; position: number; foods: FoodRef }> | null
+}
+
+function toRecipe(row: RecipeRow): Recipe {
+  const ingredients: RecipeIngredient[] = []
+  for (const ingredient of [...(row.recipe_ingredients || [])].sort((a, b) => a.position - b.position)) {
+    const food = Array.isArray(ingredient.foods) ? ingredient.foods[0] : ingredient.foods
+    // Foods deleted since the recipe was saved drop out
+    if (food) ingredients.push({ id: ingredient.id, food, grams: ingredient.grams })
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    servings: row.servings,
+    cooked_weight_g: row.cooked_weight_g,
+    ingredients,
+  }
+}
+
+/**
+ * A recipe with its ingredients and their foods, or null if not found
+ */
+export async function getRecipe(supabase: SupabaseClient, recipeId: string): Promise<Recipe | null> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(RECIPE_SELECT)
+    .eq('id', recipeId)
+    .single()
+
+  if (error || !data) return null
+  return toRecipe(data)
+}
+
+/**
+ * All of a user's recipes, alphabetically
+ */
+export async function getRecipes(supabase: SupabaseClient, userId: string): Promise<Recipe[]> {
+  const { data, error } = await supabase
+    .from('recipes')
+    .select(RECIPE_SELECT)
+    .eq('user_id', userId)
+    .order('name')
+
+  if (error) throw error
+  return (data || []).map(toRecipe)
+}
+
+/**
+ * Create or update a recipe. Ingredients are replaced wholesale on update,
+ * in one transaction (the save_recipe function) so a failed save can't
+ * leave the recipe empty. Returns the recipe id.
+ */
+export async function saveRecipe(
+  supabase: SupabaseClient,
+  recipe: Omit<Recipe, 'id'> & { id?: string }
+): Promise<string> {
+  const { data, error } = await supabase.rpc('save_recipe', {
+    p_recipe_id: recipe.id || null,
+    p_name: recipe.name,
+    p_servings: recipe.servings,
+    p_cooked_weight_g: recipe.cooked_weight_g,
+    p_ingredients: recipe.ingredients.map(ingredient => ({
+      food_id: ingredient.food.id,
+      grams: ingredient.grams,
+    })),
+  })
+
+  if (error) throw error
+  return data as string
+}
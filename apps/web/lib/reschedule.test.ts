@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest'
+import { decideTodaysSplit, findMissedWorkouts } from './reschedule'
+import type { PlanStatus, SchedulePlan, ScheduleSplit } from './schedule'
+
+// 2026-10-12 is a Monday
+const MON = '2026-10-12'
+const TUE = '2026-10-13'
+const WED = '2026-10-14'
+const THU = '2026-10-15'
+const FRI = '2026-10-16'
+const SAT = '2026-10-17'
+const SUN = '2026-10-18'
+
+function split(id: string, order: number, extra: Partial<ScheduleSplit> = {}): ScheduleSplit {
+  return {
+    id,
+    name: id.charAt(0).toUpperCase() + id.slice(1),
+    order_in_rotation: order,
+    is_rest_day: false,
+    color: null,
+    muscle_groups: [id],
+    pinned_days: null,
+    ...extra,
+  }
+}
+
+function plan(date: string, splitId: string | null, status: PlanStatus): SchedulePlan {
+  return { id: `${date}-${splitId}`, date, split_id: splitId, status }
+}
+
+const push = split('push', 1)
+const pull = split('pull', 2)
+const legs = split('legs', 3)
+const rotation = [push, pull, legs]
+
+const ids = (splits: Array<{ split: ScheduleSplit }>) => splits.map(m => m.split.id)
+
+describe('findMissedWorkouts', () => {
+  it('returns nothing for a user with no plans in the lookback window', () => {
+    expect(findMissedWorkouts(rotation, [], THU)).toEqual({ missed: [], lastRotationSplitId: null })
+  })
+
+  it('counts days with no plan as missed rotation slots', () => {
+    const { missed, lastRotationSplitId } = findMissedWorkouts(rotation, [plan(MON, 'push', 'completed')], THU)
+
+    expect(missed).toEqual([
+      { date: TUE, split: pull },
+      { date: WED, split: legs },
+    ])
+    expect(lastRotationSplitId).toBe('legs')
+  })
+
+  it('counts skipped and past planned days as missed', () => {
+    const { missed } = findMissedWorkouts(rotation, [
+      plan(MON, 'push', 'completed'),
+      plan(TUE, 'pull', 'skipped'),
+      plan(WED, 'legs', 'planned'),
+    ], THU)
+
+    expect(ids(missed)).toEqual(['pull', 'legs'])
+  })
+
+  it('only counts from the last completed rotation workout', () => {
+    const { missed } = findMissedWorkouts(rotation, [
+      plan(MON, 'push', 'skipped'),
+      plan(TUE, 'pull', 'completed'),
+    ], WED)
+
+    expect(missed).toEqual([])
+  })
+
+  it('lets rest splits use their slot without counting them as missed', () => {
+    const rest = split('rest', 3, { is_rest_day: true })
+    const { missed, lastRotationSplitId } = findMissedWorkouts(
+      [push, pull, rest],
+      [plan(MON, 'pull', 'completed')],
+      WED
+    )
+
+    expect(missed).toEqual([])
+    expect(lastRotationSplitId).toBe('rest')
+  })
+
+  it("doesn't advance the rotation on a manual rest day", () => {
+    const { missed, lastRotationSplitId } = findMissedWorkouts(rotation, [
+      plan(MON, 'push', 'completed'),
+      plan(TUE, 'pull', 'rest'),
+    ], WED)
+
+    expect(missed).toEqual([])
+    expect(lastRotationSplitId).toBe('push')
+  })
+
+  it('counts a missed pinned day without moving the rotation', () => {
+    const arms = split('arms', 4, { pinned_days: [3] })
+    const { missed, lastRotationSplitId } = findMissedWorkouts(
+      [...rotation, arms],
+      [plan(MON, 'push', 'completed')],
+      THU
+    )
+
+    expect(ids(missed)).toEqual(['pull', 'arms'])
+    expect(lastRotationSplitId).toBe('pull')
+  })
+})
+
+describe('decideTodaysSplit', () => {
+  // Push done Monday, Tuesday (pull) and Wednesday (legs) missed
+  const missedTwo = [plan(MON, 'push', 'completed')]
+
+  it('continues the rotation when nothing was missed', () => {
+    const decision = decideTodaysSplit({
+      splits: rotation,
+      plans: [plan(MON, 'push', 'completed')],
+      todayKey: TUE,
+    })
+
+    expect(decision.split?.id).toBe('pull')
+    expect(decision.missed).toEqual([])
+    expect(decision.reason).toBe('')
+  })
+
+  describe('skip_forward', () => {
+    it('wraps around the rotation past the missed workouts', () => {
+      const decision = decideTodaysSplit({ splits: rotation, plans: missedTwo, todayKey: THU, policy: 'skip_forward' })
+
+      expect(decision.split?.id).toBe('push')
+      expect(decision.mergedSplits).toEqual([])
+      expect(ids(decision.missed)).toEqual(['pull', 'legs'])
+      expect(decision.reason).toContain('Skipped past 2 missed workouts')
+    })
+  })
+
+  describe('push_back', () => {
+    it('does the oldest missed workout today', () => {
+      const decision = decideTodaysSplit({ splits: rotation, plans: missedTwo, todayKey: THU, policy: 'push_back' })
+
+      expect(decision.split?.id).toBe('pull')
+      expect(decision.pinned).toBe(false)
+    })
+
+    it('is the default policy', () => {
+      const decision = decideTodaysSplit({ splits: rotation, plans: missedTwo, todayKey: THU })
+
+      expect(decision.split?.id).toBe('pull')
+    })
+
+    it('keeps a split pinned to today and leaves the miss for later', () => {
+      const arms = split('arms', 4, { pinned_days: [4] })
+      const decision = decideTodaysSplit({
+        splits: [...rotation, arms],
+        plans: missedTwo,
+        todayKey: THU,
+        policy: 'push_back',
+      })
+
+      expect(decision.split?.id).toBe('arms')
+      expect(decision.pinned).toBe(true)
+      expect(decision.reason).toContain('pinned to today')
+    })
+  })
+
+  describe('merge_into_next', () => {
+    it('folds the latest missed workout into the rotation split', () => {
+      const decision = decideTodaysSplit({ splits: rotation, plans: missedTwo, todayKey: THU, policy: 'merge_into_next' })
+
+      expect(decision.split?.id).toBe('push')
+      expect(decision.mergedSplits.map(s => s.id)).toEqual(['legs'])
+      expect(decision.reason).toContain('Older misses (Pull) were dropped')
+    })
+
+    it('merges into a split pinned to today', () => {
+      const arms = split('arms', 4, { pinned_days: [4] })
+      const decision = decideTodaysSplit({
+        splits: [...rotation, arms],
+        plans: missedTwo,
+        todayKey: THU,
+        policy: 'merge_into_next',
+      })
+
+      expect(decision.split?.id).toBe('arms')
+      expect(decision.pinned).toBe(true)
+      expect(decision.mergedSplits.map(s => s.id)).toEqual(['legs'])
+    })
+
+    it("doesn't merge a split into itself", () => {
+      const decision = decideTodaysSplit({
+        splits: [push],
+        plans: missedTwo,
+        todayKey: WED,
+        policy: 'merge_into_next',
+      })
+
+      expect(ids(decision.missed)).toEqual(['push'])
+      expect(decision.split?.id).toBe('push')
+      expect(decision.mergedSplits).toEqual([])
+      expect(decision.reason).toContain('already covers Push')
+    })
+  })
+
+  describe('drop_after_days', () => {
+    // Push done Monday, every day after it missed
+    const missedSince = [plan(MON, 'push', 'completed')]
+
+    it('keeps a workout missed exactly N days ago', () => {
+      const decision = decideTodaysSplit({
+        splits: rotation,
+        plans: missedSince,
+        todayKey: SAT,
+        policy: 'drop_after_days',
+        dropAfterDays: 3,
+      })
+
+      // Cutoff is Wednesday: Tuesday's pull is dropped, Wednesday's legs comes first
+      expect(decision.split?.id).toBe('legs')
+      expect(decision.reason).toContain('Dropped Pull')
+    })
+
+    it('drops a workout missed N + 1 days ago', () => {
+      const decision = decideTodaysSplit({
+        splits: rotation,
+        plans: missedSince,
+        todayKey: SUN,
+        policy: 'drop_after_days',
+        dropAfterDays: 3,
+      })
+
+      // Cutoff is Thursday: pull and legs are dropped, Thursday's push is next
+      expect(ids(decision.missed)).toEqual(['pull', 'legs', 'push', 'pull', 'legs'])
+      expect(decision.split?.id).toBe('push')
+      expect(decision.reason).toContain('Dropped Pull, Legs')
+    })
+
+    it('carries on with the rotation once every miss is too old', () => {
+      const decision = decideTodaysSplit({
+        splits: rotation,
+        plans: [
+          plan(MON, 'push', 'completed'),
+          plan(WED, 'legs', 'rest'),
+          plan(THU, 'legs', 'rest'),
+          plan(FRI, 'legs', 'rest'),
+        ],
+        todayKey: SAT,
+        policy: 'drop_after_days',
+        dropAfterDays: 3,
+      })
+
+      // Only Tuesday's pull was missed - the manual rest days don't use a slot
+      expect(ids(decision.missed)).toEqual(['pull'])
+      expect(decision.split?.id).toBe('legs')
+      expect(decision.reason).toBe('Carrying on with the rotation. Dropped Pull - missed more than 3 days ago.')
+    })
+  })
+})
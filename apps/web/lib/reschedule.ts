@@ -0,0 +1,248 @@
+/**
+ * Missed Workout Rescheduling
+ *
+ * Decides which split to train today after missed or skipped days.
+ *
+ * A day counts as missed when a training split was due and wasn't completed:
+ * - a plan marked skipped
+ * - a plan left as planned once its date has passed
+ * - a day with no plan at all (the rotation slot still passed by)
+ *
+ * Missed days are only counted from the last completed rotation workout
+ * (or the first plan in the lookback window), so a brand new user
+ * doesn't start with two weeks of "missed" workouts.
+ *
+ * POLICIES:
+ * - skip_forward: missed workouts are dropped, the rotation carries on
+ * - push_back: the oldest missed workout is done today, everything shifts back
+ * - merge_into_next: the latest missed workout's muscle groups join today's session
+ * - drop_after_days: push back, but give up on workouts missed more than N days ago
+ */
+
+import {
+  addDays,
+  getRotation,
+  pickSplitForDate,
+  type ScheduleSplit,
+  type SchedulePlan,
+} from '@/lib/schedule'
+
+export type ReschedulePolicy = 'skip_forward' | 'push_back' | 'merge_into_next' | 'drop_after_days'
+
+export const RESCHEDULE_POLICIES: Array<{ value: ReschedulePolicy; label: string; description: string }> = [
+  {
+    value: 'skip_forward',
+    label: 'Skip Forward',
+    description: 'Missed workouts are dropped and the rotation carries on',
+  },
+  {
+    value: 'push_back',
+    label: 'Push Back',
+    description: 'Do the missed workout next and shift the rotation back',
+  },
+  {
+    value: 'merge_into_next',
+    label: 'Merge Into Next',
+    description: 'Fold the missed muscle groups into the next session',
+  },
+  {
+    value: 'drop_after_days',
+    label: 'Drop After N Days',
+    description: 'Push back recent misses, drop ones older than a few days',
+  },
+]
+
+export const DEFAULT_RESCHEDULE_POLICY: ReschedulePolicy = 'push_back'
+export const DEFAULT_DROP_AFTER_DAYS = 3
+
+// How far back to look for missed days
+export const RESCHEDULE_LOOKBACK_DAYS = 14
+
+export interface MissedWorkout {
+  date: string
+  split: ScheduleSplit
+}
+
+export interface RescheduleDecision {
+  split: ScheduleSplit | null
+  // Extra splits whose muscle groups should be trained today (merge_into_next)
+  mergedSplits: ScheduleSplit[]
+  pinned: boolean
+  missed: MissedWorkout[]
+  reason: string
+}
+
+function formatDate(dateKey: string): string {
+  return new Date(`${dateKey}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  })
+}
+
+function listNames(missed: MissedWorkout[]): string {
+  return Array.from(new Set(missed.map(m => m.split.name))).join(', ')
+}
+
+/**
+ * Walk past days and collect the workouts that were due but not done
+ *
+ * Returns the missed workouts (oldest first) and the rotation position
+ * as if every due slot had been used.
+ */
+export function findMissedWorkouts(
+  splits: ScheduleSplit[],
+  plans: SchedulePlan[],
+  todayKey: string,
+  lookbackDays: number = RESCHEDULE_LOOKBACK_DAYS
+): { missed: MissedWorkout[]; lastRotationSplitId: string | null } {
+  const windowStart = addDays(todayKey, -lookbackDays)
+  const pastPlans = plans
+    .filter(plan => plan.date >= windowStart && plan.date < todayKey)
+    .sort((a, b) => a.date.localeCompare(b.date))
+
+  if (pastPlans.length === 0) {
+    return { missed: [], lastRotationSplitId: null }
+  }
+
+  const rotationIds = new Set(getRotation(splits).map(split => split.id))
+  const splitsById = new Map(splits.map(split => [split.id, split]))
+  const plansByDate = new Map(pastPlans.map(plan => [plan.date, plan]))
+
+  // Count from the last completed rotation workout, or the first plan we have
+  const lastCompleted = [...pastPlans]
+    .reverse()
+    .find(plan => plan.status === 'completed' && plan.split_id && rotationIds.has(plan.split_id))
+
+  let lastRotationSplitId = lastCompleted?.split_id || null
+  const missed: MissedWorkout[] = []
+
+  for (
+    let date = lastCompleted ? addDays(lastCompleted.date, 1) : pastPlans[0].date;
+    date < todayKey;
+    date = addDays(date, 1)
+  ) {
+    const plan = plansByDate.get(date)
+    const planSplit = plan?.split_id ? splitsById.get(plan.split_id) : undefined
+
+    if (plan?.status === 'completed') {
+      if (planSplit && rotationIds.has(planSplit.id)) lastRotationSplitId = planSplit.id
+      continue
+    }
+
+    if (plan?.status === 'rest') {
+      // Rest splits use up their rotation slot; manual rest days don't
+      if (planSplit?.is_rest_day && rotationIds.has(planSplit.id)) lastRotationSplitId = planSplit.id
+      continue
+    }
+
+    // Skipped, still-planned or unplanned day: whatever was due was missed
+    const due = planSplit || (plan ? null : pickSplitForDate(splits, date, lastRotationSplitId).split)
+    if (!due) continue
+
+    if (rotationIds.has(due.id)) lastRotationSplitId = due.id
+    if (!due.is_rest_day) {
+      missed.push({ date, split: due })
+    }
+  }
+
+  return { missed, lastRotationSplitId }
+}
+
+/**
+ * Pick today's split under the user's rescheduling policy
+ *
+ * A split pinned to today's weekday always wins; under merge_into_next the
+ * latest missed workout still gets folded into it.
+ */
+export function decideTodaysSplit({
+  splits,
+  plans,
+  todayKey,
+  policy = DEFAULT_RESCHEDULE_POLICY,
+  dropAfterDays = DEFAULT_DROP_AFTER_DAYS,
+}: {
+  splits: ScheduleSplit[]
+  plans: SchedulePlan[]
+  todayKey: string
+  policy?: ReschedulePolicy
+  dropAfterDays?: number
+}): RescheduleDecision {
+  const { missed, lastRotationSplitId } = findMissedWorkouts(splits, plans, todayKey)
+
+  // Where the rotation lands if missed slots are simply passed over
+  const { split: forwardSplit, pinned } = pickSplitForDate(splits, todayKey, lastRotationSplitId)
+
+  const decision = (
+    split: ScheduleSplit | null,
+    reason: string,
+    mergedSplits: ScheduleSplit[] = []
+  ): RescheduleDecision => ({ split, mergedSplits, pinned: pinned && split === forwardSplit, missed, reason })
+
+  if (missed.length === 0) {
+    return decision(forwardSplit, '')
+  }
+
+  const missedCount = `${missed.length} missed workout${missed.length === 1 ? '' : 's'}`
+
+  // Pushing back onto a pinned day would break the pin - keep it, catch up later
+  const canPushBack = !pinned
+
+  switch (policy) {
+    case 'skip_forward':
+      return decision(
+        forwardSplit,
+        `Skipped past ${missedCount} (${listNames(missed)}) to keep your rotation moving.`
+      )
+
+    case 'merge_into_next': {
+      const latest = missed[missed.length - 1]
+      if (!forwardSplit || latest.split.id === forwardSplit.id) {
+        return decision(
+          forwardSplit,
+          `Skipped past ${missedCount} - today's workout already covers ${latest.split.name}.`
+        )
+      }
+      const dropped = missed.length > 1 ? ` Older misses (${listNames(missed.slice(0, -1))}) were dropped.` : ''
+      return decision(
+        forwardSplit,
+        `Merged ${latest.split.name} (missed ${formatDate(latest.date)}) into today's ${forwardSplit.name}.${dropped}`,
+        [latest.split]
+      )
+    }
+
+    case 'drop_after_days': {
+      const cutoff = addDays(todayKey, -dropAfterDays)
+      const recent = missed.filter(m => m.date >= cutoff)
+      const dropped = missed.filter(m => m.date < cutoff)
+      const droppedNote = dropped.length > 0
+        ? ` Dropped ${listNames(dropped)} - missed more than ${dropAfterDays} days ago.`
+        : ''
+
+      if (recent.length === 0 || !canPushBack) {
+        return decision(
+          forwardSplit,
+          `Carrying on with the rotation.${droppedNote}`.trim()
+        )
+      }
+      return decision(
+        recent[0].split,
+        `Rescheduled ${recent[0].split.name} - missed on ${formatDate(recent[0].date)}.${droppedNote}`
+      )
+    }
+
+    case 'push_back':
+    default:
+      if (!canPushBack) {
+        return decision(
+          forwardSplit,
+          `${forwardSplit?.name} is pinned to today - ${listNames(missed)} will be picked up on your next rotation day.`
+        )
+      }
+      return decision(
+        missed[0].split,
+        `Rescheduled ${missed[0].split.name} - missed on ${formatDate(missed[0].date)}, so the rotation picks up from there.`
+      )
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Custom Foods & Saved Meals
+ *
+ * Per-user shortcuts for the log food page:
+ * - custom_foods: the user's own foods, macros per serving
+ *   (logged with a quantity multiplier, like the old quick-add presets)
+ * - saved_meals: named multi-item meals (e.g. "usual breakfast"), items
+ *   stored as jsonb and logged together as one food_logs row each
+ *
+ * FREQUENCY:
+ * food_logs rows remember where they came from (food_id, custom_food_id,
+ * saved_meal_id). Counting those over the last FREQUENCY_WINDOW_DAYS puts
+ * what the user actually eats at the front of the quick-add list.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { FOOD_COLUMNS, roundTenth, type Food, type FoodMacros } from './foods'
+
+export type MealType = 'breakfast' | 'lunch' | 'dinner' | 'snack' | 'other'
+
+export const MEAL_TYPES: MealType[] = ['breakfast', 'lunch', 'dinner', 'snack', 'other']
+
+// Macros are per serving
+export interface CustomFood extends FoodMacros {
+  id: string
+  name: string
+  serving_label: string | null
+}
+
+export interface SavedMealItem extends FoodMacros {
+  name: string
+  food_id?: string | null
+  custom_food_id?: string | null
+  quantity_g?: number | null
+}
+
+export interface SavedMeal {
+  id: string
+  name: string
+  meal_type: MealType | null
+  items: SavedMealItem[]
+}
+
+// A quick-add chip: a custom food, or a database food the user logs often
+export type QuickAddItem =
+  | { kind: 'custom'; food: CustomFood; uses: number }
+  | { kind: 'food'; food: Food; uses: number }
+
+export interface SavedFoods {
+  quickAdd: QuickAddItem[]
+  meals: Array<SavedMeal & { uses: number }>
+}
+
+const FREQUENCY_WINDOW_DAYS = 90
+
+// Frequent database foods shown alongside custom foods
+const MAX_FREQUENT_FOODS = 8
+
+/**
+ * Macros multiplied by a quantity (servings)
+ */
+export function scaleMacros(macros: FoodMacros, quantity: number): FoodMacros {
+  return {
+    calories: Math.round(macros.calories * quantity),
+    protein_g: roundTenth(macros.protein_g * quantity),
+    carbs_g: roundTenth(macros.carbs_g * quantity),
+    fat_g: roundTenth(macros.fat_g * quantity),
+  }
+}
+
+/**
+ * Totals for a list of macros
+ */
+export function sumMacros(items: FoodMacros[]): FoodMacros {
+  return items.reduce<FoodMacros>(
+    (total, item) => ({
+      calories: total.calories + item.calories,
+      protein_g: roundTenth(total.protein_g + item.protein_g),
+      carbs_g: roundTenth(total.carbs_g + item.carbs_g),
+      fat_g: roundTenth(total.fat_g + item.fat_g),
+    }),
+    { calories: 0, protein_g: 0, carbs_g: 0, fat_g: 0 }
+  )
+}
+
+/**
+ * food_logs rows for a saved meal, one per item with its quantity applied.
+ * Items with a quantity of 0 are left out.
+ */
+export function buildMealLogs(
+  meal: SavedMeal,
+  quantities: number[],
+  options: { userId: string; mealType: MealType; loggedAt: string }
+) {
+  return meal.items
+    .map((item, index) => ({ item, quantity: quantities[index] ?? 1 }))
+    .filter(({ quantity }) => quantity > 0)
+    .map(({ item, quantity }) => ({
+      user_id: options.userId,
+      name: quantity === 1 ? item.name : `${item.name} x${quantity}`,
+      meal_type: options.mealType,
+      ...scaleMacros(item, quantity),
+      food_id: item.food_id ?? null,
+      custom_food_id: item.custom_food_id ?? null,
+      quantity_g: item.quantity_g ? Math.round(item.quantity_g * quantity) : null,
+      saved_meal_id: meal.id,
+      logged_at: options.loggedAt,
+    }))
+}
+
+function countBy(values: Array<string | null>): Map<string, number> {
+  const counts = new Map<string, number>()
+  for (const value of values) {
+    if (value) counts.set(value, (counts.get(value) || 0) + 1)
+  }
+  return counts
+}
+
+/**
+ * The user's custom foods, saved meals and most-logged database foods,
+ * most frequently used first
+ */
+export async function getSavedFoods(supabase: SupabaseClient, userId: string): Promise<SavedFoods> {
+  const since = new Date()
+  since.setDate(since.getDate() - FREQUENCY_WINDOW_DAYS)
+
+  const [{ data: customFoods }, { data: meals }, { data: logs }] = await Promise.all([
+    supabase
+      .from('custom_foods')
+      .select('id, name, serving_label, calories, protein_g, carbs_g, fat_g')
+      .eq('user_id', userId)
+      .order('name'),
+    supabase
+      .from('saved_meals')
+      .select('id, name, meal_type, items')
+      .eq('user_id', userId)
+      .order('name'),
+    supabase
+      .from('food_logs')
+      .select('food_id, custom_food_id, saved_meal_id, logged_at')
+      .eq('user_id', userId)
+      .gte('logged_at', since.toISOString()),
+  ])
+
+  const foodUses = countBy((logs || []).map(log => log.food_id))
+  const customFoodUses = countBy((logs || []).map(log => log.custom_food_id))
+  // A meal logs all its rows with the same timestamp - count each once
+  const mealUses = countBy(Array.from(new Set(
+    (logs || [])
+      .filter(log => log.saved_meal_id)
+      .map(log => `${log.saved_meal_id}|${log.logged_at}`)
+  )).map(key => key.split('|')[0]))
+
+  const frequentFoodIds = Array.from(foodUses.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FREQUENT_FOODS)
+    .map(([id]) => id)
+
+  let frequentFoods: Food[] = []
+  if (frequentFoodIds.length > 0) {
+    const { data } = await supabase
+      .from('foods')
+      .select(FOOD_COLUMNS)
+      .in('id', frequentFoodIds)
+    frequentFoods = (data || []) as Food[]
+  }
+
+  const quickAdd: QuickAddItem[] = [
+    ...((customFoods || []) as CustomFood[]).map(food => ({
+      kind: 'custom' as const,
+      food,
+      uses: customFoodUses.get(food.id) || 0,
+    })),
+    ...frequentFoods.map(food => ({
+      kind: 'food' as const,
+      food,
+      uses: foodUses.get(food.id) || 0,
+    })),
+  ].sort((a, b) => b.uses - a.uses || a.food.name.localeCompare(b.food.name))
+
+  const rankedMeals = ((meals || []) as SavedMeal[])
+    .map(meal => ({
+      ...meal,
+      uses: mealUses.get(meal.id) || 0,
+    }))
+    .sort((a, b) => b.uses - a.uses || a.name.localeCompare(b.name))
+
+  return { quickAdd, meals: rankedMeals }
+}
@@ -0,0 +1,53 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getDayStart, getTodayKey, toLocalDateKey } from './schedule'
+
+describe('getTodayKey', () => {
+  const originalTz = process.env.TZ
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    process.env.TZ = originalTz
+  })
+
+  it('uses the local date east of UTC', () => {
+    process.env.TZ = 'Asia/Kolkata'
+    // 00:30 on the 19th in India is still the 18th in UTC
+    vi.setSystemTime(new Date('2026-10-18T19:00:00Z'))
+
+    expect(getTodayKey()).toBe('2026-10-19')
+  })
+
+  it('uses the local date west of UTC', () => {
+    process.env.TZ = 'America/Los_Angeles'
+    // 20:00 on the 18th in California is already the 19th in UTC
+    vi.setSystemTime(new Date('2026-10-19T03:00:00Z'))
+
+    expect(getTodayKey()).toBe('2026-10-18')
+  })
+})
+
+describe('toLocalDateKey', () => {
+  it('uses the given time zone rather than the server one', () => {
+    const instant = new Date('2026-10-19T03:00:00Z')
+
+    expect(toLocalDateKey(instant, 'America/Los_Angeles')).toBe('2026-10-18')
+    expect(toLocalDateKey(instant, 'Asia/Kolkata')).toBe('2026-10-19')
+  })
+})
+
+describe('getDayStart', () => {
+  it('returns local midnight in the given time zone', () => {
+    expect(getDayStart('2026-10-19', 'Asia/Kolkata').toISOString()).toBe('2026-10-18T18:30:00.000Z')
+    expect(getDayStart('2026-10-19', 'America/Los_Angeles').toISOString()).toBe('2026-10-19T07:00:00.000Z')
+  })
+
+  it('handles the day the clocks change', () => {
+    // US daylight saving time ends on 1 November 2026; midnight is still PDT
+    expect(getDayStart('2026-11-01', 'America/Los_Angeles').toISOString()).toBe('2026-11-01T07:00:00.000Z')
+    expect(getDayStart('2026-11-02', 'America/Los_Angeles').toISOString()).toBe('2026-11-02T08:00:00.000Z')
+  })
+})
@@ -0,0 +1,291 @@
+/**
+ * Training Schedule
+ *
+ * Projects the split rotation forward onto calendar dates and
+ * classifies past days by what actually happened.
+ *
+ * Splits can be pinned to weekdays (workout_splits.pinned_days, 0 = Sunday).
+ * A pinned split always lands on its weekdays; every other day continues
+ * the sequential rotation of the unpinned splits.
+ *
+ * Dates are handled as 'YYYY-MM-DD' keys (the planned_workouts.date format)
+ * and all day arithmetic is done in UTC so DST changes can't skip or repeat a day.
+ * Which day it is right now depends on the user's timezone: getTodayKey and
+ * toLocalDateKey take it, getDayStart turns a key back into an instant.
+ */
+
+export interface ScheduleSplit {
+  id: string
+  name: string
+  order_in_rotation: number
+  is_rest_day: boolean
+  color: string | null
+  muscle_groups: string[]
+  pinned_days?: number[] | null
+}
+
+export type PlanStatus = 'planned' | 'completed' | 'skipped' | 'rest'
+
+export interface SchedulePlan {
+  id: string
+  date: string
+  split_id: string | null
+  status: PlanStatus
+}
+
+// What the calendar shows for a day - "missed" is a planned day that has passed
+export type DayStatus = PlanStatus | 'missed' | 'unplanned'
+
+// No split means an unpinned day when every split is pinned to other weekdays
+export interface ProjectedDay {
+  date: string
+  split_id: string | null
+  status: PlanStatus
+  pinned: boolean
+}
+
+export const MIN_WEEKS_AHEAD = 1
+export const MAX_WEEKS_AHEAD = 4
+
+// Monday-first, values match Date.getDay()
+export const WEEKDAYS = [
+  { value: 1, label: 'Mon' },
+  { value: 2, label: 'Tue' },
+  { value: 3, label: 'Wed' },
+  { value: 4, label: 'Thu' },
+  { value: 5, label: 'Fri' },
+  { value: 6, label: 'Sat' },
+  { value: 0, label: 'Sun' },
+]
+
+// Cookie holding the browser's IANA timezone, so the server can tell what "today" is for the user
+export const TIMEZONE_COOKIE = 'tz'
+
+/**
+ * 'YYYY-MM-DD' for a UTC midnight date, as used for day arithmetic on keys
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Wall-clock parts of an instant in a timezone (the runtime's own when not given)
+function getZonedParts(time: number, timeZone?: string | null) {
+  if (!timeZone || !isValidTimeZone(timeZone)) {
+    const date = new Date(time)
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      hour: date.getHours(),
+      minute: date.getMinutes(),
+      second: date.getSeconds(),
+    }
+  }
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(time))
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+
+  return {
+    year: part('year'),
+    month: part('month'),
+    day: part('day'),
+    hour: part('hour'),
+    minute: part('minute'),
+    second: part('second'),
+  }
+}
+
+/**
+ * The date key of the day an instant falls on in a timezone
+ *
+ * Pass the user's timezone on the server (see lib/timezone) - the server's
+ * own is UTC, so an evening west of UTC would already be tomorrow. Without
+ * one the runtime's local date is used, which in the browser is the user's.
+ */
+export function toLocalDateKey(date: Date, timeZone?: string | null): string {
+  const { year, month, day } = getZonedParts(date.getTime(), timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Today's date key for the user (same key POST /api/ai/workout uses)
+ */
+export function getTodayKey(timeZone?: string | null): string {
+  return toLocalDateKey(new Date(), timeZone)
+}
+
+/**
+ * The instant a day starts in a timezone, for filtering timestamps by day
+ */
+export function getDayStart(dateKey: string, timeZone?: string | null): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  const midnightUTC = Date.UTC(year, month - 1, day)
+
+  // How far the zone's wall clock is ahead of UTC at a given instant
+  const offsetAt = (time: number) => {
+    const parts = getZonedParts(time, timeZone)
+    return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second) - Math.floor(time / 1000) * 1000
+  }
+
+  // Second pass picks up a DST change between UTC midnight and local midnight
+  const guess = midnightUTC - offsetAt(midnightUTC)
+  return new Date(midnightUTC - offsetAt(guess))
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return toDateKey(date)
+}
+
+/**
+ * Every date key from start to end (inclusive)
+ */
+export function getDateRange(startKey: string, endKey: string): string[] {
+  const dates: string[] = []
+  for (let key = startKey; key <= endKey; key = addDays(key, 1)) {
+    dates.push(key)
+  }
+  return dates
+}
+
+/**
+ * Day of the week for a date key (0 = Sunday)
+ */
+export function getWeekday(dateKey: string): number {
+  return new Date(`${dateKey}T00:00:00Z`).getUTCDay()
+}
+
+/**
+ * Monday on or before the given date key
+ */
+export function getWeekStartKey(dateKey: string): string {
+  const dayOfWeek = new Date(`${dateKey}T00:00:00Z`).getUTCDay()
+  return addDays(dateKey, -(dayOfWeek === 0 ? 6 : dayOfWeek - 1))
+}
+
+export function getDayStatus(plan: SchedulePlan | null, dateKey: string, todayKey: string): DayStatus {
+  if (!plan) return 'unplanned'
+  if (plan.status === 'planned' && dateKey < todayKey) return 'missed'
+  return plan.status
+}
+
+export function isPinned(split: ScheduleSplit): boolean {
+  return (split.pinned_days?.length || 0) > 0
+}
+
+/**
+ * Unpinned splits in rotation order
+ */
+export function getRotation(splits: ScheduleSplit[]): ScheduleSplit[] {
+  return splits
+    .filter(split => !isPinned(split))
+    .sort((a, b) => a.order_in_rotation - b.order_in_rotation)
+}
+
+/**
+ * Pick the split for a date
+ *
+ * A split pinned to the date's weekday always wins. Otherwise it's the
+ * unpinned split after `lastRotationSplitId` (or the first one).
+ * Returns a null split when every split is pinned to other weekdays.
+ */
+export function pickSplitForDate(
+  splits: ScheduleSplit[],
+  dateKey: string,
+  lastRotationSplitId: string | null
+): { split: ScheduleSplit | null; pinned: boolean } {
+  const weekday = getWeekday(dateKey)
+  const pinnedSplit = [...splits]
+    .sort((a, b) => a.order_in_rotation - b.order_in_rotation)
+    .find(split => split.pinned_days?.includes(weekday))
+
+  if (pinnedSplit) {
+    return { split: pinnedSplit, pinned: true }
+  }
+
+  const rotation = getRotation(splits)
+  if (rotation.length === 0) {
+    return { split: null, pinned: false }
+  }
+
+  const lastIndex = rotation.findIndex(split => split.id === lastRotationSplitId)
+  return { split: rotation[(lastIndex + 1) % rotation.length], pinned: false }
+}
+
+/**
+ * Fill dates that don't have a plan yet
+ *
+ * Pinned weekdays get their split; other dates continue the rotation from
+ * the most recent existing plan of an unpinned split. Skipped and manually
+ * rested days don't advance it, so the split they replaced comes up next.
+ */
+export function projectRotation(
+  splits: ScheduleSplit[],
+  existingPlans: SchedulePlan[],
+  dates: string[]
+): ProjectedDay[] {
+  if (splits.length === 0) return []
+
+  const rotationIds = new Set(getRotation(splits).map(split => split.id))
+  const splitsById = new Map(splits.map(split => [split.id, split]))
+  const plansByDate = new Map(existingPlans.map(plan => [plan.date, plan]))
+
+  const advancesRotation = (plan: SchedulePlan) => {
+    if (!plan.split_id || !rotationIds.has(plan.split_id)) return false
+    if (plan.status === 'skipped') return false
+    // A rest status on a training split means the day was rested manually
+    return !(plan.status === 'rest' && !splitsById.get(plan.split_id)!.is_rest_day)
+  }
+
+  // Start from the latest rotation plan before the range
+  const firstDate = dates[0]
+  const earlier = existingPlans
+    .filter(plan => plan.date < firstDate && advancesRotation(plan))
+    .sort((a, b) => b.date.localeCompare(a.date))
+  let lastRotationSplitId = earlier.length > 0 ? earlier[0].split_id : null
+
+  const projected: ProjectedDay[] = []
+
+  for (const date of dates) {
+    const existing = plansByDate.get(date)
+    if (existing) {
+      if (advancesRotation(existing)) {
+        lastRotationSplitId = existing.split_id
+      }
+      continue
+    }
+
+    const { split, pinned } = pickSplitForDate(splits, date, lastRotationSplitId)
+    if (split && !pinned) {
+      lastRotationSplitId = split.id
+    }
+
+    projected.push({
+      date,
+      split_id: split?.id || null,
+      status: !split || split.is_rest_day ? 'rest' : 'planned',
+      pinned,
+    })
+  }
+
+  return projected
+}
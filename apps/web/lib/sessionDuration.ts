@@ -0,0 +1,174 @@
+/**
+ * Session Duration
+ *
+ * Estimates how long a planned workout takes from its sets, reps and
+ * rest_seconds, and fits an exercise list to a time budget.
+ *
+ * ESTIMATE:
+ * - Each rep takes ~3s, timed sets ("45s") take their duration
+ * - Rest between sets, plus setup time when moving to a new exercise
+ * - Supersetted exercises are done back to back and share one rest per round
+ *
+ * FITTING (over budget):
+ * 1. Pair accessories into supersets (the first lift stays on its own)
+ * 2. Drop exercises from the end
+ * 3. Take a set off the longest exercises
+ *
+ * FITTING (under budget): add extra exercises while they still fit.
+ */
+
+export interface TimedExercise {
+  name: string
+  sets: number
+  reps: string
+  rest_seconds: number
+  superset?: string
+}
+
+export const DURATION_OPTIONS = [30, 45, 60, 75, 90]
+export const DEFAULT_TARGET_MINUTES = 60
+
+const SECONDS_PER_REP = 3
+const EXERCISE_SETUP_SECONDS = 90
+const MIN_EXERCISES = 2
+const MIN_SETS = 2
+
+// How close to the budget counts as a fit
+const TOLERANCE_MINUTES = 5
+
+/**
+ * Working seconds for one set ("8-12" -> 10 reps, "45s" -> 45s, "10 each" -> both sides)
+ */
+export function estimateSetSeconds(reps: string): number {
+  const text = String(reps).toLowerCase()
+  const numbers = (text.match(/\d+/g) || []).map(Number)
+  if (numbers.length === 0) return 10 * SECONDS_PER_REP
+
+  const average = numbers.slice(0, 2).reduce((sum, n) => sum + n, 0) / Math.min(numbers.length, 2)
+  if (/\d\s*(s|sec|seconds)\b/.test(text)) return average
+
+  const sides = text.includes('each') || text.includes('per side') ? 2 : 1
+  return average * SECONDS_PER_REP * sides
+}
+
+/**
+ * Exercises grouped the way they're performed (superset partners together)
+ */
+function groupBlocks<T extends TimedExercise>(exercises: T[]): T[][] {
+  const blocks: T[][] = []
+  for (const exercise of exercises) {
+    const block = exercise.superset ? blocks.find(b => b[0].superset === exercise.superset) : undefined
+    if (block) {
+      block.push(exercise)
+    } else {
+      blocks.push([exercise])
+    }
+  }
+  return blocks
+}
+
+function estimateBlockSeconds(block: TimedExercise[]): number {
+  const rounds = Math.max(...block.map(e => e.sets))
+  const work = block.reduce((sum, e) => sum + e.sets * estimateSetSeconds(e.reps), 0)
+  // One rest per round, none after the last
+  const rest = (rounds - 1) * Math.max(...block.map(e => e.rest_seconds || 0))
+  return work + rest + EXERCISE_SETUP_SECONDS * block.length
+}
+
+export function estimateSessionMinutes(exercises: TimedExercise[]): number {
+  const seconds = groupBlocks(exercises).reduce((sum, block) => sum + estimateBlockSeconds(block), 0)
+  return Math.round(seconds / 60)
+}
+
+/**
+ * Pair exercises after the first into supersets (A, B, C...)
+ */
+function toSupersets<T extends TimedExercise>(exercises: T[]): T[] {
+  const [first, ...rest] = exercises
+  if (!first) return exercises
+
+  return [
+    { ...first, superset: undefined },
+    ...rest.map((exercise, i) => ({
+      ...exercise,
+      superset: i === rest.length - 1 && rest.length % 2 === 1 ? undefined : String.fromCharCode(65 + Math.floor(i / 2)),
+    })),
+  ]
+}
+
+// An exercise whose superset partner was dropped goes back to straight sets
+function clearLoneSupersets<T extends TimedExercise>(exercises: T[]): T[] {
+  return exercises.map(exercise => {
+    const partners = exercises.filter(other => exercise.superset && other.superset === exercise.superset)
+    return partners.length > 1 ? exercise : { ...exercise, superset: undefined }
+  })
+}
+
+export interface FittedWorkout<T> {
+  exercises: T[]
+  estimatedMinutes: number
+  adjustments: string[]
+}
+
+/**
+ * Trim, superset or expand exercises to land near the target duration
+ */
+export function fitToDuration<T extends TimedExercise>(
+  exercises: T[],
+  targetMinutes: number,
+  extras: T[] = []
+): FittedWorkout<T> {
+  let fitted = [...exercises]
+  const adjustments: string[] = []
+  const limit = targetMinutes + TOLERANCE_MINUTES
+
+  if (estimateSessionMinutes(fitted) > limit && fitted.length > MIN_EXERCISES) {
+    fitted = toSupersets(fitted)
+    adjustments.push('Paired accessories into supersets')
+  }
+
+  const removed: string[] = []
+  while (estimateSessionMinutes(fitted) > limit && fitted.length > MIN_EXERCISES) {
+    removed.push(fitted.pop()!.name)
+  }
+  if (removed.length > 0) {
+    fitted = clearLoneSupersets(fitted)
+    adjustments.push(`Dropped ${removed.join(', ')}`)
+  }
+
+  let trimmedSets = false
+  while (estimateSessionMinutes(fitted) > limit) {
+    const longest = fitted
+      .map((e, i) => ({ i, sets: e.sets }))
+      .filter(e => e.sets > MIN_SETS)
+      .sort((a, b) => b.sets - a.sets)[0]
+    if (!longest) break
+    fitted[longest.i] = { ...fitted[longest.i], sets: fitted[longest.i].sets - 1 }
+    trimmedSets = true
+  }
+  if (trimmedSets) adjustments.push('Cut a set from the longest exercises')
+
+  // Room left - add extras that still fit
+  const added: string[] = []
+  for (const extra of extras) {
+    if (estimateSessionMinutes(fitted) >= targetMinutes - TOLERANCE_MINUTES) break
+    if (fitted.some(e => e.name.toLowerCase() === extra.name.toLowerCase())) continue
+
+    const expanded = [...fitted, extra]
+    if (estimateSessionMinutes(expanded) <= limit) {
+      fitted = expanded
+      added.push(extra.name)
+    }
+  }
+  if (added.length > 0) adjustments.push(`Added ${added.join(', ')}`)
+
+  return { exercises: fitted, estimatedMinutes: estimateSessionMinutes(fitted), adjustments }
+}
+
+/**
+ * Rough exercise count to ask for in a given time (about 10 minutes each)
+ */
+export function getExerciseCountRange(targetMinutes: number): { min: number; max: number } {
+  const count = Math.max(MIN_EXERCISES, Math.round(targetMinutes / 10))
+  return { min: Math.max(MIN_EXERCISES, count - 1), max: count + 1 }
+}
@@ -0,0 +1,40 @@
+/**
+ * Admin Supabase Client
+ *
+ * USE THIS IN:
+ * - Server-only admin views that read across all users (e.g. AI usage)
+ * - Cron routes that run for every user (e.g. weekly reports)
+ * - Writing rows users may only read (e.g. ai_usage, so quotas can't be reset)
+ *
+ * WHY A SEPARATE CLIENT?
+ * The regular clients act as the signed-in user, so row level security
+ * only shows their own rows. This one uses the service role key, which
+ * bypasses RLS - never import it from client components.
+ *
+ * ENV:
+ * - SUPABASE_SERVICE_ROLE_KEY: required for the admin client
+ * - ADMIN_EMAILS: comma-separated emails allowed into admin views
+ */
+
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+// Null when the service role key isn't configured
+export function createAdminClient(): SupabaseClient | null {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) return null
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
+
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false
+
+  const admins = (process.env.ADMIN_EMAILS || '')
+    .split(',')
+    .map(admin => admin.trim().toLowerCase())
+    .filter(Boolean)
+
+  return admins.includes(email.toLowerCase())
+}
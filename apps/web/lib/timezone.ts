@@ -0,0 +1,20 @@
+/**
+ * User Timezone (server)
+ *
+ * Route handlers and server components run in UTC, so "today" has to come
+ * from the user's timezone. The dashboard keeps it in a cookie
+ * (TimezoneSync), sent with every page load and API request:
+ *
+ *   const todayKey = getTodayKey(await getRequestTimeZone())
+ *
+ * Null until the browser has reported it - date helpers then use UTC.
+ */
+
+import { cookies } from 'next/headers'
+import { isValidTimeZone, TIMEZONE_COOKIE } from './schedule'
+
+export async function getRequestTimeZone(): Promise<string | null> {
+  const cookieStore = await cookies()
+  const timeZone = cookieStore.get(TIMEZONE_COOKIE)?.value
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : null
+}
@@ -0,0 +1,432 @@
+/**
+ * Weekly Review Report
+ *
+ * A Monday-to-Sunday summary of one training week:
+ * - Sessions completed vs planned (from planned_workouts)
+ * - Volume per muscle group (see lib/weeklyVolume)
+ * - Personal records set that week
+ * - Nutrition averages and adherence vs calorie/protein targets
+ * - Bodyweight trend (from weight_logs)
+ * - A short AI commentary on all of the above
+ *
+ * Reports are generated every Monday for the previous week by the cron
+ * route (/api/reports/weekly/cron) and stored in weekly_reports, one row
+ * per user and week. Users can also generate one on demand. Weeks and
+ * days follow the user's timezone (profiles.timezone), falling back to UTC.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AIProvider } from './ai'
+import { calculateVolume, formatRecord, type RecordType } from './analytics'
+import { ENERGY_PROFILE_COLUMNS } from './energy'
+import { calculateNutritionTargets } from './nutritionTargets'
+import { addDays, getDayStart, getTodayKey, getWeekStartKey, isValidTimeZone, toLocalDateKey } from './schedule'
+import { getSplitMuscleGroups, getWeeklyVolume, type MuscleGroupVolume } from './weeklyVolume'
+
+// A day counts as on target within this fraction of the calorie target
+const CALORIE_TOLERANCE = 0.1
+
+export interface WeeklyReportData {
+  week_start: string
+  week_end: string
+  sessions: {
+    planned: number
+    completed: number
+    skipped: number
+    missed: number
+    logged: number
+  }
+  volume: {
+    total_kg: number
+    by_muscle_group: MuscleGroupVolume[]
+  }
+  records: Array<{ exercise: string; description: string; achieved_at: string }>
+  nutrition: {
+    days_logged: number
+    avg_calories: number
+    avg_protein_g: number
+    avg_carbs_g: number
+    avg_fat_g: number
+    calorie_target: number | null
+    protein_target_g: number | null
+    days_on_target: number
+  }
+  bodyweight: {
+    start_kg: number | null
+    end_kg: number | null
+    change_kg: number | null
+    weigh_ins: number
+  }
+}
+
+export interface WeeklyReport {
+  id: string
+  user_id: string
+  week_start: string
+  data: WeeklyReportData
+  commentary: string | null
+  created_at: string
+}
+
+// Supabase returns embedded rows as an object or a single-item array
+type NameRef = { name: string } | Array<{ name: string }> | null
+
+function getName(ref: NameRef): string {
+  const row = Array.isArray(ref) ? ref[0] : ref
+  return row?.name || 'Unknown exercise'
+}
+
+function average(total: number, count: number): number {
+  return count > 0 ? Math.round(total / count) : 0
+}
+
+/**
+ * Key for Monday of last week in the user's timezone - the week a Monday
+ * report covers
+ */
+export function getPreviousWeekStartKey(timeZone: string | null = null): string {
+  return addDays(getWeekStartKey(getTodayKey(timeZone)), -7)
+}
+
+/**
+ * "Mar 3 – Mar 9, 2026" for a week start key
+ */
+export function formatWeekRange(weekStartKey: string): string {
+  const format = (key: string, options: Intl.DateTimeFormatOptions) =>
+    new Date(`${key}T00:00:00Z`).toLocaleDateString('en-US', { timeZone: 'UTC', ...options })
+
+  const weekEndKey = addDays(weekStartKey, 6)
+  return `${format(weekStartKey, { month: 'short', day: 'numeric' })} – ${format(weekEndKey, { month: 'short', day: 'numeric', year: 'numeric' })}`
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+export async function buildWeeklyReportData(
+  supabase: SupabaseClient,
+  userId: string,
+  startKey: string
+): Promise<WeeklyReportData> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select(`${ENERGY_PROFILE_COLUMNS}, fitness_goal, nutrition_targets, volume_targets, timezone`)
+    .eq('id', userId)
+    .single()
+
+  // The week runs from Monday to Sunday midnight where the user lives
+  const timeZone: string | null = profile?.timezone && isValidTimeZone(profile.timezone) ? profile.timezone : null
+  const endKey = addDays(startKey, 6)
+  const weekStart = getDayStart(startKey, timeZone)
+  const weekEnd = getDayStart(addDays(startKey, 7), timeZone)
+  const todayKey = getTodayKey(timeZone)
+
+  // Sessions: what was planned vs what happened
+  const { data: plans } = await supabase
+    .from('planned_workouts')
+    .select('date, split_id, status, split:workout_splits(is_rest_day)')
+    .eq('user_id', userId)
+    .gte('date', startKey)
+    .lte('date', endKey)
+
+  const sessions = { planned: 0, completed: 0, skipped: 0, missed: 0, logged: 0 }
+  for (const plan of plans || []) {
+    const split = Array.isArray(plan.split) ? plan.split[0] : plan.split
+    if (plan.status === 'rest' || split?.is_rest_day) continue
+
+    sessions.planned++
+    if (plan.status === 'completed') sessions.completed++
+    else if (plan.status === 'skipped') sessions.skipped++
+    else if (plan.date < todayKey) sessions.missed++
+  }
+
+  const { data: workouts } = await supabase
+    .from('workout_sessions')
+    .select('id, workout_sets (reps, weight_kg)')
+    .eq('user_id', userId)
+    .gte('started_at', weekStart.toISOString())
+    .lt('started_at', weekEnd.toISOString())
+
+  sessions.logged = workouts?.length || 0
+  const totalVolume = workouts?.reduce((total, session) => total + calculateVolume(session.workout_sets || []), 0) || 0
+
+  // Hard sets per muscle group, tracking every group in the user's split
+  const volumeByMuscleGroup = await getWeeklyVolume(supabase, userId, {
+    since: weekStart,
+    until: weekEnd,
+    overrides: profile?.volume_targets,
+    trackedGroups: await getSplitMuscleGroups(supabase, userId),
+  })
+
+  // Personal records
+  const { data: records } = await supabase
+    .from('personal_records')
+    .select('record_type, value, weight_kg, reps, achieved_at, exercise:exercises (name)')
+    .eq('user_id', userId)
+    .gte('achieved_at', weekStart.toISOString())
+    .lt('achieved_at', weekEnd.toISOString())
+    .order('achieved_at', { ascending: true })
+
+  // Nutrition, averaged over the days that were logged
+  const { data: foodLogs } = await supabase
+    .from('food_logs')
+    .select('calories, protein_g, carbs_g, fat_g, logged_at')
+    .eq('user_id', userId)
+    .gte('logged_at', weekStart.toISOString())
+    .lt('logged_at', weekEnd.toISOString())
+
+  const caloriesByDay = new Map<string, number>()
+  let protein = 0
+  let carbs = 0
+  let fat = 0
+  for (const log of foodLogs || []) {
+    const day = toLocalDateKey(new Date(log.logged_at), timeZone)
+    caloriesByDay.set(day, (caloriesByDay.get(day) || 0) + (log.calories || 0))
+    protein += log.protein_g || 0
+    carbs += log.carbs_g || 0
+    fat += log.fat_g || 0
+  }
+
+  const daysLogged = caloriesByDay.size
+  const targets = profile ? calculateNutritionTargets(profile) : null
+  const calorieTarget = targets?.calories ?? null
+  const daysOnTarget = calorieTarget
+    ? Array.from(caloriesByDay.values()).filter(calories =>
+        Math.abs(calories - calorieTarget) <= calorieTarget * CALORIE_TOLERANCE
+      ).length
+    : 0
+
+  // Bodyweight: last weigh-in before the week vs last one during it
+  const lookback = getDayStart(addDays(startKey, -28), timeZone)
+
+  const { data: weighIns } = await supabase
+    .from('weight_logs')
+    .select('weight_kg, logged_at')
+    .eq('user_id', userId)
+    .gte('logged_at', lookback.toISOString())
+    .lt('logged_at', weekEnd.toISOString())
+    .order('logged_at', { ascending: true })
+
+  const before = (weighIns || []).filter(entry => entry.logged_at < weekStart.toISOString())
+  const during = (weighIns || []).filter(entry => entry.logged_at >= weekStart.toISOString())
+  const startWeight = before.at(-1)?.weight_kg ?? during[0]?.weight_kg ?? null
+  const endWeight = during.at(-1)?.weight_kg ?? startWeight ?? profile?.weight_kg ?? null
+
+  return {
+    week_start: startKey,
+    week_end: endKey,
+    sessions,
+    volume: {
+      total_kg: Math.round(totalVolume),
+      by_muscle_group: volumeByMuscleGroup,
+    },
+    records: (records || []).map(record => ({
+      exercise: getName(record.exercise as NameRef),
+      description: formatRecord(record as { record_type: RecordType; value: number; weight_kg: number | null; reps: number | null }),
+      achieved_at: record.achieved_at,
+    })),
+    nutrition: {
+      days_logged: daysLogged,
+      avg_calories: average(Array.from(caloriesByDay.values()).reduce((sum, calories) => sum + calories, 0), daysLogged),
+      avg_protein_g: average(protein, daysLogged),
+      avg_carbs_g: average(carbs, daysLogged),
+      avg_fat_g: average(fat, daysLogged),
+      calorie_target: calorieTarget,
+      protein_target_g: targets?.protein_g ?? null,
+      days_on_target: daysOnTarget,
+    },
+    bodyweight: {
+      start_kg: startWeight,
+      end_kg: endWeight,
+      change_kg: startWeight !== null && endWeight !== null
+        ? Math.round((endWeight - startWeight) * 10) / 10
+        : null,
+      weigh_ins: during.length,
+    },
+  }
+}
+
+// ============================================
+// FORMATTING
+// ============================================
+
+function formatNumber(value: number): string {
+  return value.toLocaleString('en-US')
+}
+
+function formatChange(kg: number): string {
+  return `${kg > 0 ? '+' : ''}${kg} kg`
+}
+
+/**
+ * One line per stat, shared by the AI prompt and the Markdown export
+ */
+function summarizeTraining(data: WeeklyReportData): string[] {
+  const { sessions } = data
+  return [
+    sessions.planned > 0
+      ? `Sessions: ${sessions.completed} of ${sessions.planned} planned completed (${sessions.skipped} skipped, ${sessions.missed} missed)`
+      : 'Sessions: none planned',
+    `Workouts logged: ${sessions.logged}`,
+    `Total volume: ${formatNumber(data.volume.total_kg)} kg`,
+  ]
+}
+
+function summarizeNutrition(data: WeeklyReportData): string[] {
+  const { nutrition } = data
+  if (nutrition.days_logged === 0) return ['No food logged this week']
+
+  return [
+    `Days logged: ${nutrition.days_logged} of 7`,
+    `Avg calories: ${formatNumber(nutrition.avg_calories)}${nutrition.calorie_target ? ` (target ${formatNumber(nutrition.calorie_target)})` : ''}`,
+    `Avg protein: ${nutrition.avg_protein_g} g${nutrition.protein_target_g ? ` (target ${nutrition.protein_target_g} g)` : ''}`,
+    `Avg carbs: ${nutrition.avg_carbs_g} g, avg fat: ${nutrition.avg_fat_g} g`,
+    ...(nutrition.calorie_target
+      ? [`Days within ${CALORIE_TOLERANCE * 100}% of calorie target: ${nutrition.days_on_target} of ${nutrition.days_logged}`]
+      : []),
+  ]
+}
+
+function summarizeBodyweight(data: WeeklyReportData): string {
+  const { bodyweight } = data
+  if (bodyweight.end_kg === null) return 'No bodyweight recorded'
+  if (bodyweight.weigh_ins === 0) return `${bodyweight.end_kg} kg (no weigh-ins this week)`
+  if (bodyweight.start_kg === null || bodyweight.change_kg === null) return `${bodyweight.end_kg} kg`
+
+  return `${bodyweight.start_kg} kg → ${bodyweight.end_kg} kg (${formatChange(bodyweight.change_kg)}), ${bodyweight.weigh_ins} weigh-in${bodyweight.weigh_ins === 1 ? '' : 's'}`
+}
+
+function formatDay(timestamp: string): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+}
+
+export function formatWeeklyReportMarkdown(report: Pick<WeeklyReport, 'week_start' | 'data' | 'commentary'>): string {
+  const { data } = report
+  const lines = [`# Weekly Review: ${formatWeekRange(report.week_start)}`, '']
+
+  if (report.commentary) {
+    lines.push('## Coach\'s Take', '', report.commentary.trim(), '')
+  }
+
+  lines.push('## Training', '', ...summarizeTraining(data).map(line => `- ${line}`), '')
+
+  const trained = data.volume.by_muscle_group.filter(group => group.hard_sets > 0 || group.status === 'under')
+  if (trained.length > 0) {
+    lines.push(
+      '### Volume by Muscle Group',
+      '',
+      '| Muscle group | Hard sets | Target | Tonnage |',
+      '| --- | --- | --- | --- |',
+      ...trained.map(group =>
+        `| ${group.muscle_group} | ${group.hard_sets} | ${group.target.min}–${group.target.max} | ${formatNumber(Math.round(group.tonnage))} kg |`
+      ),
+      ''
+    )
+  }
+
+  lines.push('## Personal Records', '')
+  if (data.records.length === 0) {
+    lines.push('No new records this week.')
+  } else {
+    lines.push(...data.records.map(record => `- ${record.exercise}: ${record.description} (${formatDay(record.achieved_at)})`))
+  }
+  lines.push('')
+
+  lines.push('## Nutrition', '', ...summarizeNutrition(data).map(line => `- ${line}`), '')
+  lines.push('## Bodyweight', '', `- ${summarizeBodyweight(data)}`, '')
+
+  return lines.join('\n')
+}
+
+// ============================================
+// GENERATION
+// ============================================
+
+async function generateCommentary(ai: AIProvider, data: WeeklyReportData, goal: string | null): Promise<string | null> {
+  const volume = data.volume.by_muscle_group
+    .filter(group => group.hard_sets > 0 || group.status === 'under')
+    .map(group => `- ${group.muscle_group}: ${group.hard_sets} hard sets (target ${group.target.min}-${group.target.max}, ${group.status})`)
+
+  const prompt = `You are Filo, an encouraging and knowledgeable AI fitness coach. Review the user's last training week in 3-5 sentences: what went well, the one thing to improve, and a focus for the coming week. Refer to the actual numbers. Use at most 2 emojis.
+
+GOAL: ${goal?.replace('_', ' ') || 'Not set'}
+
+TRAINING:
+${summarizeTraining(data).map(line => `- ${line}`).join('\n')}
+
+VOLUME BY MUSCLE GROUP:
+${volume.join('\n') || '- No hard sets logged'}
+
+PERSONAL RECORDS:
+${data.records.map(record => `- ${record.exercise}: ${record.description}`).join('\n') || '- None'}
+
+NUTRITION:
+${summarizeNutrition(data).map(line => `- ${line}`).join('\n')}
+
+BODYWEIGHT:
+- ${summarizeBodyweight(data)}
+
+Write the weekly review:`
+
+  try {
+    return (await ai.generateText(prompt)).trim() || null
+  } catch (error) {
+    // The numbers are still worth storing without the commentary
+    console.error('Error generating weekly report commentary:', error)
+    return null
+  }
+}
+
+/**
+ * Build, comment on and store the report for the week starting weekStartKey
+ *
+ * Re-running for the same week replaces the stored report.
+ * Pass ai = null to store the numbers without commentary.
+ */
+export async function createWeeklyReport(
+  supabase: SupabaseClient,
+  userId: string,
+  weekStartKey: string,
+  ai: AIProvider | null
+): Promise<WeeklyReport> {
+  const data = await buildWeeklyReportData(supabase, userId, weekStartKey)
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('fitness_goal')
+    .eq('id', userId)
+    .single()
+
+  const commentary = ai ? await generateCommentary(ai, data, profile?.fitness_goal || null) : null
+
+  const { data: report, error } = await supabase
+    .from('weekly_reports')
+    .upsert(
+      {
+        user_id: userId,
+        week_start: data.week_start,
+        data,
+        commentary,
+        created_at: new Date().toISOString(),
+      },
+      { onConflict: 'user_id,week_start' }
+    )
+    .select('*')
+    .single()
+
+  if (error) throw error
+  return report as WeeklyReport
+}
+
+/**
+ * Whether the report for a week start key already exists
+ */
+export async function hasWeeklyReport(supabase: SupabaseClient, userId: string, weekStartKey: string): Promise<boolean> {
+  const { count } = await supabase
+    .from('weekly_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('week_start', weekStartKey)
+
+  return (count || 0) > 0
+}
@@ -0,0 +1,219 @@
+/**
+ * Weekly Volume
+ *
+ * Hard sets and tonnage per muscle group, compared against
+ * target ranges (default 10-20 hard sets per week).
+ *
+ * A "hard set" is any working set with reps logged. When RPE is
+ * recorded, sets below RPE 7 are treated as warm-ups and don't count.
+ *
+ * Targets can be overridden per muscle group via profiles.volume_targets,
+ * e.g. { "chest": { "min": 12, "max": 18 } }.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export const MUSCLE_GROUPS = [
+  'chest',
+  'back',
+  'shoulders',
+  'biceps',
+  'triceps',
+  'forearms',
+  'quads',
+  'hamstrings',
+  'glutes',
+  'calves',
+  'abs',
+  'obliques',
+  'lower back',
+  'traps',
+]
+
+export interface VolumeTarget {
+  min: number
+  max: number
+}
+
+export type VolumeTargets = Record<string, VolumeTarget>
+
+export const DEFAULT_VOLUME_TARGET: VolumeTarget = { min: 10, max: 20 }
+
+const HARD_SET_MIN_RPE = 7
+
+export type VolumeStatus = 'under' | 'within' | 'over'
+
+export interface MuscleGroupVolume {
+  muscle_group: string
+  hard_sets: number
+  tonnage: number
+  target: VolumeTarget
+  status: VolumeStatus
+}
+
+// Supabase returns embedded rows as an object or a single-item array
+type ExerciseRef = { muscle_group: string | null } | Array<{ muscle_group: string | null }> | null
+
+export interface VolumeSet {
+  reps: number
+  weight_kg: number | null
+  rpe?: number | null
+  exercise: ExerciseRef
+}
+
+/**
+ * Monday 00:00 of the week containing `date`
+ */
+export function getWeekStart(date: Date = new Date()): Date {
+  const start = new Date(date)
+  const dayOfWeek = start.getDay()
+  start.setDate(start.getDate() - (dayOfWeek === 0 ? 6 : dayOfWeek - 1))
+  start.setHours(0, 0, 0, 0)
+  return start
+}
+
+/**
+ * Merge user overrides over the default range
+ * Ignores malformed entries so a bad JSON value can't break the dashboard.
+ */
+export function getVolumeTarget(muscleGroup: string, overrides?: VolumeTargets | null): VolumeTarget {
+  const override = overrides?.[muscleGroup]
+  if (override && Number.isFinite(override.min) && Number.isFinite(override.max) && override.max >= override.min) {
+    return override
+  }
+  return DEFAULT_VOLUME_TARGET
+}
+
+export function isHardSet(set: { reps: number; rpe?: number | null }): boolean {
+  if (set.reps <= 0) return false
+  return set.rpe == null || set.rpe >= HARD_SET_MIN_RPE
+}
+
+function getMuscleGroup(exercise: ExerciseRef): string | null {
+  const ref = Array.isArray(exercise) ? exercise[0] : exercise
+  return ref?.muscle_group || null
+}
+
+function getStatus(hardSets: number, target: VolumeTarget): VolumeStatus {
+  if (hardSets < target.min) return 'under'
+  if (hardSets > target.max) return 'over'
+  return 'within'
+}
+
+/**
+ * Sum hard sets and tonnage per muscle group
+ *
+ * @param trackedGroups - Groups to include even with zero sets (e.g. the user's split)
+ */
+export function calculateWeeklyVolume(
+  sets: VolumeSet[],
+  overrides?: VolumeTargets | null,
+  trackedGroups: string[] = []
+): MuscleGroupVolume[] {
+  const totals = new Map<string, { hard_sets: number; tonnage: number }>()
+
+  for (const group of trackedGroups) {
+    totals.set(group, { hard_sets: 0, tonnage: 0 })
+  }
+
+  for (const set of sets) {
+    const group = getMuscleGroup(set.exercise)
+    if (!group) continue
+
+    const total = totals.get(group) || { hard_sets: 0, tonnage: 0 }
+    if (isHardSet(set)) total.hard_sets += 1
+    total.tonnage += set.reps * (set.weight_kg || 0)
+    totals.set(group, total)
+  }
+
+  return Array.from(totals.entries())
+    .map(([muscle_group, total]) => {
+      const target = getVolumeTarget(muscle_group, overrides)
+      return {
+        muscle_group,
+        hard_sets: total.hard_sets,
+        tonnage: Math.round(total.tonnage),
+        target,
+        status: getStatus(total.hard_sets, target),
+      }
+    })
+    .sort((a, b) => sortIndex(a.muscle_group) - sortIndex(b.muscle_group))
+}
+
+// Known groups in anatomical order, anything custom at the end
+function sortIndex(muscleGroup: string): number {
+  const index = MUSCLE_GROUPS.indexOf(muscleGroup)
+  return index === -1 ? MUSCLE_GROUPS.length : index
+}
+
+/**
+ * Muscle groups below their weekly minimum, biggest shortfall first
+ */
+export function getUnderTrainedGroups(volume: MuscleGroupVolume[]): MuscleGroupVolume[] {
+  return volume
+    .filter(v => v.status === 'under')
+    .sort((a, b) => (b.target.min - b.hard_sets) - (a.target.min - a.hard_sets))
+}
+
+/**
+ * Every muscle group in the user's split, so untrained ones still show up
+ */
+export async function getSplitMuscleGroups(supabase: SupabaseClient, userId: string): Promise<string[]> {
+  const { data: splits } = await supabase
+    .from('workout_splits')
+    .select('muscle_groups')
+    .eq('user_id', userId)
+
+  return Array.from(new Set(
+    (splits || []).flatMap((split: { muscle_groups: string[] | null }) => split.muscle_groups || [])
+  ))
+}
+
+/**
+ * Fetch a user's sets since `since` (and before `until`, if given) and summarize them
+ */
+export async function getWeeklyVolume(
+  supabase: SupabaseClient,
+  userId: string,
+  options: { since?: Date; until?: Date; overrides?: VolumeTargets | null; trackedGroups?: string[] } = {}
+): Promise<MuscleGroupVolume[]> {
+  const since = options.since || getWeekStart()
+
+  let query = supabase
+    .from('workout_sets')
+    .select(`
+      reps,
+      weight_kg,
+      rpe,
+      exercise:exercises (
+        muscle_group
+      ),
+      session:workout_sessions!inner (
+        user_id,
+        started_at
+      )
+    `)
+    .eq('session.user_id', userId)
+    .gte('session.started_at', since.toISOString())
+
+  if (options.until) query = query.lt('session.started_at', options.until.toISOString())
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching weekly volume:', error)
+    return calculateWeeklyVolume([], options.overrides, options.trackedGroups)
+  }
+
+  return calculateWeeklyVolume(data || [], options.overrides, options.trackedGroups)
+}
+
+/**
+ * One bullet per muscle group for AI prompts, e.g. "- chest: 8 hard sets (target 10-20, under), 4,200 kg"
+ */
+export function formatVolumeSummary(volume: MuscleGroupVolume[]): string {
+  if (volume.length === 0) return '- None yet'
+  return volume
+    .map(v => `- ${v.muscle_group}: ${v.hard_sets} hard sets (target ${v.target.min}-${v.target.max}, ${v.status}), ${v.tonnage.toLocaleString()} kg`)
+    .join('\n')
+}
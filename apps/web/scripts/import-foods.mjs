@@ -0,0 +1,150 @@
+/**
+ * Food Database Import
+ *
+ * Loads a CSV of foods into the foods table. Re-running is safe: rows are
+ * upserted on (source, name), so corrected values replace the old ones.
+ *
+ * USAGE:
+ *   npm run import:foods                              # data/foods.csv
+ *   npm run import:foods -- path/to/foods.csv --source off
+ *
+ * CSV COLUMNS (header row required, nutrients per 100 g):
+ *   name, category, calories, protein_g, carbs_g, fat_g, fiber_g,
+ *   serving_g, serving_label
+ *
+ * data/foods.csv is a starter set of common foods from USDA FoodData
+ * Central (public domain). Larger exports (the full USDA set, Open Food
+ * Facts) can be imported once mapped to the same columns.
+ *
+ * ENV: NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (read from
+ * .env.local by the npm script)
+ */
+
+import { readFileSync } from 'fs'
+import { createClient } from '@supabase/supabase-js'
+
+const DEFAULT_FILE = 'data/foods.csv'
+const DEFAULT_SOURCE = 'usda'
+const BATCH_SIZE = 500
+
+const NUMBER_COLUMNS = ['calories', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g', 'serving_g']
+
+/**
+ * Split CSV text into rows of fields, handling quoted fields
+ * (commas, doubled quotes and newlines inside quotes)
+ */
+function parseCsv(text) {
+  const rows = []
+  let row = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''))
+}
+
+function toFood(header, values, source) {
+  const record = Object.fromEntries(header.map((column, index) => [column, (values[index] || '').trim()]))
+  if (!record.name || record.calories === '') return null
+
+  const food = {
+    name: record.name,
+    brand: record.brand || null,
+    category: record.category || null,
+    source,
+    serving_label: record.serving_label || null,
+  }
+
+  for (const column of NUMBER_COLUMNS) {
+    const value = record[column] === '' || record[column] === undefined ? null : Number(record[column])
+    if (value !== null && !Number.isFinite(value)) return null
+    food[column] = value
+  }
+
+  // Macros are required - default missing ones to 0
+  for (const column of ['protein_g', 'carbs_g', 'fat_g']) {
+    food[column] = food[column] ?? 0
+  }
+
+  return food
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const sourceIndex = args.indexOf('--source')
+  const source = sourceIndex >= 0 ? args[sourceIndex + 1] : DEFAULT_SOURCE
+  const file = args.find((arg, index) => !arg.startsWith('--') && (sourceIndex < 0 || index !== sourceIndex + 1)) || DEFAULT_FILE
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceRoleKey) {
+    console.error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required')
+    process.exit(1)
+  }
+
+  const [header, ...rows] = parseCsv(readFileSync(file, 'utf8'))
+  const columns = header.map(column => column.trim().toLowerCase())
+
+  const foods = []
+  let skipped = 0
+  for (const values of rows) {
+    const food = toFood(columns, values, source)
+    if (food) foods.push(food)
+    else skipped++
+  }
+
+  const supabase = createClient(url, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+
+  for (let i = 0; i < foods.length; i += BATCH_SIZE) {
+    const batch = foods.slice(i, i + BATCH_SIZE)
+    const { error } = await supabase
+      .from('foods')
+      .upsert(batch, { onConflict: 'source,name' })
+
+    if (error) {
+      console.error(`Failed at rows ${i + 1}-${i + batch.length}:`, error.message)
+      process.exit(1)
+    }
+  }
+
+  console.log(`Imported ${foods.length} foods from ${file} (source: ${source}, skipped: ${skipped})`)
+}
+
+main().catch((error) => {
+  console.error('Import failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,6 @@
+-- How target loads are prescribed for generated workouts (lib/progression.ts).
+-- Null means the default, double progression.
+
+alter table public.profiles
+  add column if not exists progression_model text
+    check (progression_model in ('linear', 'double_progression', 'rpe'));
@@ -0,0 +1,9 @@
+-- Link a logged workout session to the planned workout it was started from
+-- (live sessions, app/dashboard/workouts/live). Deleting the plan keeps the
+-- session and its sets.
+
+alter table public.workout_sessions
+  add column if not exists planned_workout_id uuid references public.planned_workouts (id) on delete set null;
+
+create index if not exists workout_sessions_planned_workout_id_idx
+  on public.workout_sessions (planned_workout_id);
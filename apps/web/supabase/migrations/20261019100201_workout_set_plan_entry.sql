@@ -0,0 +1,8 @@
+-- Which exercise of the planned workout a set was logged against, by its
+-- position in planned_workouts.exercises (live sessions,
+-- app/dashboard/workouts/live). A plan can list the same exercise twice, so
+-- exercise_id alone can't tell the entries apart. Null for sets logged
+-- outside a live session.
+
+alter table public.workout_sets
+  add column if not exists plan_entry smallint check (plan_entry >= 0);
@@ -0,0 +1,39 @@
+-- Personal records detected per workout session (POST /api/records), plus
+-- the user's preferred 1RM formula.
+--
+-- A session's rows are replaced whenever it is re-saved. most_reps can be set
+-- at several weights in one session, so weight_kg is part of the key (null
+-- for bodyweight sets and volume records).
+
+alter table public.profiles
+  add column if not exists one_rep_max_formula text
+    check (one_rep_max_formula in ('epley', 'brzycki'));
+
+create table if not exists public.personal_records (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  session_id uuid not null references public.workout_sessions (id) on delete cascade,
+  exercise_id uuid not null references public.exercises (id) on delete cascade,
+  record_type text not null check (record_type in ('heaviest_weight', 'best_e1rm', 'most_reps', 'best_volume')),
+  value numeric not null,
+  weight_kg numeric,
+  reps integer,
+  achieved_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  unique nulls not distinct (session_id, exercise_id, record_type, weight_kg)
+);
+
+create index if not exists personal_records_user_achieved_idx
+  on public.personal_records (user_id, achieved_at desc);
+
+create index if not exists personal_records_user_exercise_idx
+  on public.personal_records (user_id, exercise_id);
+
+alter table public.personal_records enable row level security;
+
+create policy "Users manage their own personal records"
+  on public.personal_records
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
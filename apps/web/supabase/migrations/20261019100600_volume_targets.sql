@@ -0,0 +1,6 @@
+-- Weekly hard-set ranges per muscle group (lib/weeklyVolume.ts), as
+-- { "<muscle group>": { "min": 10, "max": 20 } }. Missing groups use the
+-- default range, as do all groups while this is null.
+
+alter table public.profiles
+  add column if not exists volume_targets jsonb;
@@ -0,0 +1,6 @@
+-- Weekdays a split is pinned to (lib/schedule.ts), 0 = Sunday to 6 = Saturday.
+-- Null or empty means the split follows the rotation.
+
+alter table public.workout_splits
+  add column if not exists pinned_days smallint[]
+    check (pinned_days <@ array[0, 1, 2, 3, 4, 5, 6]::smallint[]);
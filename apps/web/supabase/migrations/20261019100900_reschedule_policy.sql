@@ -0,0 +1,8 @@
+-- What happens to missed workouts (lib/reschedule.ts). Null means the
+-- default, push_back; reschedule_drop_days only applies to drop_after_days.
+
+alter table public.profiles
+  add column if not exists reschedule_policy text
+    check (reschedule_policy in ('skip_forward', 'push_back', 'merge_into_next', 'drop_after_days')),
+  add column if not exists reschedule_drop_days integer
+    check (reschedule_drop_days between 1 and 14);
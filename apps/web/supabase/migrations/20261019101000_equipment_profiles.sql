@@ -0,0 +1,12 @@
+-- Equipment profiles (lib/equipment.ts): the user's named equipment sets, as
+-- [{ "id": "gym", "name": "Gym", "equipment": ["barbell", ...] }]. Null means
+-- the built-in gym, home and travel profiles.
+--
+-- planned_workouts.equipment_profile is the id of the profile a workout was
+-- generated for, so swaps and alternatives respect the same equipment.
+
+alter table public.profiles
+  add column if not exists equipment_profiles jsonb;
+
+alter table public.planned_workouts
+  add column if not exists equipment_profile text;
@@ -0,0 +1,6 @@
+-- The session time budget a workout was generated for (lib/sessionDuration.ts).
+-- Null when it was generated without one.
+
+alter table public.planned_workouts
+  add column if not exists target_minutes integer
+    check (target_minutes between 15 and 180);
@@ -0,0 +1,5 @@
+-- Injuries and limitations respected by the AI routes (lib/limitations.ts),
+-- as [{ "id", "body_area", "severity", "avoid", "notes", "start_date", "end_date" }].
+
+alter table public.profiles
+  add column if not exists limitations jsonb;
@@ -0,0 +1,30 @@
+-- One row per structured AI call (lib/ai/metrics.ts): whether the output was
+-- valid as returned, repaired, needed a retry, or fell back.
+
+create table if not exists public.ai_output_metrics (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  route text not null,
+  provider text,
+  outcome text not null check (outcome in ('valid', 'repaired', 'retried', 'fallback')),
+  attempts integer not null default 0,
+  errors jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_output_metrics_user_created_idx
+  on public.ai_output_metrics (user_id, created_at desc);
+
+alter table public.ai_output_metrics enable row level security;
+
+create policy "Users read their own AI output metrics"
+  on public.ai_output_metrics
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+create policy "Users record their own AI output metrics"
+  on public.ai_output_metrics
+  for insert
+  to authenticated
+  with check (auth.uid() = user_id);
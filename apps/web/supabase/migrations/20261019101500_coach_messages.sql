@@ -0,0 +1,21 @@
+-- Coach chat history (app/api/ai/coach/chat), oldest first by created_at.
+
+create table if not exists public.coach_messages (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists coach_messages_user_created_idx
+  on public.coach_messages (user_id, created_at desc);
+
+alter table public.coach_messages enable row level security;
+
+create policy "Users manage their own coach messages"
+  on public.coach_messages
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
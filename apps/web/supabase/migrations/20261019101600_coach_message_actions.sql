@@ -0,0 +1,6 @@
+-- Changes the coach proposes alongside a reply (lib/coachTools.ts), applied
+-- on confirm by POST /api/ai/coach/actions. An array of
+-- { "action": {...}, "status": "pending" | "applied" | "dismissed" }.
+
+alter table public.coach_messages
+  add column if not exists actions jsonb;
@@ -0,0 +1,39 @@
+-- Per-user AI usage behind the quotas and the admin usage view
+-- (lib/ai/usage.ts). One row per model call; calls made for the same route
+-- request share a request_id. A request's first row is reserved as 'pending'
+-- before the model is called and completed once it returns.
+--
+-- Users can read their own rows (the quota check runs as the user) but not
+-- write them - otherwise deleting or rewriting rows would reset the quota.
+-- Rows are written with the service role (lib/supabase/admin).
+
+create table if not exists public.ai_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  route text not null,
+  request_id uuid not null,
+  provider text not null,
+  model text not null,
+  status text not null default 'complete' check (status in ('pending', 'complete')),
+  input_tokens integer,
+  output_tokens integer,
+  latency_ms integer,
+  success boolean,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ai_usage_user_route_created_idx
+  on public.ai_usage (user_id, route, created_at);
+
+create index if not exists ai_usage_created_idx
+  on public.ai_usage (created_at, id);
+
+alter table public.ai_usage enable row level security;
+
+create policy "Users read their own AI usage"
+  on public.ai_usage
+  for select
+  to authenticated
+  using (auth.uid() = user_id);
+
+revoke insert, update, delete on public.ai_usage from anon, authenticated;
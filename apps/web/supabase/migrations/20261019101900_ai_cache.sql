@@ -0,0 +1,22 @@
+-- Cached coach insights and daily plans (lib/ai/cache.ts). One row per user
+-- and kind; key is a hash of the data the answer was generated from, so a
+-- new answer replaces the old one.
+
+create table if not exists public.ai_cache (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  kind text not null check (kind in ('insight', 'daily_plan')),
+  key text not null,
+  content jsonb not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, kind)
+);
+
+alter table public.ai_cache enable row level security;
+
+create policy "Users manage their own AI cache"
+  on public.ai_cache
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,48 @@
+-- Weekly review reports (lib/weeklyReport.ts), one per user and week, and
+-- the weigh-ins behind their bodyweight trend.
+--
+-- data is the report's numbers (WeeklyReportData), commentary the AI summary.
+-- Reports are written by the user (generate now) or the Monday cron, which
+-- uses the service role.
+
+create table if not exists public.weekly_reports (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  week_start date not null,
+  data jsonb not null,
+  commentary text,
+  created_at timestamptz not null default now(),
+  unique (user_id, week_start)
+);
+
+create index if not exists weekly_reports_week_start_idx
+  on public.weekly_reports (week_start, user_id);
+
+alter table public.weekly_reports enable row level security;
+
+create policy "Users manage their own weekly reports"
+  on public.weekly_reports
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- A row whenever the weight on the profile changes
+create table if not exists public.weight_logs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  weight_kg numeric not null check (weight_kg > 0),
+  logged_at timestamptz not null default now()
+);
+
+create index if not exists weight_logs_user_logged_idx
+  on public.weight_logs (user_id, logged_at);
+
+alter table public.weight_logs enable row level security;
+
+create policy "Users manage their own weight logs"
+  on public.weight_logs
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
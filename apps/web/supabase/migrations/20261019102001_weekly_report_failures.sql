@@ -0,0 +1,17 @@
+-- Failed weekly report attempts (app/api/reports/weekly/cron), one row per
+-- user and week. The cron tries users without a row first and gives up on a
+-- user after a few attempts, so one whose report keeps failing can't hold up
+-- everyone after them. Cleared when the report is stored.
+--
+-- Only the cron (service role) reads or writes these - no policies.
+
+create table if not exists public.weekly_report_failures (
+  user_id uuid not null references auth.users (id) on delete cascade,
+  week_start date not null,
+  attempts integer not null default 1,
+  error text,
+  last_attempt_at timestamptz not null default now(),
+  primary key (user_id, week_start)
+);
+
+alter table public.weekly_report_failures enable row level security;
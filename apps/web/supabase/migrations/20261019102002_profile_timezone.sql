@@ -0,0 +1,7 @@
+-- The user's IANA timezone (e.g. Europe/London), saved by the dashboard
+-- layout from the browser's timezone cookie (lib/timezone). The weekly report
+-- cron has no request to read the cookie from, so it uses this to work out
+-- each user's week boundaries and whether their week is over yet.
+
+alter table public.profiles
+  add column if not exists timezone text;
@@ -0,0 +1,6 @@
+-- Manual overrides for the daily nutrition targets (lib/nutritionTargets.ts),
+-- as { "calories", "protein_g", "carbs_g", "fat_g" } - any subset. Values
+-- left out are derived from TDEE and the fitness goal.
+
+alter table public.profiles
+  add column if not exists nutrition_targets jsonb;
@@ -0,0 +1,8 @@
+-- Inputs for the shared BMR and TDEE math (lib/energy.ts). Body fat is only
+-- needed for Katch-McArdle and ignored when implausible; a null formula means
+-- Mifflin-St Jeor.
+
+alter table public.profiles
+  add column if not exists body_fat_pct numeric,
+  add column if not exists bmr_formula text
+    check (bmr_formula in ('mifflin_st_jeor', 'harris_benedict', 'katch_mcardle'));
@@ -0,0 +1,38 @@
+-- Shared food database with nutrients per 100 g (lib/foods.ts), seeded by
+-- scripts/import-foods.mjs with the service role. Every signed-in user can
+-- read it; nobody else can write it.
+--
+-- food_logs rows logged from it keep the food and the weight eaten.
+
+create table if not exists public.foods (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  brand text,
+  category text,
+  source text not null,
+  calories numeric not null default 0,
+  protein_g numeric not null default 0,
+  carbs_g numeric not null default 0,
+  fat_g numeric not null default 0,
+  fiber_g numeric,
+  serving_g numeric,
+  serving_label text,
+  created_at timestamptz not null default now(),
+  unique (source, name)
+);
+
+-- Full-text search on the name (searchFoods)
+create index if not exists foods_name_fts_idx
+  on public.foods using gin (to_tsvector('english', name));
+
+alter table public.foods enable row level security;
+
+create policy "Signed-in users read foods"
+  on public.foods
+  for select
+  to authenticated
+  using (true);
+
+alter table public.food_logs
+  add column if not exists food_id uuid references public.foods (id) on delete set null,
+  add column if not exists quantity_g numeric;
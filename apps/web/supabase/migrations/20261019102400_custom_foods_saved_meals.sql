@@ -0,0 +1,57 @@
+-- Custom foods and saved meals (lib/savedFoods.ts).
+--
+-- custom_foods: the user's own foods, macros per serving.
+-- saved_meals: named multi-item meals, items as a jsonb array of
+-- { name, calories, protein_g, carbs_g, fat_g, food_id, custom_food_id, quantity_g }.
+--
+-- food_logs rows keep which custom food or saved meal they were logged from,
+-- to rank the quick-add list by use.
+
+create table if not exists public.custom_foods (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  serving_label text,
+  calories numeric not null default 0,
+  protein_g numeric not null default 0,
+  carbs_g numeric not null default 0,
+  fat_g numeric not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists custom_foods_user_idx on public.custom_foods (user_id);
+
+alter table public.custom_foods enable row level security;
+
+create policy "Users manage their own custom foods"
+  on public.custom_foods
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.saved_meals (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  meal_type text check (meal_type in ('breakfast', 'lunch', 'dinner', 'snack', 'other')),
+  items jsonb not null default '[]'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists saved_meals_user_idx on public.saved_meals (user_id);
+
+alter table public.saved_meals enable row level security;
+
+create policy "Users manage their own saved meals"
+  on public.saved_meals
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+alter table public.food_logs
+  add column if not exists custom_food_id uuid references public.custom_foods (id) on delete set null,
+  add column if not exists saved_meal_id uuid references public.saved_meals (id) on delete set null;
+
+create index if not exists food_logs_user_logged_idx on public.food_logs (user_id, logged_at);
@@ -0,0 +1,48 @@
+-- Recipes and their ingredients (lib/recipes.ts). Ingredients are foods from
+-- the shared database with their raw weight, in position order; they belong
+-- to the recipe's owner through the recipe.
+--
+-- food_logs rows logged as a portion of a recipe keep the recipe.
+
+create table if not exists public.recipes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null,
+  servings numeric not null default 1 check (servings > 0),
+  cooked_weight_g numeric check (cooked_weight_g > 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists recipes_user_idx on public.recipes (user_id);
+
+alter table public.recipes enable row level security;
+
+create policy "Users manage their own recipes"
+  on public.recipes
+  for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.recipe_ingredients (
+  id uuid primary key default gen_random_uuid(),
+  recipe_id uuid not null references public.recipes (id) on delete cascade,
+  food_id uuid not null references public.foods (id) on delete cascade,
+  grams numeric not null check (grams > 0),
+  position integer not null default 0
+);
+
+create index if not exists recipe_ingredients_recipe_idx on public.recipe_ingredients (recipe_id, position);
+
+alter table public.recipe_ingredients enable row level security;
+
+create policy "Users manage the ingredients of their own recipes"
+  on public.recipe_ingredients
+  for all
+  to authenticated
+  using (exists (select 1 from public.recipes r where r.id = recipe_id and r.user_id = auth.uid()))
+  with check (exists (select 1 from public.recipes r where r.id = recipe_id and r.user_id = auth.uid()));
+
+alter table public.food_logs
+  add column if not exists recipe_id uuid references public.recipes (id) on delete set null;
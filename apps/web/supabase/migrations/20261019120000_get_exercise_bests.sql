@@ -0,0 +1,33 @@
+-- Prior bests per exercise for personal record detection (POST /api/records).
+--
+-- Aggregates the user's sets before a session instead of returning the whole
+-- history: one row per exercise and weight with the most reps done at it,
+-- plus the exercise's best single-session volume. Bodyweight sets count as
+-- weight 0. Runs as the caller, so RLS on workout_sessions still applies.
+
+create or replace function public.get_exercise_bests(p_exercise_ids uuid[], p_before timestamptz)
+returns table (exercise_id uuid, weight_kg numeric, max_reps integer, best_volume numeric)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  with previous as (
+    select s.exercise_id, s.session_id, s.reps, coalesce(s.weight_kg, 0) as weight
+    from workout_sets s
+    join workout_sessions ws on ws.id = s.session_id
+    where ws.user_id = auth.uid()
+      and ws.started_at < p_before
+      and s.exercise_id = any(p_exercise_ids)
+  ),
+  session_volumes as (
+    select p.exercise_id, sum(p.reps * p.weight) as volume
+    from previous p
+    group by p.exercise_id, p.session_id
+  )
+  select p.exercise_id, p.weight, max(p.reps), (
+    select max(v.volume) from session_volumes v where v.exercise_id = p.exercise_id
+  )
+  from previous p
+  group by p.exercise_id, p.weight
+$$;
@@ -0,0 +1,28 @@
+-- Atomically move one proposal on coach_messages.actions from one status to
+-- another (POST /api/ai/coach/actions).
+--
+-- The update only matches while the proposal still has the expected status,
+-- so a double submit or two confirms racing on the same message can't both
+-- claim it, and neither overwrites the other's status. Returns the updated
+-- actions array, or null if nothing changed.
+
+create or replace function public.set_coach_action_status(
+  p_message_id uuid,
+  p_index integer,
+  p_from text,
+  p_to text
+)
+returns jsonb
+language sql
+volatile
+security invoker
+set search_path = public
+as $$
+  update coach_messages
+  set actions = jsonb_set(actions, array[p_index::text, 'status'], to_jsonb(p_to))
+  where id = p_message_id
+    and user_id = auth.uid()
+    and role = 'assistant'
+    and actions -> p_index ->> 'status' = p_from
+  returning actions
+$$;
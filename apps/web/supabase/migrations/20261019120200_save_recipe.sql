@@ -0,0 +1,50 @@
+-- Create or update a recipe and replace its ingredients in one transaction
+-- (lib/recipes.ts saveRecipe).
+--
+-- Ingredients are a jsonb array of { food_id, grams }, stored in array order.
+-- If any step fails the whole save rolls back, so an edit can never leave a
+-- recipe without its ingredients. Returns the recipe id.
+
+create or replace function public.save_recipe(
+  p_recipe_id uuid,
+  p_name text,
+  p_servings numeric,
+  p_cooked_weight_g numeric,
+  p_ingredients jsonb
+)
+returns uuid
+language plpgsql
+volatile
+security invoker
+set search_path = public
+as $$
+declare
+  v_recipe_id uuid := p_recipe_id;
+begin
+  if v_recipe_id is null then
+    insert into recipes (user_id, name, servings, cooked_weight_g)
+    values (auth.uid(), p_name, p_servings, p_cooked_weight_g)
+    returning id into v_recipe_id;
+  else
+    update recipes
+    set name = p_name,
+        servings = p_servings,
+        cooked_weight_g = p_cooked_weight_g,
+        updated_at = now()
+    where id = v_recipe_id
+      and user_id = auth.uid();
+
+    if not found then
+      raise exception 'Recipe not found' using errcode = 'P0002';
+    end if;
+
+    delete from recipe_ingredients where recipe_id = v_recipe_id;
+  end if;
+
+  insert into recipe_ingredients (recipe_id, food_id, grams, position)
+  select v_recipe_id, (item ->> 'food_id')::uuid, (item ->> 'grams')::numeric, (ordinality - 1)::integer
+  from jsonb_array_elements(coalesce(p_ingredients, '[]'::jsonb)) with ordinality as items(item, ordinality);
+
+  return v_recipe_id;
+end;
+$$;
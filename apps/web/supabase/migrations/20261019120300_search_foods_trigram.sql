@@ -0,0 +1,25 @@
+-- Typo-tolerant food search (lib/foods.ts searchFoods).
+--
+-- Returns the foods whose names are closest to the query by trigram word
+-- similarity, best first, so misspelled searches ("chiken brest") find the
+-- right rows however large the foods table is. The threshold is lower than
+-- pg_trgm's default 0.6 - results are re-ranked in the app anyway.
+
+create extension if not exists pg_trgm;
+
+create index if not exists foods_name_trgm_idx on public.foods using gin (name gin_trgm_ops);
+
+create or replace function public.search_foods_fuzzy(p_query text, p_limit integer default 100)
+returns setof public.foods
+language sql
+stable
+security invoker
+set search_path = public
+set pg_trgm.word_similarity_threshold = 0.3
+as $$
+  select *
+  from foods
+  where p_query <% name
+  order by word_similarity(p_query, name) desc, name
+  limit p_limit
+$$;